@@ -0,0 +1,243 @@
+import type { ClientIssue } from "./ClientMonitor";
+import { StatsStorage } from "./entries/StatsStorage";
+import { TrackStats } from "./entries/StatsEntryInterfaces";
+
+export type MetricSummary = {
+    min: number,
+    avg: number,
+    max: number,
+}
+
+export type TrackSummary = {
+    trackId: string,
+    peerConnectionId: string,
+    direction: TrackStats['direction'],
+    kind: TrackStats['kind'],
+    /**
+     * The time the track was first seen in the stats
+     */
+    startedAt: number,
+    /**
+     * The time the track was last seen in the stats
+     */
+    endedAt: number,
+    /**
+     * Sending bitrate for outbound, receiving bitrate for inbound tracks in bits per second
+     */
+    bitrate?: MetricSummary,
+    /**
+     * Packet loss measured locally for inbound, reported by the remote side for outbound tracks
+     */
+    fractionLoss?: MetricSummary,
+    roundTripTimeInS?: MetricSummary,
+    jitter?: MetricSummary,
+    /**
+     * The quality score (MOS, 1 - 5) of the track
+     */
+    score?: MetricSummary,
+    /**
+     * The number of video freezes of an inbound video track
+     */
+    freezeCount?: number,
+    totalFreezesDurationInS?: number,
+    /**
+     * The ratio of the concealed and the received samples of an inbound audio track
+     */
+    concealmentRatio?: number,
+}
+
+export type CallSummary = {
+    startedAt: number,
+    endedAt: number,
+    durationInMs: number,
+    /**
+     * The time any of the peer connections used a TURN server
+     */
+    usingTurnInMs: number,
+    tracks: TrackSummary[],
+    issues: Record<ClientIssue['severity'], ClientIssue[]>,
+    /**
+     * The average quality score (MOS, 1 - 5) of the tracks during the call
+     */
+    score?: number,
+}
+
+type MetricAccumulator = {
+    min: number,
+    max: number,
+    sum: number,
+    count: number,
+}
+
+type TrackAccumulator = Omit<TrackSummary, 'bitrate' | 'fractionLoss' | 'roundTripTimeInS' | 'jitter' | 'score'> & {
+    metrics: Map<'bitrate' | 'fractionLoss' | 'roundTripTimeInS' | 'jitter' | 'score', MetricAccumulator>,
+    detectedFreezeCount: number,
+    detectedFreezesDurationInS: number,
+}
+
+function addValue(metrics: TrackAccumulator['metrics'], name: Parameters<TrackAccumulator['metrics']['get']>[0], value?: number) {
+    if (value === undefined || !Number.isFinite(value)) return;
+    const metric = metrics.get(name);
+    if (!metric) {
+        metrics.set(name, { min: value, max: value, sum: value, count: 1 });
+        return;
+    }
+    metric.min = Math.min(metric.min, value);
+    metric.max = Math.max(metric.max, value);
+    metric.sum += value;
+    ++metric.count;
+}
+
+function createMetricSummary(metric?: MetricAccumulator): MetricSummary | undefined {
+    if (!metric) return;
+    return {
+        min: metric.min,
+        avg: Math.round((metric.sum / metric.count) * 1000) / 1000,
+        max: metric.max,
+    };
+}
+
+export type CallSummaryBuilder = ReturnType<typeof createCallSummaryBuilder>;
+
+/**
+ * Creates a builder accumulating the metrics of the tracks and the issues raised during a call,
+ * to create a CallSummary when the call ends.
+ *
+ * @param startedAt the time the call started at, the time of the first update if it is not given
+ */
+export function createCallSummaryBuilder(startedAt?: number) {
+    const tracks = new Map<string, TrackAccumulator>();
+    const issues: CallSummary['issues'] = {
+        critical: [],
+        major: [],
+        minor: [],
+    };
+    let usingTurnInMs = 0;
+    let sumScore = 0;
+    let scoreCount = 0;
+
+    function updateTrack(track: TrackStats, timestamp: number) {
+        let accumulator = tracks.get(track.trackId);
+        if (!accumulator) {
+            accumulator = {
+                trackId: track.trackId,
+                peerConnectionId: track.getPeerConnection().peerConnectionId,
+                direction: track.direction,
+                kind: track.kind,
+                startedAt: timestamp,
+                endedAt: timestamp,
+                metrics: new Map(),
+                detectedFreezeCount: 0,
+                detectedFreezesDurationInS: 0,
+            };
+            tracks.set(track.trackId, accumulator);
+        }
+        accumulator.endedAt = timestamp;
+
+        const { metrics } = accumulator;
+        addValue(metrics, 'bitrate', track.bitrate);
+        addValue(metrics, 'jitter', track.jitter);
+        addValue(metrics, 'score', track.score);
+        // the round trip time is 0 or -1 if it is not measured yet
+        if (0 < track.roundTripTimeInS) addValue(metrics, 'roundTripTimeInS', track.roundTripTimeInS);
+        addValue(metrics, 'fractionLoss', track.fractionLoss);
+
+        if (track.direction === 'outbound') return;
+
+        let freezeCount: number | undefined;
+        let totalFreezesDurationInS: number | undefined;
+        let concealedSamples: number | undefined;
+        let totalSamplesReceived: number | undefined;
+        for (const { stats } of track.inboundRtps()) {
+            if (stats.freezeCount !== undefined) freezeCount = (freezeCount ?? 0) + stats.freezeCount;
+            if (stats.totalFreezesDuration !== undefined) totalFreezesDurationInS = (totalFreezesDurationInS ?? 0) + stats.totalFreezesDuration;
+            if (stats.concealedSamples !== undefined) concealedSamples = (concealedSamples ?? 0) + stats.concealedSamples;
+            if (stats.totalSamplesReceived !== undefined) totalSamplesReceived = (totalSamplesReceived ?? 0) + stats.totalSamplesReceived;
+        }
+        // the stats are cumulative, the last values are kept
+        if (freezeCount !== undefined) accumulator.freezeCount = freezeCount;
+        if (totalFreezesDurationInS !== undefined) accumulator.totalFreezesDurationInS = totalFreezesDurationInS;
+        if (concealedSamples !== undefined && totalSamplesReceived) {
+            accumulator.concealmentRatio = Math.round((concealedSamples / totalSamplesReceived) * 1000) / 1000;
+        }
+    }
+
+    /**
+     * Accumulates the actual metrics of the storage
+     *
+     * @param elapsedSinceLastUpdateInMs the time elapsed since the previous update
+     * @param timestamp the time the stats of the storage are collected at
+     */
+    function update(storage: StatsStorage, elapsedSinceLastUpdateInMs: number, timestamp = Date.now()) {
+        startedAt = startedAt ?? timestamp;
+        for (const track of storage.tracks()) {
+            updateTrack(track, timestamp);
+        }
+        if (Array.from(storage.peerConnections()).some(peerConnection => peerConnection.usingTURN)) {
+            usingTurnInMs += elapsedSinceLastUpdateInMs;
+        }
+        if (storage.avgScore !== undefined) {
+            sumScore += storage.avgScore;
+            ++scoreCount;
+        }
+    }
+
+    function addIssue(issue: ClientIssue) {
+        issues[issue.severity]?.push(issue);
+    }
+
+    /**
+     * Adds a video freeze detected by the monitor.
+     * The detected freezes are reported only for tracks the freezeCount is not provided by the stats.
+     */
+    function addFreeze(trackId: string, durationInS: number) {
+        const accumulator = tracks.get(trackId);
+        if (!accumulator) return;
+        ++accumulator.detectedFreezeCount;
+        accumulator.detectedFreezesDurationInS += durationInS;
+    }
+
+    /**
+     * @param endedAt the time the call ended at, it must be on the same clock the updates are made with
+     */
+    function build(endedAt = Date.now()): CallSummary {
+        const callStartedAt = startedAt ?? endedAt;
+        const trackSummaries = Array.from(tracks.values()).map((accumulator): TrackSummary => {
+            const { metrics, detectedFreezeCount, detectedFreezesDurationInS, ...summary } = accumulator;
+            const freezeCount = summary.freezeCount ?? (0 < detectedFreezeCount ? detectedFreezeCount : undefined);
+            const totalFreezesDurationInS = summary.totalFreezesDurationInS ?? (0 < detectedFreezeCount ? detectedFreezesDurationInS : undefined);
+
+            return {
+                ...summary,
+                bitrate: createMetricSummary(metrics.get('bitrate')),
+                fractionLoss: createMetricSummary(metrics.get('fractionLoss')),
+                roundTripTimeInS: createMetricSummary(metrics.get('roundTripTimeInS')),
+                jitter: createMetricSummary(metrics.get('jitter')),
+                score: createMetricSummary(metrics.get('score')),
+                freezeCount,
+                totalFreezesDurationInS,
+            };
+        });
+
+        return {
+            startedAt: callStartedAt,
+            endedAt,
+            durationInMs: endedAt - callStartedAt,
+            usingTurnInMs,
+            tracks: trackSummaries,
+            issues: {
+                critical: [ ...issues.critical ],
+                major: [ ...issues.major ],
+                minor: [ ...issues.minor ],
+            },
+            score: 0 < scoreCount ? Math.round((sumScore / scoreCount) * 100) / 100 : undefined,
+        };
+    }
+
+    return {
+        update,
+        addIssue,
+        addFreeze,
+        build,
+    };
+}
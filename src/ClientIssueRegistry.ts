@@ -0,0 +1,135 @@
+import { v4 as uuid } from "uuid";
+import type { ClientIssue } from "./ClientMonitor";
+import { createRingBuffer } from "./utils/RingBuffer";
+
+export type ClientIssueState = 'open' | 'resolved';
+
+/**
+ * An issue added to the monitor
+ */
+export type RegisteredClientIssue = ClientIssue & {
+    id: string,
+    state: ClientIssueState,
+    timestamp: number,
+    /**
+     * The number of times the issue was added while it was open
+     */
+    occurrences: number,
+};
+
+export type ClientIssueFilter = {
+    type?: string,
+    peerConnectionId?: string,
+    mediaTrackId?: string,
+};
+
+export type ClientIssueRegistry = ReturnType<typeof createClientIssueRegistry>;
+
+/**
+ * The queries of the issues added to the monitor
+ */
+export type ClientIssues = Pick<ClientIssueRegistry, 'get' | 'find' | 'active' | 'resolved' | 'all'>;
+
+function getKey(type: string, peerConnectionId?: string, mediaTrackId?: string) {
+    return `${type}:${peerConnectionId ?? ''}:${mediaTrackId ?? ''}`;
+}
+
+function matches(issue: RegisteredClientIssue, filter: ClientIssueFilter) {
+    return (filter.type === undefined || issue.type === filter.type) &&
+        (filter.peerConnectionId === undefined || issue.peerConnectionId === filter.peerConnectionId) &&
+        (filter.mediaTrackId === undefined || issue.mediaTrackId === filter.mediaTrackId);
+}
+
+/**
+ * Creates a registry keeping the issues added to the monitor with their state.
+ *
+ * An issue is open until it is resolved, issues having a type are de-duplicated by their type,
+ * peer connection and track while they are open.
+ *
+ * @param maxResolvedIssues the number of the last resolved issues kept, the older ones are dropped
+ */
+export function createClientIssueRegistry(maxResolvedIssues = 100) {
+    const issues = new Map<string, RegisteredClientIssue>();
+    const openIssues = new Map<string, RegisteredClientIssue>();
+    const resolvedIssueIds = createRingBuffer<string>(maxResolvedIssues);
+
+    /**
+     * Registers the given issue as open.
+     *
+     * @param openedAt the timestamp of the issue if it is not given
+     * @returns the registered issue and true, or the open issue with the same type, peer connection and track and false
+     */
+    function open(issue: ClientIssue, openedAt = Date.now()): [RegisteredClientIssue, boolean] {
+        const key = issue.type !== undefined ? getKey(issue.type, issue.peerConnectionId, issue.mediaTrackId) : undefined;
+        const openIssue = key !== undefined ? openIssues.get(key) : undefined;
+        if (openIssue) {
+            ++openIssue.occurrences;
+            return [ openIssue, false ];
+        }
+
+        const registeredIssue: RegisteredClientIssue = {
+            ...issue,
+            id: uuid(),
+            state: 'open',
+            timestamp: issue.timestamp ?? openedAt,
+            occurrences: 1,
+        };
+        issues.set(registeredIssue.id, registeredIssue);
+        if (key !== undefined) openIssues.set(key, registeredIssue);
+
+        return [ registeredIssue, true ];
+    }
+
+    /**
+     * Resolves an open issue
+     *
+     * @returns the resolved issue, or undefined if no open issue is registered with the given id
+     */
+    function resolve(issueId: string, resolvedAt = Date.now()): RegisteredClientIssue | undefined {
+        const issue = issues.get(issueId);
+        if (!issue || issue.state !== 'open') return;
+
+        issue.state = 'resolved';
+        issue.resolvedAt = resolvedAt;
+        issue.durationInMs = Math.max(0, resolvedAt - issue.timestamp);
+        if (issue.type !== undefined) openIssues.delete(getKey(issue.type, issue.peerConnectionId, issue.mediaTrackId));
+
+        const droppedIssueId = resolvedIssueIds.push(issue.id);
+        if (droppedIssueId !== undefined) issues.delete(droppedIssueId);
+
+        return issue;
+    }
+
+    function get(issueId: string): RegisteredClientIssue | undefined {
+        return issues.get(issueId);
+    }
+
+    /**
+     * The issues matching all the given properties of the filter, in the order they are added
+     */
+    function find(filter: ClientIssueFilter & { state?: ClientIssueState }): RegisteredClientIssue[] {
+        return all().filter(issue => (filter.state === undefined || issue.state === filter.state) && matches(issue, filter));
+    }
+
+    function active(): RegisteredClientIssue[] {
+        return find({ state: 'open' });
+    }
+
+    function resolved(): RegisteredClientIssue[] {
+        return find({ state: 'resolved' });
+    }
+
+    function all(): RegisteredClientIssue[] {
+        return Array.from(issues.values());
+    }
+
+    return {
+        open,
+        resolve,
+        get,
+        find,
+        active,
+        resolved,
+        all,
+    };
+}
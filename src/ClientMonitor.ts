@@ -6,7 +6,8 @@ import { TypedEventEmitter } from './utils/TypedEmitter';
 import { Sampler } from './Sampler';
 import { createAdapterMiddlewares } from './collectors/Adapter';
 import * as validators from './utils/validators';
-import { PeerConnectionEntry, PeerConnectionStateUpdated, TrackStats } from './entries/StatsEntryInterfaces';
+import { NetworkChangedEvent, PeerConnectionEntry, PeerConnectionStateUpdated, TrackStats } from './entries/StatsEntryInterfaces';
+import { createNetworkChangedEvent } from './utils/callEvents';
 import { AudioDesyncDetector, AudioDesyncDetectorConfig } from './detectors/AudioDesyncDetector';
 import { CongestionDetector, CongestionDetectorConfig, CongestionDetectorEvents } from './detectors/CongestionDetector';
 import { CpuPerformanceDetector, CpuPerformanceDetectorConfig } from './detectors/CpuPerformanceDetector';
@@ -19,12 +20,33 @@ import  {
 import { StuckedInboundTrackDetector, StuckedInboundTrackDetectorConfig } from './detectors/StuckedInboundTrack';
 import { LongPcConnectionEstablishmentDetector, LongPcConnectionEstablishmentDetectorConfig } from './detectors/LongPcConnectionEstablishment';
 import UAParser from 'ua-parser-js';
-import { Detector } from './detectors/Detector';
+import { CustomDetector, DetectedIssue, Detector } from './detectors/Detector';
 import { StuckedOutboundTrackDetector, StuckedOutboundTrackDetectorConfig } from './detectors/StuckedOutboundTrack';
+import { OneWayOutboundMediaCause, OneWayOutboundMediaDetector, OneWayOutboundMediaDetectorConfig, OneWayOutboundMediaEndedEvent, OneWayOutboundMediaStartedEvent } from './detectors/OneWayOutboundMediaDetector';
+import { ConnectionFlappingDetector, ConnectionFlappingDetectorConfig, ConnectionFlappingStats } from './detectors/ConnectionFlappingDetector';
+import { OutboundVideoDegradationDetector, OutboundVideoDegradationDetectorConfig, OutboundVideoDegradationEndedEvent, OutboundVideoDegradationEvent, getRequestedVideoProperties } from './detectors/OutboundVideoDegradationDetector';
+import { DeadMicrophoneCause, DeadMicrophoneDetector, DeadMicrophoneDetectorConfig, DeadMicrophoneEndedEvent, DeadMicrophoneStartedEvent } from './detectors/DeadMicrophoneDetector';
+import { CallEventType } from './utils/CallEventType';
+import { TcpRelayFallbackDetector, TcpRelayFallbackEndedEvent, TcpRelayFallbackStartedEvent } from './detectors/TcpRelayFallbackDetector';
+import { BandwidthDegradingEvent, BandwidthStabilizedEvent, BandwidthTrendDetector, BandwidthTrendDetectorConfig } from './detectors/BandwidthTrendDetector';
+import { MediaStartedEvent, SlowMediaStartDetector, SlowMediaStartDetectorConfig, SlowMediaStartEvent } from './detectors/SlowMediaStartDetector';
+import { RtcRelayProtocol } from './schema/W3cStatsIdentifiers';
+import { LayersChangedDetector, LayersChangedDetectorConfig, TrackLayersChangedEvent } from './detectors/LayersChanged';
+import { JitterBufferDetector, JitterBufferDetectorConfig, JitterBufferEvent } from './detectors/JitterBufferDetector';
+import { PacketLossBurstDetector, PacketLossBurstDetectorConfig, PacketLossBurstEvent } from './detectors/PacketLossBurstDetector';
+import { PacketLossEpisode } from './entries/PacketLossPattern';
+import { SilentInboundAudioCause, SilentInboundAudioDetector, SilentInboundAudioDetectorConfig, SilentInboundAudioEndedEvent, SilentInboundAudioStartedEvent } from './detectors/SilentInboundAudioDetector';
+import { ThresholdRule, ThresholdRuleEvent, ThresholdRulesDetector, ThresholdRulesDetectorConfig } from './detectors/ThresholdRulesDetector';
+import { SampleTransport, SampleTransportConfig } from './transports/SampleTransport';
+import { StatsDumpRecord } from './collectors/StatsDump';
+import { ReplayStatsCollector } from './collectors/ReplayStatsCollector';
+import { StatsRecorder, StatsRecorderConfig } from './StatsRecorder';
+import { CallSummary, createCallSummaryBuilder } from './CallSummary';
+import { ClientIssues, ClientIssueState, createClientIssueRegistry } from './ClientIssueRegistry';
 
 const logger = createLogger('ClientMonitor');
 
-type ClientDetectorIssueDetectionExtension = {
+export type ClientDetectorIssueDetectionExtension = {
     severity: 'critical' | 'major' | 'minor',
     description?: string,
     attachments?: Record<string, unknown> | (() => Record<string, unknown>)
@@ -49,6 +71,41 @@ export type ClientMonitorConfig = {
      */
     samplingTick?: number;
 
+    /**
+     * If set, the created samples contain only the fields changed since the previous sample (see ClientSampleDelta),
+     * and a full sample (keyframe) is created in every keyframeInterval number of samples.
+     * The full samples can be rebuilt by a decoder created by createClientSampleDeltaDecoder().
+     * 
+     * DEFAULT: false, keyframeInterval: 10
+     */
+    deltaSamples?: boolean | {
+        keyframeInterval?: number,
+    };
+
+    /**
+     * The maximum number of values kept in the history of the metrics of the tracks and the peer connections
+     * (see StatsStorage.getHistory()).
+     * 
+     * DEFAULT: 60
+     */
+    statsHistoryLength?: number;
+
+    /**
+     * The maximum number of resolved issues kept by the monitor (see issues.resolved()),
+     * the oldest resolved issues are dropped above it. Open issues are kept until they are resolved.
+     *
+     * DEFAULT: 100
+     */
+    maxResolvedIssues?: number;
+
+    /**
+     * The quality score (MOS, 1 - 5) thresholds of the tracks.
+     * The monitor emits a track-score-threshold-crossed event when the score of a track crosses any of the thresholds.
+     * 
+     * DEFAULT: [2, 3, 4]
+     */
+    trackScoreThresholds?: number[];
+
     /**
      * If true, the monitor integrate the navigator.mediaDevices (patch the getUserMedia and subscribe to ondevicechange event)
      * 
@@ -98,20 +155,102 @@ export type ClientMonitorConfig = {
          */
         longPcConnectionEstablishment?:  boolean | ClientIssue['severity'] | ClientDetectorIssueDetectionExtension,
 
+        /**
+         * Configuration for detecting inbound tracks the first frame (video) or the first packet (audio) of is received too late after the track is added,
+         * if it is true, major issues are created on detection.
+         */
+        slowMediaStart?:  boolean | ClientIssue['severity'] | ClientDetectorIssueDetectionExtension,
+
         /**
          * Configuration for detecting stucked outbound track issues.
          */
         stuckedOutboundTrack?:  boolean | ClientIssue['severity'] | ClientDetectorIssueDetectionExtension,
+
+        /**
+         * Configuration for detecting inbound audio tracks receiving packets without audible sound.
+         */
+        silentInboundAudio?:  boolean | ClientIssue['severity'] | ClientDetectorIssueDetectionExtension,
+
+        /**
+         * Configuration for detecting outbound media not reaching the remote side.
+         */
+        oneWayOutboundMedia?:  boolean | ClientIssue['severity'] | ClientDetectorIssueDetectionExtension,
+
+        /**
+         * Configuration for detecting bursty packet loss on inbound tracks.
+         */
+        packetLossBurst?:  boolean | ClientIssue['severity'] | ClientDetectorIssueDetectionExtension,
+
+        /**
+         * Configuration for detecting too high or oscillating jitter buffer delays on inbound tracks.
+         */
+        jitterBuffer?:  boolean | ClientIssue['severity'] | ClientDetectorIssueDetectionExtension,
+
+        /**
+         * Configuration for detecting flapping peer connections (repeated disconnections and ICE restarts).
+         */
+        connectionFlapping?:  boolean | ClientIssue['severity'] | ClientDetectorIssueDetectionExtension,
+
+        /**
+         * Configuration for detecting simulcast / SVC layers of outbound tracks turned off.
+         */
+        layersChanged?:  boolean | ClientIssue['severity'] | ClientDetectorIssueDetectionExtension,
+
+        /**
+         * Configuration for detecting outbound video sent in a resolution or framerate well below the captured or requested one.
+         */
+        outboundVideoDegradation?:  boolean | ClientIssue['severity'] | ClientDetectorIssueDetectionExtension,
+
+        /**
+         * Configuration for detecting local microphones capturing no audio while not muted by the application,
+         * if it is true, critical issues are created on detection.
+         */
+        deadMicrophone?:  boolean | ClientIssue['severity'] | ClientDetectorIssueDetectionExtension,
+
+        /**
+         * Configuration for detecting media relayed over TCP or TLS by a TURN server,
+         * if it is true, major issues are created on detection.
+         */
+        tcpRelayFallback?:  boolean | ClientIssue['severity'] | ClientDetectorIssueDetectionExtension,
+
+        /**
+         * Configuration for warning about steadily decreasing available bitrates before the encoder is limited by the bandwidth,
+         * if it is true, minor issues are created on detection.
+         */
+        bandwidthDegrading?:  boolean | ClientIssue['severity'] | ClientDetectorIssueDetectionExtension,
+
+        /**
+         * Declarative threshold rules raising issues with the severity given in the rule (see ThresholdRule).
+         */
+        thresholdRules?: ThresholdRule[],
     }
 };
 
 export type ClientIssue = {
+    /**
+     * The identifier of the issue, assigned by the monitor when the issue is added
+     */
+    id?: string,
+    /**
+     * The type of the issue (e.g.: congestion), an issue is not added again
+     * while an issue with the same type, peer connection and track is open
+     */
+    type?: string,
     severity: 'critical' | 'major' | 'minor';
     timestamp?: number,
     description?: string,
     peerConnectionId?: string,
     mediaTrackId?: string,
     attachments?: Record<string, unknown>,
+    /**
+     * The state of the issue, set by the monitor
+     */
+    state?: ClientIssueState,
+    resolvedAt?: number,
+    /**
+     * The time elapsed from the issue is added until it is resolved
+     */
+    durationInMs?: number,
 }
 
 export type AlertState = 'on' | 'off';
@@ -120,8 +259,13 @@ export interface ClientMonitorEvents {
     'error': Error,
     'close': {
         lastSample?: ClientSample,
+        callSummary: CallSummary,
     },
     'stats-collected': {
+        /**
+         * The time the stats are collected at, the time the stats were recorded at if a dump is replayed
+         */
+        timestamp: number,
         durationOfCollectingStatsInMs: number,
         elapsedSinceLastCollectedInMs: number,
         collectedStats: CollectedStats,
@@ -156,14 +300,100 @@ export interface ClientMonitorEvents {
         trackId: string, 
         ssrc: number,
     },
+    'silent-inbound-audio': {
+        state: 'started' | 'ended',
+        peerConnectionId: string,
+        trackId: string,
+        ssrc: number,
+        cause: SilentInboundAudioCause,
+        durationInS?: number,
+    },
+    'one-way-outbound-media': {
+        state: 'started' | 'ended',
+        peerConnectionId: string,
+        trackId: string,
+        ssrc: number,
+        cause: OneWayOutboundMediaCause,
+        durationInS?: number,
+    },
+    'packet-loss-burst': {
+        state: 'started' | 'ended',
+        peerConnectionId: string,
+        trackId: string,
+        kind: TrackStats['kind'],
+        episode: PacketLossEpisode,
+    },
+    'jitter-buffer': JitterBufferEvent & {
+        state: 'started' | 'ended',
+    },
+    'connection-flapping': ConnectionFlappingStats & {
+        state: 'started' | 'ended',
+    },
+    'track-layers-changed': TrackLayersChangedEvent,
+    'outbound-video-degradation': OutboundVideoDegradationEvent & {
+        state: 'started' | 'ended',
+        durationInS?: number,
+    },
+    'dead-microphone': {
+        state: 'started' | 'ended',
+        peerConnectionId: string,
+        trackId: string,
+        cause: DeadMicrophoneCause,
+        deviceId?: string,
+        deviceLabel?: string,
+        durationInS?: number,
+    },
+    'tcp-relay-fallback': {
+        state: 'started' | 'ended',
+        peerConnectionId: string,
+        relayProtocol: Exclude<RtcRelayProtocol, 'udp'>,
+        durationInS?: number,
+    },
+    'bandwidth-degrading': BandwidthDegradingEvent & {
+        state: 'started' | 'ended',
+        durationInS?: number,
+    },
     'too-long-pc-connection-establishment': {
         peerConnectionId: string,
     }
+    'slow-media-start': SlowMediaStartEvent & {
+        /**
+         * removed: the track is removed before its media started
+         */
+        state: 'started' | 'ended' | 'removed',
+        timeToMediaStartInMs?: number,
+    },
     'peerconnection-state-updated': PeerConnectionStateUpdated & {
         peerConnectionId: string,
     },
     'using-turn': boolean,
+    'network-changed': NetworkChangedEvent & {
+        peerConnectionId: string,
+    },
+    'relay-protocol-changed': {
+        peerConnectionId: string,
+        /**
+         * undefined if the connection is not relayed
+         */
+        relayProtocol?: RtcRelayProtocol,
+        previousRelayProtocol?: RtcRelayProtocol,
+    },
+    'track-score-threshold-crossed': {
+        peerConnectionId: string,
+        trackId: string,
+        direction: TrackStats['direction'],
+        kind: TrackStats['kind'],
+        score: number,
+        previousScore: number,
+        /**
+         * The crossed thresholds in ascending order
+         */
+        thresholds: number[],
+        trend: 'improved' | 'degraded',
+    },
     'issue': ClientIssue,
+    'issue-resolved': ClientIssue,
+    'call-event': CustomCallEvent,
 }
 
 export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
@@ -179,15 +409,30 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
     public platform?: Platform;
 
     private readonly _detectors = new Map<string, Detector>();
+    private readonly _customDetectors = new Map<string, { detector: CustomDetector, close: () => void }>();
     private readonly _sampler = new Sampler(this.storage);
     private _timer?: ReturnType<typeof setInterval>;
     
     private _joined = false;
     private _left = false;
-    private _lastCollectedAt = Date.now();
-    private _lastSampledAt = 0;
+    /**
+     * The time of the last collection and sample, undefined until the first one
+     */
+    private _lastCollectedAt?: number;
+    private _lastSampledAt?: number;
+    /**
+     * The time the stats under processing are collected at,
+     * set only while the collected stats are processed (synchronously) by the storage, the detectors and the sampler
+     */
+    private _collectedAt?: number;
     private _closed = false;
     private _actualCollectingTick = 0;
+    private readonly _trackScores = new Map<string, number>();
+    private _videoConstraints?: MediaStreamConstraints | MediaTrackConstraints;
+    private readonly _localAudioTracks = new Map<string, MediaStreamTrack>();
+    // the call is summarized from the first to the last collection, so a replayed call is summarized on the recorded time
+    private readonly _callSummaryBuilder = createCallSummaryBuilder();
+    private readonly _issues = createClientIssueRegistry(this._config.maxResolvedIssues);
 
     public constructor(
         private _config: ClientMonitorConfig
@@ -197,6 +442,16 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
         
         this._setupTimer();
         
+        if (this._config.statsHistoryLength !== undefined) {
+            this.storage.setHistoryLength(this._config.statsHistoryLength);
+        }
+
+        if (this._config.deltaSamples) {
+            this._sampler.setDeltaMode(
+                this._config.deltaSamples === true ? 10 : this._config.deltaSamples.keyframeInterval ?? 10
+            );
+        }
+
         ClientMonitor._fetchNavigatorData(this);
 
         // connect components
@@ -209,16 +464,40 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
             this.addCustomCallEvent(event);
         };
         const onPeerConnectionAdded = (peerConnectionEntry: PeerConnectionEntry) => {
+            let relayProtocol = peerConnectionEntry.relayProtocol;
             const onStateUpdated = (event: PeerConnectionStateUpdated) => {
                 this.emit('peerconnection-state-updated', {
                     ...event,
                     peerConnectionId: peerConnectionEntry.peerConnectionId,
                 })
+
+                if (event.relayProtocol === relayProtocol) return;
+
+                this.emit('relay-protocol-changed', {
+                    peerConnectionId: peerConnectionEntry.peerConnectionId,
+                    relayProtocol: event.relayProtocol,
+                    previousRelayProtocol: relayProtocol,
+                });
+                relayProtocol = event.relayProtocol;
+            };
+            const onNetworkChanged = (event: NetworkChangedEvent) => {
+                const { peerConnectionId } = peerConnectionEntry;
+
+                this.emit('network-changed', {
+                    ...event,
+                    peerConnectionId,
+                });
+                this.addCustomCallEvent(createNetworkChangedEvent({
+                    ...event,
+                    peerConnectionId,
+                }));
             };
             peerConnectionEntry.events.once('close', () => {
                 peerConnectionEntry.events.off('state-updated', onStateUpdated);
+                peerConnectionEntry.events.off('network-changed', onNetworkChanged);
             });
             peerConnectionEntry.events.on('state-updated', onStateUpdated);
+            peerConnectionEntry.events.on('network-changed', onNetworkChanged);
         };
 
         this.once('close', () => {
@@ -256,6 +535,13 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
         return this._closed;
     }
 
+    /**
+     * The issues added to the monitor, open until they are resolved
+     */
+    public get issues(): ClientIssues {
+        return this._issues;
+    }
+
     public close(): void {
         if (this._closed) {
             return;
@@ -274,7 +560,10 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
             // becasue the this.sample() will return as the monitor is already closed
             lastSample =  this._sampler.createClientSample();
         }
+        const callSummary = this._callSummaryBuilder.build(this._lastCollectedAt);
         
+        Array.from(this._customDetectors.keys()).forEach(name => this.removeDetector(name));
+        Array.from(this._detectors.values()).forEach(detector => detector.close());
         this.storage.clear();
         this.collectors.clear();
         this._sampler.clear();
@@ -283,55 +572,51 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
 
         this.emit('close', {
             lastSample,
+            callSummary,
         });
     }
     
     public async collect(): Promise<CollectedStats> {
-        if (this._closed) throw new Error('ClientMonitor is closed');
-        const started = Date.now();
-        const wasUsingTURN = this.peerConnections.some(pc => pc.usingTURN);
-        const collectedStats = await this.collectors.collect();
-        this.storage.update(collectedStats);
-        const timestamp = Date.now();
-        
-        this.emit('stats-collected', {
-            collectedStats,
-            elapsedSinceLastCollectedInMs: timestamp - this._lastCollectedAt,
-            durationOfCollectingStatsInMs: timestamp - started,
-        });
-        
-        this._lastCollectedAt = timestamp;
-        
-        if (this._config.samplingTick && this._config.samplingTick <= ++this._actualCollectingTick ) {
-            this._actualCollectingTick = 0;
-            this.sample();
-        }
-        
-        const isUsingTURN = this.peerConnections.some(pc => pc.usingTURN);
-        
-        if (wasUsingTURN !== isUsingTURN) {
-            this.emit('using-turn', isUsingTURN);
-        }
-        return collectedStats;
+        return this._collect();
     }
 
     public sample(): ClientSample | undefined {
         if (this._closed) return;
         if (!this._joined) this.join();
 
-        const clientSample = this._sampler.createClientSample();
-        const timestamp = Date.now();
+        const timestamp = this._now();
+        const clientSample = this._sampler.createClientSample(timestamp);
         if (!clientSample) {
             return;
         }
         this.emit('sample-created', {
             clientSample,
-            elapsedSinceLastSampleInMs: timestamp - this._lastSampledAt,
+            elapsedSinceLastSampleInMs: this._lastSampledAt !== undefined ? timestamp - this._lastSampledAt : 0,
         });
         this._lastSampledAt = timestamp;
         return clientSample;
     }
 
+    /**
+     * Replays the recorded stats dump through the monitor.
+     *
+     * Every stats record of the dump is processed as if it was collected at the time it was recorded at,
+     * therefore the detectors, the Sampler and the events of the monitor behave as they did during the call.
+     * The monitor should be created with collectingPeriodInMs set to 0, so it does not collect stats by its timer.
+     *
+     * @returns the collector providing the stats of the dump, which is closed when the monitor is closed
+     */
+    public async replayStatsDump(records: StatsDumpRecord[]): Promise<ReplayStatsCollector> {
+        if (this._closed) throw new Error('ClientMonitor is closed');
+        const collector = this.collectors.addStatsDump(records);
+
+        for (let timestamp = collector.next(); timestamp !== undefined; timestamp = collector.next()) {
+            if (this._closed) break;
+            await this._collect(timestamp);
+        }
+        return collector;
+    }
+
     public join(settings?: { timestamp?: number, message?: string, attachments?: Record<string, unknown>}): void {
         if (this._joined) return;
         this._joined = true;
@@ -448,6 +733,11 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
 
     public setMediaConstraints(constrains: MediaStreamConstraints | MediaTrackConstraints): void {
         this._sampler.addMediaConstraints(JSON.stringify(constrains));
+
+        if (getRequestedVideoProperties(constrains)) {
+            this._videoConstraints = constrains;
+            (this._detectors.get(OutboundVideoDegradationDetector.name) as OutboundVideoDegradationDetector | undefined)?.setRequestedConstraints(constrains);
+        }
     }
 
     public addExtensionStats(stats: ExtensionStat): void {
@@ -459,25 +749,87 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
     }
 
     public addCustomCallEvent(event: CustomCallEvent) {
+        if (event.name === CallEventType.MEDIA_TRACK_ADDED && event.mediaTrackId) {
+            this.storage.setTrackAddedAt(event.mediaTrackId, event.timestamp ?? this._now());
+        }
         this._sampler.addCustomCallEvent(event);
+        this.emit('call-event', event);
     }
 
     public addLocalSDP(localSDP: string[]): void {
         this._sampler.addLocalSDP(localSDP);
     }
 
-    public addIssue(issue: ClientIssue) {
+    /**
+     * Adds an issue to the monitor, or counts the occurrence of the open issue
+     * with the same type, peer connection and track if the issue has a type.
+     * 
+     * @returns the id of the added or the already open issue
+     */
+    public addIssue(issue: ClientIssue): string {
+        const [ registeredIssue, created ] = this._issues.open(issue, this._now());
+        if (!created) return registeredIssue.id;
+
         this._sampler.addCustomCallEvent({
             name: 'CLIENT_ISSUE',
+            value: registeredIssue.severity,
+            peerConnectionId: registeredIssue.peerConnectionId,
+            mediaTrackId: registeredIssue.mediaTrackId,
+            message: registeredIssue.description,
+            timestamp: registeredIssue.timestamp,
+            attachments: JSON.stringify({
+                ...registeredIssue.attachments,
+                issueId: registeredIssue.id,
+                issueType: registeredIssue.type,
+            }),
+        });
+
+        this._callSummaryBuilder.addIssue(registeredIssue);
+        this.emit('issue', registeredIssue);
+
+        return registeredIssue.id;
+    }
+
+    /**
+     * Resolves an open issue added to the monitor
+     * 
+     * @returns the resolved issue, or undefined if no open issue is found with the given id
+     */
+    public resolveIssue(issueId: string): ClientIssue | undefined {
+        const issue = this._issues.resolve(issueId, this._now());
+        if (!issue) return;
+
+        this._sampler.addCustomCallEvent({
+            name: 'CLIENT_ISSUE_RESOLVED',
             value: issue.severity,
             peerConnectionId: issue.peerConnectionId,
             mediaTrackId: issue.mediaTrackId,
             message: issue.description,
-            timestamp: issue.timestamp ?? Date.now(),
-            attachments: issue.attachments ? JSON.stringify(issue.attachments): undefined,
+            timestamp: issue.resolvedAt,
+            attachments: JSON.stringify({
+                issueId: issue.id,
+                issueType: issue.type,
+                durationInMs: issue.durationInMs,
+            }),
         });
+        this.emit('issue-resolved', issue);
+
+        return issue;
+    }
 
-        this.emit('issue', issue);
+    /**
+     * Resolves the open issues with the given type
+     * 
+     * @param filter if given, only the issues of the given peer connection and / or track are resolved
+     * @returns the resolved issues
+     */
+    public resolveIssues(type: string, filter?: { peerConnectionId?: string, mediaTrackId?: string }): ClientIssue[] {
+        const result: ClientIssue[] = [];
+        for (const { id } of this._issues.find({ ...filter, type, state: 'open' })) {
+            const issue = this.resolveIssue(id);
+            if (issue) result.push(issue);
+        }
+        return result;
     }
 
     public setCollectingPeriod(collectingPeriodInMs: number): void {
@@ -490,6 +842,65 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
         this._setupTimer();
     }
 
+    /**
+     * Adds a custom detector to the monitor, which is updated after every collection.
+     * A detector already added with the same name is closed and replaced.
+     * 
+     * @param detector the detector to add (see CustomDetector for the lifecycle)
+     * @param options.createIssueOnDetection if given, the issues created by the detector are added to the monitor
+     */
+    public addDetector(detector: CustomDetector, options?: {
+        createIssueOnDetection?: ClientDetectorIssueDetectionExtension,
+    }): void {
+        if (this._closed) throw new Error('ClientMonitor is closed');
+        if (this._customDetectors.has(detector.name)) {
+            logger.warn(`Detector ${detector.name} is already added, closing the existing one and adding the new one.`);
+            this.removeDetector(detector.name);
+        }
+        const { createIssueOnDetection } = options ?? {};
+        const createIssue = (issue: DetectedIssue) => this._addDetectedIssue(createIssueOnDetection, issue);
+        const onUpdate = ({ timestamp, durationOfCollectingStatsInMs, elapsedSinceLastCollectedInMs }: ClientMonitorEvents['stats-collected']) => {
+            try {
+                detector.update({
+                    storage: this.storage,
+                    timestamp,
+                    durationOfCollectingStatsInMs,
+                    elapsedSinceLastCollectedInMs,
+                    createIssue,
+                });
+            } catch (err) {
+                logger.warn(`Detector ${detector.name} failed to update`, err);
+            }
+        };
+        const close = () => {
+            this.off('stats-collected', onUpdate);
+            this._customDetectors.delete(detector.name);
+            detector.close?.();
+        };
+
+        this.on('stats-collected', onUpdate);
+        this._customDetectors.set(detector.name, { detector, close });
+    }
+
+    /**
+     * Removes and closes a detector added by addDetector(), or created by any of the create*Detector() methods.
+     * 
+     * @param name the name of the custom detector, or the name of the class of the built-in detector
+     * @returns true if the detector was found and removed
+     */
+    public removeDetector(name: string): boolean {
+        const customDetector = this._customDetectors.get(name);
+        if (customDetector) {
+            customDetector.close();
+            return true;
+        }
+        const detector = this._detectors.get(name);
+        if (!detector) return false;
+        detector.close();
+        this._detectors.delete(name);
+        return true;
+    }
+
     public createCongestionDetector(options?: CongestionDetectorConfig & { 
         createIssueOnDetection?: ClientDetectorIssueDetectionExtension,
     }): CongestionDetector {
@@ -530,28 +941,37 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
                 ;
 
                 this.addIssue({
+                    type: 'congestion',
                     severity: createIssueOnDetection.severity,
                     description: createIssueOnDetection.description ?? 'Congestion detected',
-                    timestamp: Date.now(),
+                    timestamp: this._now(),
                     attachments: {
                         ...attachments,
                         incomingBitrateAfterCongestion,
                         incomingBitrateBeforeCongestion,
                         outgoingBitrateAfterCongestion,
                         outgoingBitrateBeforeCongestion,
-                        
+                        qualityLimitations: this._getQualityLimitations(),
                     },
                 })
             }
         }
+        const onAlertState = (state: AlertState) => {
+            // the alert state is changed per peer connection
+            if (state !== 'off' || Array.from(detector.states.values()).some(s => s.congested)) return;
+
+            this.resolveIssues('congestion');
+        };
 
         detector.once('close', () => {
             this.off('stats-collected', onUpdate);
             detector.off('congestion', onCongestion);
+            detector.off('alert-state', onAlertState);
             this._detectors.delete(CongestionDetector.name);
         });
         this.on('stats-collected', onUpdate);
         detector.on('congestion', onCongestion);
+        detector.on('alert-state', onAlertState);
         this._detectors.set(CongestionDetector.name, detector);
 
         return detector;
@@ -588,7 +1008,7 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
             this.addIssue({
                 severity: createIssueOnDetection.severity,
                 description: createIssueOnDetection.description ?? 'Audio desync detected',
-                timestamp: Date.now(),
+                timestamp: this._now(),
                 peerConnectionId: this.storage.getTrack(trackId)?.getPeerConnection()?.peerConnectionId,
                 mediaTrackId: trackId,
                 attachments,
@@ -631,32 +1051,39 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
         } = config ?? {};
 
         const onFreezeStarted = (event: FreezedVideoStartedEvent) => {
-            this.emit('freezed-video', {
-                state: 'started',
-                peerConnectionId: event.peerConnectionId,
-                trackId: event.trackId,
-                ssrc: event.ssrc,
-            });
-        };
-        const onFreezeEnded = (event: FreezedVideoEndedEvent) => {
             if (createIssueOnDetection) {
-                const attachments = (typeof createIssueOnDetection.attachments === 'function' 
+                const attachments = typeof createIssueOnDetection.attachments === 'function' 
                     ? createIssueOnDetection.attachments() 
-                    : createIssueOnDetection.attachments) ?? {}
+                    : createIssueOnDetection.attachments
                 ;
                 
                 this.addIssue({
+                    type: 'freezed-video',
                     severity: createIssueOnDetection.severity,
                     description: createIssueOnDetection.description ?? 'Video Freeze detected',
-                    timestamp: Date.now(),
+                    timestamp: this._now(),
                     peerConnectionId: event.peerConnectionId,
                     mediaTrackId: event.trackId,
-                    attachments: {
-                        durationInS: event.durationInS,
-                        ...attachments
-                    },
+                    attachments,
                 });
             }
+            this.emit('freezed-video', {
+                state: 'started',
+                peerConnectionId: event.peerConnectionId,
+                trackId: event.trackId,
+                ssrc: event.ssrc,
+            });
+        };
+        const onFreezeEnded = (event: FreezedVideoEndedEvent) => {
+            this._callSummaryBuilder.addFreeze(event.trackId, event.durationInS);
+            // the issue is added when the freeze starts, its duration is known only when it ends
+            for (const issue of this._issues.find({ type: 'freezed-video', mediaTrackId: event.trackId, state: 'open' })) {
+                issue.attachments = { ...issue.attachments, durationInS: event.durationInS };
+            }
+            this.resolveIssues('freezed-video', {
+                peerConnectionId: event.peerConnectionId,
+                mediaTrackId: event.trackId,
+            });
             this.emit('freezed-video', {
                 state: 'ended',
                 peerConnectionId: event.peerConnectionId,
@@ -666,14 +1093,21 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
             });
         }
 
+        const onAlertState = (state: AlertState) => {
+            if (state === 'off') this.resolveIssues('freezed-video');
+        };
+
         detector.once('close', () => {
             this.off('stats-collected', onUpdate);
             detector.off('freezedVideoStarted', onFreezeStarted);
             detector.off('freezedVideoEnded', onFreezeEnded);
+            detector.off('alert-state', onAlertState);
             this._detectors.delete(VideoFreezesDetector.name);
         });
+        this.on('stats-collected', onUpdate);
         detector.on('freezedVideoStarted', onFreezeStarted);
         detector.on('freezedVideoEnded', onFreezeEnded);
+        detector.on('alert-state', onAlertState);
 
         this._detectors.set(VideoFreezesDetector.name, detector);
 
@@ -708,17 +1142,23 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
         const onStateChanged = (state: AlertState) => {
             this.emit('cpulimitation', state);
             
-            if (createIssueOnDetection && state !== 'on') {
+            if (state === 'off') {
+                this.resolveIssues('cpu-limitation');
+            } else if (createIssueOnDetection) {
                 const attachments = typeof createIssueOnDetection.attachments === 'function' 
                     ? createIssueOnDetection.attachments() 
                     : createIssueOnDetection.attachments
                 ;
 
                 this.addIssue({
+                    type: 'cpu-limitation',
                     severity: createIssueOnDetection.severity,
                     description: createIssueOnDetection.description ?? 'CPU performance issue detected',
-                    timestamp: Date.now(),
-                    attachments,
+                    timestamp: this._now(),
+                    attachments: {
+                        ...attachments,
+                        qualityLimitations: this._getQualityLimitations(),
+                    },
                 });
             }
         };
@@ -750,7 +1190,7 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
         const detector = new StuckedInboundTrackDetector(config ?? {
             minStuckedDurationInMs: 5000,
         });
-        const onUpdate = () => detector.update(this.storage.inboundRtps());
+        const onUpdate = ({ timestamp }: ClientMonitorEvents['stats-collected']) => detector.update(this.storage.inboundRtps(), timestamp);
         const {
             createIssueOnDetection,
         } = config ?? {};
@@ -763,9 +1203,10 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
                 ;
                 
                 this.addIssue({
+                    type: 'stucked-inbound-track',
                     severity: createIssueOnDetection.severity,
                     description: createIssueOnDetection.description ?? 'Stucked track detected',
-                    timestamp: Date.now(),
+                    timestamp: this._now(),
                     peerConnectionId: event.peerConnectionId,
                     mediaTrackId: event.trackId,
                     attachments: {
@@ -780,54 +1221,837 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
                 ssrc: event.ssrc,
             });
         }
+        const onStuckedTrackEnded = (event: { peerConnectionId: string, trackId: string }) => {
+            this.resolveIssues('stucked-inbound-track', {
+                peerConnectionId: event.peerConnectionId,
+                mediaTrackId: event.trackId,
+            });
+        };
 
         detector.once('close', () => {
             this.off('stats-collected', onUpdate);
             detector.off('stuckedtrack', onStuckedTrack);
-            this._detectors.delete('StuckedInboundTrack');
+            detector.off('stuckedtrack-ended', onStuckedTrackEnded);
+            this._detectors.delete(StuckedInboundTrackDetector.name);
         });
         this.on('stats-collected', onUpdate);
         detector.on('stuckedtrack', onStuckedTrack);
+        detector.on('stuckedtrack-ended', onStuckedTrackEnded);
 
-        this._detectors.set('StuckedInboundTrack', detector);
+        this._detectors.set(StuckedInboundTrackDetector.name, detector);
 
         return detector;
     }
 
-    public createStuckedOutboundTrackDetector(config?: StuckedOutboundTrackDetectorConfig& {
+    /**
+     * Creates a detector reporting inbound audio tracks receiving packets without audible sound,
+     * together with the likely cause (silent remote microphone, muted sender or broken playout).
+     * 
+     * An issue is not created for muted senders, as muting is expected to be intended by the remote side.
+     */
+    public createSilentInboundAudioDetector(config?: Partial<SilentInboundAudioDetectorConfig> & {
         createIssueOnDetection?: ClientDetectorIssueDetectionExtension,
-    }): StuckedOutboundTrackDetector {
-        const existingDetector = this._detectors.get(StuckedOutboundTrackDetector.name);
+    }): SilentInboundAudioDetector {
+        const existingDetector = this._detectors.get(SilentInboundAudioDetector.name);
 
         if (existingDetector) {
-            logger.warn('StuckedOutboundTrackDetector is already created, closing the existing one and creating a new one.');
+            logger.warn('SilentInboundAudioDetector is already created, closing the existing one and creating a new one.');
             existingDetector.close();
         }
 
-        const detector = new StuckedOutboundTrackDetector(config ?? {
-            minStuckedDurationInMs: 5000,
+        const detector = new SilentInboundAudioDetector({
+            silentAudioLevelThreshold: config?.silentAudioLevelThreshold ?? 0.001,
+            concealedSamplesThreshold: config?.concealedSamplesThreshold ?? 0.5,
+            minSilentDurationInMs: config?.minSilentDurationInMs ?? 5000,
         });
-        const onUpdate = () => detector.update(this.storage.outboundRtps());
+        const onUpdate = ({ timestamp }: ClientMonitorEvents['stats-collected']) => detector.update(this.storage.inboundRtps(), timestamp);
         const {
             createIssueOnDetection,
         } = config ?? {};
 
-        const onStuckedOutboundrack = (event: { peerConnectionId: string, trackId: string, ssrc: number }) => {
-            if (createIssueOnDetection) {
-                const attachments = (typeof createIssueOnDetection.attachments === 'function' 
-                    ? createIssueOnDetection.attachments() 
-                    : createIssueOnDetection.attachments) ?? {}
-                ;
-                
-                this.addIssue({
-                    severity: createIssueOnDetection.severity,
-                    description: createIssueOnDetection.description ?? 'Stucked outbound track detected',
-                    timestamp: Date.now(),
+        const onSilentAudioStarted = (event: SilentInboundAudioStartedEvent) => {
+            if (event.cause !== 'remote-muted') {
+                this._addDetectedIssue(createIssueOnDetection, {
+                    type: 'silent-inbound-audio',
+                    description: event.cause === 'playout-failure' 
+                        ? 'Inbound audio is received but not played out' 
+                        : 'Inbound audio is silent',
                     peerConnectionId: event.peerConnectionId,
                     mediaTrackId: event.trackId,
                     attachments: {
                         ssrc: event.ssrc,
-                        ...attachments,
+                        cause: event.cause,
+                    },
+                });
+            }
+            this.emit('silent-inbound-audio', {
+                state: 'started',
+                ...event,
+            });
+        };
+        const onSilentAudioEnded = (event: SilentInboundAudioEndedEvent) => {
+            this.resolveIssues('silent-inbound-audio', {
+                peerConnectionId: event.peerConnectionId,
+                mediaTrackId: event.trackId,
+            });
+            this.emit('silent-inbound-audio', {
+                state: 'ended',
+                ...event,
+            });
+        };
+
+        detector.once('close', () => {
+            this.off('stats-collected', onUpdate);
+            detector.off('silent-audio-started', onSilentAudioStarted);
+            detector.off('silent-audio-ended', onSilentAudioEnded);
+            this._detectors.delete(SilentInboundAudioDetector.name);
+        });
+        this.on('stats-collected', onUpdate);
+        detector.on('silent-audio-started', onSilentAudioStarted);
+        detector.on('silent-audio-ended', onSilentAudioEnded);
+
+        this._detectors.set(SilentInboundAudioDetector.name, detector);
+
+        return detector;
+    }
+
+    /**
+     * Creates a detector reporting outbound tracks the remote side reports no received packets,
+     * very high packet loss, or no reports at all for, while packets are sent.
+     */
+    public createOneWayOutboundMediaDetector(config?: Partial<OneWayOutboundMediaDetectorConfig> & {
+        createIssueOnDetection?: ClientDetectorIssueDetectionExtension,
+    }): OneWayOutboundMediaDetector {
+        const existingDetector = this._detectors.get(OneWayOutboundMediaDetector.name);
+
+        if (existingDetector) {
+            logger.warn('OneWayOutboundMediaDetector is already created, closing the existing one and creating a new one.');
+            existingDetector.close();
+        }
+
+        const detector = new OneWayOutboundMediaDetector({
+            fractionLostThreshold: config?.fractionLostThreshold ?? 0.5,
+            staleReportTimeoutInMs: config?.staleReportTimeoutInMs ?? 10000,
+            minDurationInMs: config?.minDurationInMs ?? 5000,
+        });
+        const onUpdate = ({ timestamp }: ClientMonitorEvents['stats-collected']) => detector.update(this.storage.outboundRtps(), timestamp);
+        const {
+            createIssueOnDetection,
+        } = config ?? {};
+
+        const onOneWayMediaStarted = (event: OneWayOutboundMediaStartedEvent) => {
+            const { fractionLost, lastReportElapsedInMs, ...rest } = event;
+            this._addDetectedIssue(createIssueOnDetection, {
+                type: 'one-way-outbound-media',
+                description: 'Outbound media is not reaching the remote side',
+                peerConnectionId: event.peerConnectionId,
+                mediaTrackId: event.trackId,
+                attachments: {
+                    ssrc: event.ssrc,
+                    cause: event.cause,
+                    fractionLost,
+                    lastReportElapsedInMs,
+                },
+            });
+            this.emit('one-way-outbound-media', {
+                state: 'started',
+                ...rest,
+            });
+        };
+        const onOneWayMediaEnded = (event: OneWayOutboundMediaEndedEvent) => {
+            this.resolveIssues('one-way-outbound-media', {
+                peerConnectionId: event.peerConnectionId,
+                mediaTrackId: event.trackId,
+            });
+            this.emit('one-way-outbound-media', {
+                state: 'ended',
+                ...event,
+            });
+        };
+
+        detector.once('close', () => {
+            this.off('stats-collected', onUpdate);
+            detector.off('one-way-media-started', onOneWayMediaStarted);
+            detector.off('one-way-media-ended', onOneWayMediaEnded);
+            this._detectors.delete(OneWayOutboundMediaDetector.name);
+        });
+        this.on('stats-collected', onUpdate);
+        detector.on('one-way-media-started', onOneWayMediaStarted);
+        detector.on('one-way-media-ended', onOneWayMediaEnded);
+
+        this._detectors.set(OneWayOutboundMediaDetector.name, detector);
+
+        return detector;
+    }
+
+    /**
+     * Creates a detector reporting the loss episodes (bursts) of the inbound tracks,
+     * the issue created on detection has the last episodes of the track attached.
+     */
+    public createPacketLossBurstDetector(config?: Partial<PacketLossBurstDetectorConfig> & {
+        createIssueOnDetection?: ClientDetectorIssueDetectionExtension,
+    }): PacketLossBurstDetector {
+        const existingDetector = this._detectors.get(PacketLossBurstDetector.name);
+
+        if (existingDetector) {
+            logger.warn('PacketLossBurstDetector is already created, closing the existing one and creating a new one.');
+            existingDetector.close();
+        }
+
+        const detector = new PacketLossBurstDetector({
+            minEpisodeLostPackets: config?.minEpisodeLostPackets ?? 5,
+        });
+        const onUpdate = () => detector.update(this.storage.tracks());
+        const {
+            createIssueOnDetection,
+        } = config ?? {};
+
+        const onLossBurstStarted = ({ lossPattern, ...event }: PacketLossBurstEvent) => {
+            this._addDetectedIssue(createIssueOnDetection, {
+                type: 'packet-loss-burst',
+                description: 'Bursty packet loss detected',
+                peerConnectionId: event.peerConnectionId,
+                mediaTrackId: event.trackId,
+                attachments: {
+                    kind: event.kind,
+                    episodes: lossPattern.episodes,
+                    meanBurstLength: lossPattern.meanBurstLength,
+                    meanBurstDurationInMs: lossPattern.meanBurstDurationInMs,
+                    burstDensity: lossPattern.burstDensity,
+                    gapDensity: lossPattern.gapDensity,
+                },
+            });
+            this.emit('packet-loss-burst', {
+                state: 'started',
+                ...event,
+            });
+        };
+        const onLossBurstEnded = (event: PacketLossBurstEvent) => {
+            this.resolveIssues('packet-loss-burst', {
+                peerConnectionId: event.peerConnectionId,
+                mediaTrackId: event.trackId,
+            });
+            this.emit('packet-loss-burst', {
+                state: 'ended',
+                peerConnectionId: event.peerConnectionId,
+                trackId: event.trackId,
+                kind: event.kind,
+                episode: event.episode,
+            });
+        };
+
+        detector.once('close', () => {
+            this.off('stats-collected', onUpdate);
+            detector.off('loss-burst-started', onLossBurstStarted);
+            detector.off('loss-burst-ended', onLossBurstEnded);
+            this._detectors.delete(PacketLossBurstDetector.name);
+        });
+        this.on('stats-collected', onUpdate);
+        detector.on('loss-burst-started', onLossBurstStarted);
+        detector.on('loss-burst-ended', onLossBurstEnded);
+
+        this._detectors.set(PacketLossBurstDetector.name, detector);
+
+        return detector;
+    }
+
+    /**
+     * Creates a detector reporting inbound tracks the jitter buffer delay of
+     * grows beyond the conversational threshold or oscillates.
+     */
+    public createJitterBufferDetector(config?: Partial<JitterBufferDetectorConfig> & {
+        createIssueOnDetection?: ClientDetectorIssueDetectionExtension,
+    }): JitterBufferDetector {
+        const existingDetector = this._detectors.get(JitterBufferDetector.name);
+
+        if (existingDetector) {
+            logger.warn('JitterBufferDetector is already created, closing the existing one and creating a new one.');
+            existingDetector.close();
+        }
+
+        const detector = new JitterBufferDetector({
+            maxJitterBufferDelayInMs: config?.maxJitterBufferDelayInMs ?? 150,
+            oscillationWindowSize: config?.oscillationWindowSize ?? 10,
+            minOscillationAmplitudeInMs: config?.minOscillationAmplitudeInMs ?? 20,
+            minOscillations: config?.minOscillations ?? 3,
+        });
+        const onUpdate = () => detector.update(this.storage.tracks());
+        const {
+            createIssueOnDetection,
+        } = config ?? {};
+
+        const onProblemStarted = (event: JitterBufferEvent) => {
+            const { peerConnectionId, trackId, ...attachments } = event;
+            this._addDetectedIssue(createIssueOnDetection, {
+                type: `jitter-buffer-${event.problem}`,
+                description: event.problem === 'high-delay' 
+                    ? 'Jitter buffer delay is too high' 
+                    : 'Jitter buffer delay oscillates',
+                peerConnectionId,
+                mediaTrackId: trackId,
+                attachments,
+            });
+            this.emit('jitter-buffer', {
+                state: 'started',
+                ...event,
+            });
+        };
+        const onProblemEnded = (event: JitterBufferEvent) => {
+            this.resolveIssues(`jitter-buffer-${event.problem}`, {
+                peerConnectionId: event.peerConnectionId,
+                mediaTrackId: event.trackId,
+            });
+            this.emit('jitter-buffer', {
+                state: 'ended',
+                ...event,
+            });
+        };
+
+        detector.once('close', () => {
+            this.off('stats-collected', onUpdate);
+            detector.off('jitter-buffer-problem-started', onProblemStarted);
+            detector.off('jitter-buffer-problem-ended', onProblemEnded);
+            this._detectors.delete(JitterBufferDetector.name);
+        });
+        this.on('stats-collected', onUpdate);
+        detector.on('jitter-buffer-problem-started', onProblemStarted);
+        detector.on('jitter-buffer-problem-ended', onProblemEnded);
+
+        this._detectors.set(JitterBufferDetector.name, detector);
+
+        return detector;
+    }
+
+    /**
+     * Creates a detector counting the connected -> disconnected -> connected cycles, the ICE restarts
+     * and the time spent disconnected of the peer connections in a sliding window, 
+     * and reporting the peer connections flapping above the thresholds.
+     */
+    public createConnectionFlappingDetector(config?: Partial<ConnectionFlappingDetectorConfig> & {
+        createIssueOnDetection?: ClientDetectorIssueDetectionExtension,
+    }): ConnectionFlappingDetector {
+        const existingDetector = this._detectors.get(ConnectionFlappingDetector.name);
+
+        if (existingDetector) {
+            logger.warn('ConnectionFlappingDetector is already created, closing the existing one and creating a new one.');
+            existingDetector.close();
+        }
+
+        const detector = new ConnectionFlappingDetector({
+            windowInMs: config?.windowInMs ?? 60000,
+            maxCycles: config?.maxCycles ?? 3,
+            maxIceRestarts: config?.maxIceRestarts ?? 3,
+            maxCandidatePairChanges: config?.maxCandidatePairChanges,
+        }, this.storage);
+        const onUpdate = ({ timestamp }: ClientMonitorEvents['stats-collected']) => detector.update(this.storage.peerConnections(), timestamp);
+        const {
+            createIssueOnDetection,
+        } = config ?? {};
+
+        const onFlappingStarted = (stats: ConnectionFlappingStats) => {
+            const { peerConnectionId, ...attachments } = stats;
+            this._addDetectedIssue(createIssueOnDetection, {
+                type: 'connection-flapping',
+                description: 'Peer connection is flapping',
+                peerConnectionId,
+                attachments,
+            });
+            this.emit('connection-flapping', {
+                state: 'started',
+                ...stats,
+            });
+        };
+        const onFlappingEnded = (stats: ConnectionFlappingStats) => {
+            this.resolveIssues('connection-flapping', {
+                peerConnectionId: stats.peerConnectionId,
+            });
+            this.emit('connection-flapping', {
+                state: 'ended',
+                ...stats,
+            });
+        };
+
+        detector.once('close', () => {
+            this.off('stats-collected', onUpdate);
+            detector.off('flapping-started', onFlappingStarted);
+            detector.off('flapping-ended', onFlappingEnded);
+            this._detectors.delete(ConnectionFlappingDetector.name);
+        });
+        this.on('stats-collected', onUpdate);
+        detector.on('flapping-started', onFlappingStarted);
+        detector.on('flapping-ended', onFlappingEnded);
+
+        this._detectors.set(ConnectionFlappingDetector.name, detector);
+
+        return detector;
+    }
+
+    /**
+     * Creates a detector tracking the simulcast / SVC layers of the outbound video tracks,
+     * and emitting a track-layers-changed event when any layer of a track is turned on or off.
+     */
+    public createLayersChangedDetector(config?: LayersChangedDetectorConfig & {
+        createIssueOnDetection?: ClientDetectorIssueDetectionExtension,
+    }): LayersChangedDetector {
+        const existingDetector = this._detectors.get(LayersChangedDetector.name);
+
+        if (existingDetector) {
+            logger.warn('LayersChangedDetector is already created, closing the existing one and creating a new one.');
+            existingDetector.close();
+        }
+
+        const {
+            createIssueOnDetection,
+            ...detectorConfig
+        } = config ?? {};
+        const detector = new LayersChangedDetector(detectorConfig);
+        const onUpdate = () => detector.update(this.storage.outboundRtps());
+
+        const onLayersChanged = (event: TrackLayersChangedEvent) => {
+            if (event.layers.every(layer => layer.active)) {
+                this.resolveIssues('outbound-video-layers-off', {
+                    peerConnectionId: event.peerConnectionId,
+                    mediaTrackId: event.trackId,
+                });
+            } else if (0 < event.deactivatedLayers.length) {
+                this._addDetectedIssue(createIssueOnDetection, {
+                    type: 'outbound-video-layers-off',
+                    description: 'Outbound video layers turned off',
+                    peerConnectionId: event.peerConnectionId,
+                    mediaTrackId: event.trackId,
+                    attachments: {
+                        layers: event.layers,
+                        deactivatedLayers: event.deactivatedLayers,
+                    },
+                });
+            }
+            this.emit('track-layers-changed', event);
+        };
+
+        const onAlertState = (state: AlertState) => {
+            // the issues of the removed tracks are resolved here, no layers changed event is emitted for them
+            if (state === 'off') this.resolveIssues('outbound-video-layers-off');
+        };
+
+        detector.once('close', () => {
+            this.off('stats-collected', onUpdate);
+            detector.off('track-layers-changed', onLayersChanged);
+            detector.off('alert-state', onAlertState);
+            this._detectors.delete(LayersChangedDetector.name);
+        });
+        this.on('stats-collected', onUpdate);
+        detector.on('track-layers-changed', onLayersChanged);
+        detector.on('alert-state', onAlertState);
+
+        this._detectors.set(LayersChangedDetector.name, detector);
+
+        return detector;
+    }
+
+    /**
+     * Creates a detector comparing the resolution and the framerate of the outbound video tracks with the captured ones
+     * and the ones requested by the media constraints (see setMediaConstraints),
+     * the issue created on detection has the likely cause of the degradation attached.
+     */
+    public createOutboundVideoDegradationDetector(config?: Partial<OutboundVideoDegradationDetectorConfig> & {
+        createIssueOnDetection?: ClientDetectorIssueDetectionExtension,
+    }): OutboundVideoDegradationDetector {
+        const existingDetector = this._detectors.get(OutboundVideoDegradationDetector.name);
+
+        if (existingDetector) {
+            logger.warn('OutboundVideoDegradationDetector is already created, closing the existing one and creating a new one.');
+            existingDetector.close();
+        }
+
+        const detector = new OutboundVideoDegradationDetector({
+            minResolutionRatio: config?.minResolutionRatio ?? 0.25,
+            minFramerateRatio: config?.minFramerateRatio ?? 0.5,
+            minDurationInMs: config?.minDurationInMs ?? 5000,
+        });
+        const onUpdate = ({ timestamp }: ClientMonitorEvents['stats-collected']) => detector.update(this.storage.tracks(), timestamp);
+        const {
+            createIssueOnDetection,
+        } = config ?? {};
+
+        if (this._videoConstraints) detector.setRequestedConstraints(this._videoConstraints);
+
+        const onDegradationStarted = (event: OutboundVideoDegradationEvent) => {
+            this._addDetectedIssue(createIssueOnDetection, {
+                type: `outbound-video-${event.degradation}-degradation`,
+                description: `Outbound video ${event.degradation} is degraded`,
+                peerConnectionId: event.peerConnectionId,
+                mediaTrackId: event.trackId,
+                attachments: {
+                    degradation: event.degradation,
+                    cause: event.cause,
+                    sent: event.sent,
+                    captured: event.captured,
+                    requested: event.requested,
+                },
+            });
+            this.emit('outbound-video-degradation', {
+                state: 'started',
+                ...event,
+            });
+        };
+        const onDegradationEnded = (event: OutboundVideoDegradationEndedEvent) => {
+            this.resolveIssues(`outbound-video-${event.degradation}-degradation`, {
+                peerConnectionId: event.peerConnectionId,
+                mediaTrackId: event.trackId,
+            });
+            this.emit('outbound-video-degradation', {
+                state: 'ended',
+                ...event,
+            });
+        };
+
+        detector.once('close', () => {
+            this.off('stats-collected', onUpdate);
+            detector.off('video-degradation-started', onDegradationStarted);
+            detector.off('video-degradation-ended', onDegradationEnded);
+            this._detectors.delete(OutboundVideoDegradationDetector.name);
+        });
+        this.on('stats-collected', onUpdate);
+        detector.on('video-degradation-started', onDegradationStarted);
+        detector.on('video-degradation-ended', onDegradationEnded);
+
+        this._detectors.set(OutboundVideoDegradationDetector.name, detector);
+
+        return detector;
+    }
+
+    /**
+     * Creates a detector reporting local microphones capturing no audio (silent audio media source or muted track)
+     * while the track is not disabled by the application.
+     * The issue created on detection has the label of the device attached,
+     * if the device was captured by getUserMedia after integrateNavigatorMediaDevices.
+     */
+    public createDeadMicrophoneDetector(config?: Partial<DeadMicrophoneDetectorConfig> & {
+        createIssueOnDetection?: ClientDetectorIssueDetectionExtension,
+    }): DeadMicrophoneDetector {
+        const existingDetector = this._detectors.get(DeadMicrophoneDetector.name);
+
+        if (existingDetector) {
+            logger.warn('DeadMicrophoneDetector is already created, closing the existing one and creating a new one.');
+            existingDetector.close();
+        }
+
+        const detector = new DeadMicrophoneDetector({
+            minDurationInMs: config?.minDurationInMs ?? 10000,
+        });
+        const onUpdate = ({ timestamp }: ClientMonitorEvents['stats-collected']) => {
+            for (const [ trackId, track ] of Array.from(this._localAudioTracks)) {
+                if (track.readyState === 'ended') {
+                    this._localAudioTracks.delete(trackId);
+                    detector.setLocalTrackState(trackId);
+                    continue;
+                }
+                detector.setLocalTrackState(trackId, {
+                    muted: track.muted,
+                    enabled: track.enabled,
+                    deviceId: track.getSettings?.().deviceId,
+                    deviceLabel: track.label,
+                });
+            }
+            detector.update(this.storage.mediaSources(), timestamp);
+        };
+        const {
+            createIssueOnDetection,
+        } = config ?? {};
+
+        const onCallEvent = (event: CustomCallEvent) => {
+            if (!event.mediaTrackId) return;
+            if (event.name === CallEventType.MEDIA_TRACK_MUTED) detector.setLocalTrackState(event.mediaTrackId, { muted: true });
+            else if (event.name === CallEventType.MEDIA_TRACK_UNMUTED) detector.setLocalTrackState(event.mediaTrackId, { muted: false });
+        };
+        const onDeadMicrophoneStarted = (event: DeadMicrophoneStartedEvent) => {
+            this._addDetectedIssue(createIssueOnDetection, {
+                type: 'dead-microphone',
+                description: event.deviceLabel
+                    ? `Microphone (${event.deviceLabel}) captures no audio`
+                    : 'Microphone captures no audio',
+                peerConnectionId: event.peerConnectionId,
+                mediaTrackId: event.trackId,
+                attachments: {
+                    cause: event.cause,
+                    deviceId: event.deviceId,
+                    deviceLabel: event.deviceLabel,
+                },
+            });
+            this.emit('dead-microphone', {
+                state: 'started',
+                ...event,
+            });
+        };
+        const onDeadMicrophoneEnded = (event: DeadMicrophoneEndedEvent) => {
+            this.resolveIssues('dead-microphone', {
+                peerConnectionId: event.peerConnectionId,
+                mediaTrackId: event.trackId,
+            });
+            this.emit('dead-microphone', {
+                state: 'ended',
+                ...event,
+            });
+        };
+
+        detector.once('close', () => {
+            this.off('stats-collected', onUpdate);
+            this.off('call-event', onCallEvent);
+            detector.off('dead-microphone-started', onDeadMicrophoneStarted);
+            detector.off('dead-microphone-ended', onDeadMicrophoneEnded);
+            this._detectors.delete(DeadMicrophoneDetector.name);
+        });
+        this.on('stats-collected', onUpdate);
+        this.on('call-event', onCallEvent);
+        detector.on('dead-microphone-started', onDeadMicrophoneStarted);
+        detector.on('dead-microphone-ended', onDeadMicrophoneEnded);
+
+        this._detectors.set(DeadMicrophoneDetector.name, detector);
+
+        return detector;
+    }
+
+    /**
+     * Creates a detector reporting peer connections relayed over TCP or TLS by a TURN server,
+     * the issue created on detection has the relay protocol and the time spent on each relay protocol attached.
+     */
+    public createTcpRelayFallbackDetector(config?: {
+        createIssueOnDetection?: ClientDetectorIssueDetectionExtension,
+    }): TcpRelayFallbackDetector {
+        const existingDetector = this._detectors.get(TcpRelayFallbackDetector.name);
+
+        if (existingDetector) {
+            logger.warn('TcpRelayFallbackDetector is already created, closing the existing one and creating a new one.');
+            existingDetector.close();
+        }
+
+        const detector = new TcpRelayFallbackDetector();
+        const onUpdate = ({ timestamp }: ClientMonitorEvents['stats-collected']) => detector.update(this.storage.peerConnections(), timestamp);
+        const {
+            createIssueOnDetection,
+        } = config ?? {};
+
+        const onFallbackStarted = (event: TcpRelayFallbackStartedEvent) => {
+            this._addDetectedIssue(createIssueOnDetection, {
+                type: 'tcp-relay-fallback',
+                description: `Media is relayed over ${event.relayProtocol.toUpperCase()}`,
+                peerConnectionId: event.peerConnectionId,
+                attachments: {
+                    relayProtocol: event.relayProtocol,
+                    relayProtocolDurationsInMs: { ...this.storage.getPeerConnection(event.peerConnectionId)?.relayProtocolDurationsInMs },
+                },
+            });
+            this.emit('tcp-relay-fallback', {
+                state: 'started',
+                ...event,
+            });
+        };
+        const onFallbackEnded = (event: TcpRelayFallbackEndedEvent) => {
+            this.resolveIssues('tcp-relay-fallback', {
+                peerConnectionId: event.peerConnectionId,
+            });
+            this.emit('tcp-relay-fallback', {
+                state: 'ended',
+                peerConnectionId: event.peerConnectionId,
+                relayProtocol: event.relayProtocol,
+                durationInS: event.durationInS,
+            });
+        };
+
+        detector.once('close', () => {
+            this.off('stats-collected', onUpdate);
+            detector.off('relay-fallback-started', onFallbackStarted);
+            detector.off('relay-fallback-ended', onFallbackEnded);
+            this._detectors.delete(TcpRelayFallbackDetector.name);
+        });
+        this.on('stats-collected', onUpdate);
+        detector.on('relay-fallback-started', onFallbackStarted);
+        detector.on('relay-fallback-ended', onFallbackEnded);
+
+        this._detectors.set(TcpRelayFallbackDetector.name, detector);
+
+        return detector;
+    }
+
+    /**
+     * Creates a detector fitting the trend of the available outgoing and incoming bitrates of the peer connections,
+     * and warning about steadily decreasing bandwidth estimations before the encoder is limited by the bandwidth.
+     * 
+     * The issue created on detection is resolved when the available bitrate is stabilized.
+     */
+    public createBandwidthTrendDetector(config?: Partial<BandwidthTrendDetectorConfig> & {
+        createIssueOnDetection?: ClientDetectorIssueDetectionExtension,
+    }): BandwidthTrendDetector {
+        const existingDetector = this._detectors.get(BandwidthTrendDetector.name);
+
+        if (existingDetector) {
+            logger.warn('BandwidthTrendDetector is already created, closing the existing one and creating a new one.');
+            existingDetector.close();
+        }
+
+        const detector = new BandwidthTrendDetector({
+            windowInMs: config?.windowInMs ?? 10000,
+            minSamples: config?.minSamples ?? 5,
+            minDecreaseRatio: config?.minDecreaseRatio ?? 0.3,
+        });
+        const onUpdate = ({ timestamp }: ClientMonitorEvents['stats-collected']) => detector.update(this.storage.peerConnections(), {
+            outgoing: this.storage.highestSeenAvailableOutgoingBitrate,
+            incoming: this.storage.highestSeenAvailableIncomingBitrate,
+        }, timestamp);
+        const {
+            createIssueOnDetection,
+        } = config ?? {};
+
+        const onBandwidthDegrading = (event: BandwidthDegradingEvent) => {
+            this._addDetectedIssue(createIssueOnDetection, {
+                type: `${event.direction}-bandwidth-degrading`,
+                description: `Available ${event.direction} bitrate is degrading`,
+                peerConnectionId: event.peerConnectionId,
+                attachments: {
+                    availableBitrate: event.availableBitrate,
+                    slope: event.slope,
+                    decreaseRatio: event.decreaseRatio,
+                    highestSeenAvailableBitrate: event.highestSeenAvailableBitrate,
+                },
+            });
+            this.emit('bandwidth-degrading', {
+                state: 'started',
+                ...event,
+            });
+        };
+        const onBandwidthStabilized = (event: BandwidthStabilizedEvent) => {
+            this.resolveIssues(`${event.direction}-bandwidth-degrading`, {
+                peerConnectionId: event.peerConnectionId,
+            });
+            this.emit('bandwidth-degrading', {
+                state: 'ended',
+                ...event,
+            });
+        };
+
+        detector.once('close', () => {
+            this.off('stats-collected', onUpdate);
+            detector.off('bandwidth-degrading', onBandwidthDegrading);
+            detector.off('bandwidth-stabilized', onBandwidthStabilized);
+            this._detectors.delete(BandwidthTrendDetector.name);
+        });
+        this.on('stats-collected', onUpdate);
+        detector.on('bandwidth-degrading', onBandwidthDegrading);
+        detector.on('bandwidth-stabilized', onBandwidthStabilized);
+
+        this._detectors.set(BandwidthTrendDetector.name, detector);
+
+        return detector;
+    }
+
+    /**
+     * Creates a detector evaluating the given threshold rules after every collection,
+     * and adds an issue with the severity of the rule when a rule is triggered.
+     * 
+     * Throws an error if any of the rules is invalid.
+     */
+    public createThresholdRulesDetector(config: ThresholdRulesDetectorConfig): ThresholdRulesDetector {
+        const existingDetector = this._detectors.get(ThresholdRulesDetector.name);
+
+        if (existingDetector) {
+            logger.warn('ThresholdRulesDetector is already created, closing the existing one and creating a new one.');
+            existingDetector.close();
+        }
+
+        const detector = new ThresholdRulesDetector(config);
+        // the layers (ssrcs) of a simulcast track share one issue, which is resolved when none of them is triggered
+        const triggeredSubjects = new Map<string, number>();
+        const getIssueKey = ({ rule, peerConnectionId, trackId }: ThresholdRuleEvent) => `${rule.name}:${peerConnectionId}:${trackId}`;
+        const onUpdate = () => detector.update(this.storage);
+        const onRuleTriggered = (event: ThresholdRuleEvent) => {
+            const { rule, peerConnectionId, trackId, ssrc, value } = event;
+            const issueKey = getIssueKey(event);
+
+            triggeredSubjects.set(issueKey, (triggeredSubjects.get(issueKey) ?? 0) + 1);
+            this.addIssue({
+                type: `threshold-rule-${rule.name}`,
+                severity: rule.severity,
+                description: rule.description ?? `${rule.metric} ${rule.operator} ${rule.value}`,
+                timestamp: this._now(),
+                peerConnectionId,
+                mediaTrackId: trackId,
+                attachments: {
+                    rule: rule.name,
+                    metric: rule.metric,
+                    threshold: rule.value,
+                    value,
+                    ssrc,
+                },
+            });
+        };
+
+        const onRuleResolved = (event: ThresholdRuleEvent) => {
+            const { rule, peerConnectionId, trackId } = event;
+            const issueKey = getIssueKey(event);
+            const triggered = (triggeredSubjects.get(issueKey) ?? 1) - 1;
+
+            if (0 < triggered) {
+                triggeredSubjects.set(issueKey, triggered);
+                return;
+            }
+            triggeredSubjects.delete(issueKey);
+            this.resolveIssues(`threshold-rule-${rule.name}`, {
+                peerConnectionId,
+                mediaTrackId: trackId,
+            });
+        };
+
+        detector.once('close', () => {
+            this.off('stats-collected', onUpdate);
+            detector.off('rule-triggered', onRuleTriggered);
+            detector.off('rule-resolved', onRuleResolved);
+            triggeredSubjects.clear();
+            this._detectors.delete(ThresholdRulesDetector.name);
+        });
+        this.on('stats-collected', onUpdate);
+        detector.on('rule-triggered', onRuleTriggered);
+        detector.on('rule-resolved', onRuleResolved);
+
+        this._detectors.set(ThresholdRulesDetector.name, detector);
+
+        return detector;
+    }
+
+    public createStuckedOutboundTrackDetector(config?: StuckedOutboundTrackDetectorConfig& {
+        createIssueOnDetection?: ClientDetectorIssueDetectionExtension,
+    }): StuckedOutboundTrackDetector {
+        const existingDetector = this._detectors.get(StuckedOutboundTrackDetector.name);
+
+        if (existingDetector) {
+            logger.warn('StuckedOutboundTrackDetector is already created, closing the existing one and creating a new one.');
+            existingDetector.close();
+        }
+
+        const detector = new StuckedOutboundTrackDetector(config ?? {
+            minStuckedDurationInMs: 5000,
+        });
+        const onUpdate = ({ timestamp }: ClientMonitorEvents['stats-collected']) => detector.update(this.storage.outboundRtps(), timestamp);
+        const {
+            createIssueOnDetection,
+        } = config ?? {};
+
+        const onStuckedOutboundrack = (event: { peerConnectionId: string, trackId: string, ssrc: number }) => {
+            if (createIssueOnDetection) {
+                const attachments = (typeof createIssueOnDetection.attachments === 'function' 
+                    ? createIssueOnDetection.attachments() 
+                    : createIssueOnDetection.attachments) ?? {}
+                ;
+                
+                this.addIssue({
+                    type: 'stucked-outbound-track',
+                    severity: createIssueOnDetection.severity,
+                    description: createIssueOnDetection.description ?? 'Stucked outbound track detected',
+                    timestamp: this._now(),
+                    peerConnectionId: event.peerConnectionId,
+                    mediaTrackId: event.trackId,
+                    attachments: {
+                        ssrc: event.ssrc,
+                        ...attachments,
                     },
                 });
             }
@@ -837,16 +2061,24 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
                 ssrc: event.ssrc,
             });
         }
+        const onStuckedTrackEnded = (event: { peerConnectionId: string, trackId: string }) => {
+            this.resolveIssues('stucked-outbound-track', {
+                peerConnectionId: event.peerConnectionId,
+                mediaTrackId: event.trackId,
+            });
+        };
 
         detector.once('close', () => {
             this.off('stats-collected', onUpdate);
             detector.off('stuckedtrack', onStuckedOutboundrack);
-            this._detectors.delete('StuckedOutboundTrack');
+            detector.off('stuckedtrack-ended', onStuckedTrackEnded);
+            this._detectors.delete(StuckedOutboundTrackDetector.name);
         });
         this.on('stats-collected', onUpdate);
         detector.on('stuckedtrack', onStuckedOutboundrack);
+        detector.on('stuckedtrack-ended', onStuckedTrackEnded);
 
-        this._detectors.set('StuckedOutboundTrack', detector);
+        this._detectors.set(StuckedOutboundTrackDetector.name, detector);
 
         return detector;
     }
@@ -879,7 +2111,7 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
                 this.addIssue({
                     severity: createIssueOnDetection.severity,
                     description: createIssueOnDetection.description ?? 'Long peer connection establishment detected',
-                    timestamp: Date.now(),
+                    timestamp: this._now(),
                     peerConnectionId: event.peerConnectionId,
                     attachments,
                 });
@@ -897,6 +2129,139 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
         return detector;
     }
 
+    /**
+     * Creates a detector reporting inbound tracks the media of starts slowly: the first frame of a video track
+     * or the first packet of an audio track is not received within the threshold from the track is added.
+     * 
+     * The issue created on detection is resolved when the media of the track starts.
+     */
+    public createSlowMediaStartDetector(config?: Partial<SlowMediaStartDetectorConfig> & {
+        createIssueOnDetection?: ClientDetectorIssueDetectionExtension,
+    }): SlowMediaStartDetector {
+        const existingDetector = this._detectors.get(SlowMediaStartDetector.name);
+
+        if (existingDetector) {
+            logger.warn('SlowMediaStartDetector is already created, closing the existing one and creating a new one.');
+            existingDetector.close();
+        }
+
+        const detector = new SlowMediaStartDetector({
+            thresholdInMs: config?.thresholdInMs ?? 5000,
+        });
+        const onUpdate = ({ timestamp }: ClientMonitorEvents['stats-collected']) => detector.update(this.storage.tracks(), timestamp);
+        const {
+            createIssueOnDetection,
+        } = config ?? {};
+
+        const onSlowMediaStart = (event: SlowMediaStartEvent) => {
+            this._addDetectedIssue(createIssueOnDetection, {
+                type: 'slow-media-start',
+                description: `Media of the inbound ${event.kind} track starts slowly`,
+                peerConnectionId: event.peerConnectionId,
+                mediaTrackId: event.trackId,
+                attachments: {
+                    kind: event.kind,
+                    mediaSetup: event.mediaSetup,
+                },
+            });
+            this.emit('slow-media-start', {
+                state: 'started',
+                ...event,
+            });
+        };
+        const onMediaStarted = (event: MediaStartedEvent) => {
+            this.resolveIssues('slow-media-start', {
+                peerConnectionId: event.peerConnectionId,
+                mediaTrackId: event.trackId,
+            });
+            this.emit('slow-media-start', {
+                state: 'ended',
+                ...event,
+            });
+        };
+        const onMediaStartAborted = (event: SlowMediaStartEvent) => {
+            this.resolveIssues('slow-media-start', {
+                peerConnectionId: event.peerConnectionId,
+                mediaTrackId: event.trackId,
+            });
+            this.emit('slow-media-start', {
+                state: 'removed',
+                ...event,
+            });
+        };
+
+        detector.once('close', () => {
+            this.off('stats-collected', onUpdate);
+            detector.off('slow-media-start', onSlowMediaStart);
+            detector.off('media-started', onMediaStarted);
+            detector.off('media-start-aborted', onMediaStartAborted);
+            this._detectors.delete(SlowMediaStartDetector.name);
+        });
+        this.on('stats-collected', onUpdate);
+        detector.on('slow-media-start', onSlowMediaStart);
+        detector.on('media-started', onMediaStarted);
+        detector.on('media-start-aborted', onMediaStartAborted);
+
+        this._detectors.set(SlowMediaStartDetector.name, detector);
+
+        return detector;
+    }
+
+    /**
+     * Creates a transport sending every created ClientSample to the given sink.
+     * The transport flushes the last sample and closes the sink when the monitor is closed.
+     */
+    public createSampleTransport(config: SampleTransportConfig): SampleTransport {
+        const transport = new SampleTransport(config);
+
+        const onSampleCreated = (event: ClientMonitorEvents['sample-created']) => {
+            transport.add(event.clientSample);
+        };
+        const onClose = (event: ClientMonitorEvents['close']) => {
+            if (event.lastSample) transport.add(event.lastSample);
+            transport.close().catch((err) => logger.warn('Error occurred while closing the sample transport', err));
+        };
+
+        transport.events.once('close', () => {
+            this.off('sample-created', onSampleCreated);
+            this.off('close', onClose);
+        });
+        this.on('sample-created', onSampleCreated);
+        this.once('close', onClose);
+
+        return transport;
+    }
+
+    /**
+     * Creates a recorder capturing the collected stats, the call events and the issues of the monitor.
+     * The recorder stops recording when the monitor is closed, the recording can be exported by recorder.toJsonLines().
+     */
+    public createStatsRecorder(config?: StatsRecorderConfig): StatsRecorder {
+        const recorder = new StatsRecorder(config);
+
+        const onStatsCollected = (event: ClientMonitorEvents['stats-collected']) => {
+            recorder.recordStats(event.collectedStats, (peerConnectionId) => this.storage.getPeerConnection(peerConnectionId)?.label, event.timestamp);
+        };
+        const onCallEvent = (event: CustomCallEvent) => recorder.recordCallEvent(event);
+        const onIssue = (issue: ClientIssue) => recorder.recordIssue(issue);
+        const onClose = () => recorder.close();
+
+        recorder.onclose = () => {
+            this.off('stats-collected', onStatsCollected);
+            this.off('call-event', onCallEvent);
+            this.off('issue', onIssue);
+            this.off('issue-resolved', onIssue);
+            this.off('close', onClose);
+        };
+        this.on('stats-collected', onStatsCollected);
+        this.on('call-event', onCallEvent);
+        this.on('issue', onIssue);
+        this.on('issue-resolved', onIssue);
+        this.once('close', onClose);
+
+        return recorder;
+    }
+
     public getTrackStats(trackId: string): TrackStats | undefined {
         return this.storage.getTrack(trackId);
     }
@@ -1191,12 +2556,204 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
             })
         }
 
+        if (settings.silentInboundAudio) {
+            this.createSilentInboundAudioDetector({
+                createIssueOnDetection: getCreateIssueOnDetection('silentInboundAudio'),
+            });
+        }
+
+        if (settings.oneWayOutboundMedia) {
+            this.createOneWayOutboundMediaDetector({
+                createIssueOnDetection: getCreateIssueOnDetection('oneWayOutboundMedia'),
+            });
+        }
+
+        if (settings.packetLossBurst) {
+            this.createPacketLossBurstDetector({
+                createIssueOnDetection: getCreateIssueOnDetection('packetLossBurst'),
+            });
+        }
+
+        if (settings.jitterBuffer) {
+            this.createJitterBufferDetector({
+                createIssueOnDetection: getCreateIssueOnDetection('jitterBuffer'),
+            });
+        }
+
+        if (settings.connectionFlapping) {
+            this.createConnectionFlappingDetector({
+                createIssueOnDetection: getCreateIssueOnDetection('connectionFlapping'),
+            });
+        }
+
+        if (settings.layersChanged) {
+            this.createLayersChangedDetector({
+                createIssueOnDetection: getCreateIssueOnDetection('layersChanged'),
+            });
+        }
+
+        if (settings.outboundVideoDegradation) {
+            this.createOutboundVideoDegradationDetector({
+                createIssueOnDetection: getCreateIssueOnDetection('outboundVideoDegradation'),
+            });
+        }
+
+        if (settings.deadMicrophone) {
+            this.createDeadMicrophoneDetector({
+                createIssueOnDetection: getCreateIssueOnDetection('deadMicrophone') ?? { severity: 'critical' },
+            });
+        }
+
+        if (settings.tcpRelayFallback) {
+            this.createTcpRelayFallbackDetector({
+                createIssueOnDetection: getCreateIssueOnDetection('tcpRelayFallback') ?? { severity: 'major' },
+            });
+        }
+
+        if (settings.bandwidthDegrading) {
+            this.createBandwidthTrendDetector({
+                createIssueOnDetection: getCreateIssueOnDetection('bandwidthDegrading') ?? { severity: 'minor' },
+            });
+        }
+
+        if (settings.thresholdRules && 0 < settings.thresholdRules.length) {
+            this.createThresholdRulesDetector({
+                rules: settings.thresholdRules,
+            });
+        }
+
         if (settings.longPcConnectionEstablishment) {
             this.createLongPcConnectionEstablishmentDetector({
                 thresholdInMs: 3000,
                 createIssueOnDetection: getCreateIssueOnDetection('longPcConnectionEstablishment'),
             });
         }
+
+        if (settings.slowMediaStart) {
+            this.createSlowMediaStartDetector({
+                createIssueOnDetection: getCreateIssueOnDetection('slowMediaStart') ?? { severity: 'major' },
+            });
+        }
+    }
+
+    /**
+     * @param recordedAt the time the stats were recorded at if a dump is replayed
+     */
+    private async _collect(recordedAt?: number): Promise<CollectedStats> {
+        if (this._closed) throw new Error('ClientMonitor is closed');
+        const started = Date.now();
+        const wasUsingTURN = this.peerConnections.some(pc => pc.usingTURN);
+        const collectedStats = await this.collectors.collect();
+        const collectedAt = Date.now();
+        const timestamp = recordedAt ?? collectedAt;
+
+        // nothing is elapsed before the first collection (e.g.: the first record of a replayed dump)
+        const elapsedSinceLastCollectedInMs = this._lastCollectedAt !== undefined ? timestamp - this._lastCollectedAt : 0;
+
+        this._collectedAt = timestamp;
+        try {
+            this.storage.update(collectedStats, timestamp);
+            this._callSummaryBuilder.update(this.storage, elapsedSinceLastCollectedInMs, timestamp);
+
+            this.emit('stats-collected', {
+                collectedStats,
+                timestamp,
+                elapsedSinceLastCollectedInMs,
+                durationOfCollectingStatsInMs: collectedAt - started,
+            });
+
+            this._lastCollectedAt = timestamp;
+
+            if (this._config.samplingTick && this._config.samplingTick <= ++this._actualCollectingTick ) {
+                this._actualCollectingTick = 0;
+                this.sample();
+            }
+
+            const isUsingTURN = this.peerConnections.some(pc => pc.usingTURN);
+
+            if (wasUsingTURN !== isUsingTURN) {
+                this.emit('using-turn', isUsingTURN);
+            }
+            this._checkTrackScores();
+        } finally {
+            this._collectedAt = undefined;
+        }
+
+        return collectedStats;
+    }
+
+    /**
+     * The time the collected stats under processing are collected at, or Date.now() if no stats are processed
+     */
+    private _now(): number {
+        return this._collectedAt ?? Date.now();
+    }
+
+    private _addDetectedIssue(createIssueOnDetection: ClientDetectorIssueDetectionExtension | undefined, issue: DetectedIssue): boolean {
+        if (!createIssueOnDetection) return false;
+
+        const attachments = typeof createIssueOnDetection.attachments === 'function' 
+            ? createIssueOnDetection.attachments() 
+            : createIssueOnDetection.attachments;
+
+        this.addIssue({
+            ...issue,
+            severity: createIssueOnDetection.severity,
+            description: createIssueOnDetection.description ?? issue.description,
+            timestamp: issue.timestamp ?? this._now(),
+            attachments: issue.attachments || attachments ? {
+                ...issue.attachments,
+                ...attachments,
+            } : undefined,
+        });
+        return true;
+    }
+
+    private _getQualityLimitations() {
+        const result = [];
+        for (const track of this.storage.tracks()) {
+            if (track.direction !== 'outbound' || !track.qualityLimitation) continue;
+            const { reason, durationsInS, resolutionChanges } = track.qualityLimitation;
+            result.push({
+                trackId: track.trackId,
+                reason,
+                durationsInS,
+                resolutionChanges,
+            });
+        }
+        return result;
+    }
+
+    private _checkTrackScores() {
+        const thresholds = [ ...(this._config.trackScoreThresholds ?? [ 2, 3, 4 ]) ].sort((a, b) => a - b);
+        const visitedTrackIds = new Set<string>();
+
+        for (const track of this.storage.tracks()) {
+            if (track.score === undefined) continue;
+            visitedTrackIds.add(track.trackId);
+
+            const previousScore = this._trackScores.get(track.trackId);
+            this._trackScores.set(track.trackId, track.score);
+            if (previousScore === undefined) continue;
+
+            const [ low, high ] = previousScore < track.score ? [ previousScore, track.score ] : [ track.score, previousScore ];
+            const crossedThresholds = thresholds.filter(threshold => low < threshold && threshold <= high);
+            if (crossedThresholds.length < 1) continue;
+
+            this.emit('track-score-threshold-crossed', {
+                peerConnectionId: track.getPeerConnection().peerConnectionId,
+                trackId: track.trackId,
+                direction: track.direction,
+                kind: track.kind,
+                score: track.score,
+                previousScore,
+                thresholds: crossedThresholds,
+                trend: previousScore < track.score ? 'improved' : 'degraded',
+            });
+        }
+        for (const trackId of Array.from(this._trackScores.keys())) {
+            if (!visitedTrackIds.has(trackId)) this._trackScores.delete(trackId);
+        }
     }
 
     private _setupTimer(): void {
@@ -1277,6 +2834,11 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
             try {
                 const result = await originalGetUserMedia(constraints);
 
+                // the device labels of the microphones are used to report dead microphones
+                for (const track of result.getAudioTracks?.() ?? []) {
+                    monitor._localAudioTracks.set(track.id, track);
+                }
+
                 return result;
             } catch (err) {
                 monitor.addUserMediaError(err);
@@ -1312,6 +2874,7 @@ export class ClientMonitor extends TypedEventEmitter<ClientMonitorEvents> {
         
         monitor.once('close', () => {
             mediaDevices.getUserMedia = originalGetUserMedia;
+            monitor._localAudioTracks.clear();
             mediaDevices.removeEventListener('devicechange', onDeviceChange);
         });
         mediaDevices.addEventListener('devicechange', onDeviceChange);
@@ -10,6 +10,8 @@ import { StatsCollector } from "./collectors/StatsCollector";
 import { CustomCallEvent } from "./schema/Samples";
 import { createMediasoupStatsCollector } from "./collectors/MediasoupStatsCollector";
 import { StatsStorage } from "./entries/StatsStorage";
+import { createReplayStatsCollector } from "./collectors/ReplayStatsCollector";
+import { StatsDumpRecord } from "./collectors/StatsDump";
 
 const logger = createLogger("Collectors");
 
@@ -182,6 +184,27 @@ export function createCollectors(config: {
         return statsCollector;
     }
 
+    function addStatsDump(records: StatsDumpRecord[], collectorId?: string) {
+        logger.trace(`addStatsDump(): number of records: ${records.length}`);
+        const statsCollector = createReplayStatsCollector({
+            collectorId,
+            records,
+            emitCallEvent: (event: CustomCallEvent) => {
+                emitter.emit('custom-call-event', event);
+            },
+            addStatsProvider,
+            removeStatsProvider,
+        });
+
+        statsCollector.onclose = () => {
+            statsCollectors.delete(statsCollector.id);
+            emitter.emit('removed-stats-collector', statsCollector);
+        };
+        statsCollectors.set(statsCollector.id, statsCollector);
+        emitter.emit('added-stats-collector', statsCollector);
+        return statsCollector;
+    }
+
     function clear() {
         for (const statsCollector of statsCollectors.values()) {
             statsCollector.close();
@@ -196,6 +219,7 @@ export function createCollectors(config: {
         addGetStats,
         addRTCPeerConnection,
         addMediasoupDevice,
+        addStatsDump,
         collect,
         get processor() {
             return processor;
@@ -24,9 +24,20 @@ import {
 import { StatsStorage } from "./entries/StatsStorage";
 import { createLogger } from "./utils/logger";
 import { roundNumber } from './utils/common';
+import { ClientSampleDeltaEncoder, createClientSampleDeltaEncoder } from './utils/sampleDelta';
 
 const logger = createLogger("Sampler");
 
+/**
+ * The type of the extension stats carrying the quality scores of the tracks in the samples
+ */
+export const TRACK_SCORES_EXTENSION_TYPE = 'TRACK_SCORES';
+
+/**
+ * The type of the extension stats carrying the quality limitation timeline of the outbound video tracks in the samples
+ */
+export const QUALITY_LIMITATIONS_EXTENSION_TYPE = 'QUALITY_LIMITATIONS';
+
 export class Sampler {
     // all of the following fields until empty line must be reset after sampled
     private _engine?: Engine;
@@ -43,6 +54,7 @@ export class Sampler {
     private _marker?: string;
     private _sampleSeq = 0;
     private _userId?: string;
+    private _deltaEncoder?: ClientSampleDeltaEncoder;
     private readonly _timezoneOffset: number = new Date().getTimezoneOffset();
     
     public constructor(
@@ -109,6 +121,18 @@ export class Sampler {
         this._userId = userId;
     }
 
+    /**
+     * In delta mode the created samples contain only the fields changed since the previous sample,
+     * and a full sample is created in every keyframeInterval number of samples.
+     * 
+     * @param keyframeInterval the number of samples between two full samples, or undefined to disable the delta mode
+     */
+    public setDeltaMode(keyframeInterval?: number) {
+        this._deltaEncoder = keyframeInterval !== undefined && 1 < keyframeInterval
+            ? createClientSampleDeltaEncoder({ keyframeInterval })
+            : undefined;
+    }
+
     public clear() {
         this._engine = undefined;
         this._platform = undefined;
@@ -123,7 +147,7 @@ export class Sampler {
         this._localSDP = undefined;
     }
 
-    public createClientSample(): ClientSample {
+    public createClientSample(timestamp = Date.now()): ClientSample {
         const clientSample: ClientSample = {
             // Deprecated fields, no longer have relevance in the coming schema
             callId: 'NULL',
@@ -146,7 +170,7 @@ export class Sampler {
             customCallEvents: this._customCallEvents,
             mediaDevices: this._mediaDevices,
             customObserverEvents: this._customObservedEvents,
-            timestamp: Date.now(),
+            timestamp,
         };
         ++this._sampleSeq;
         this._engine = undefined;
@@ -556,7 +580,53 @@ export class Sampler {
         clientSample.iceRemoteCandidates = iceRemoteCandidates;
         clientSample.dataChannels = dataChannels;
         clientSample.iceServers = iceServers;
+
+        // the schema has no field for the quality score of the tracks, it is sent as an extension stats
+        const trackScores = Array.from(this._storage.tracks())
+            .filter(track => track.score !== undefined)
+            .map(track => ({
+                trackId: track.trackId,
+                peerConnectionId: track.getPeerConnection().peerConnectionId,
+                direction: track.direction,
+                kind: track.kind,
+                score: track.score,
+            }));
+        if (0 < trackScores.length) {
+            clientSample.extensionStats = [
+                ...(clientSample.extensionStats ?? []),
+                {
+                    type: TRACK_SCORES_EXTENSION_TYPE,
+                    payload: JSON.stringify(trackScores),
+                }
+            ];
+        }
+
+        const qualityLimitations = [];
+        for (const track of this._storage.tracks()) {
+            if (track.direction !== 'outbound' || !track.qualityLimitation) continue;
+            const { episodes, durationsInS } = track.qualityLimitation;
+            // tracks never limited are omitted to keep the samples small
+            if (episodes.length < 1 && durationsInS.cpu + durationsInS.bandwidth + durationsInS.other <= 0) continue;
+            qualityLimitations.push({
+                trackId: track.trackId,
+                peerConnectionId: track.getPeerConnection().peerConnectionId,
+                ...track.qualityLimitation,
+            });
+        }
+        if (0 < qualityLimitations.length) {
+            clientSample.extensionStats = [
+                ...(clientSample.extensionStats ?? []),
+                {
+                    type: QUALITY_LIMITATIONS_EXTENSION_TYPE,
+                    payload: JSON.stringify(qualityLimitations),
+                }
+            ];
+        }
         logger.trace(`Assembled ClientSample`, clientSample);
+        
+        if (this._deltaEncoder) {
+            return this._deltaEncoder.encode(clientSample);
+        }
         return clientSample;
     }
 }
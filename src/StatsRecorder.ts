@@ -0,0 +1,236 @@
+import { CollectedStats } from "./Collectors";
+import type { ClientIssue } from "./ClientMonitor";
+import { CustomCallEvent, schemaVersion } from "./schema/Samples";
+import { STATS_DUMP_VERSION, StatsDumpHeaderRecord, StatsDumpRecord } from "./collectors/StatsDump";
+import * as W3C from './schema/W3cStatsIdentifiers';
+import { createLogger } from "./utils/logger";
+
+const logger = createLogger("StatsRecorder");
+
+/**
+ * The fields every recorded stats keeps regardless of the allow-lists
+ */
+const MANDATORY_STATS_FIELDS = [ 'id', 'type', 'timestamp' ];
+
+export type StatsRecorderConfig = {
+    /**
+     * The maximum size of the recording (the number of bytes of the UTF-8 encoded serialized records).
+     * If the limit is reached the oldest records are dropped.
+     *
+     * DEFAULT: 5242880 (5MB)
+     */
+    maxSizeInBytes?: number,
+
+    /**
+     * The maximum number of records kept.
+     * If the limit is reached the oldest records are dropped.
+     *
+     * DEFAULT: undefined (no limit)
+     */
+    maxRecords?: number,
+
+    /**
+     * The types of the stats to record (e.g.: ['inbound-rtp', 'outbound-rtp']).
+     *
+     * DEFAULT: undefined (all types are recorded)
+     */
+    statsTypes?: W3C.StatsType[],
+
+    /**
+     * The fields of the stats to record per stats type (e.g.: { 'inbound-rtp': ['ssrc', 'kind', 'bytesReceived'] }).
+     * The id, type and timestamp fields are always recorded, stats types not listed here are recorded with all of their fields.
+     *
+     * DEFAULT: undefined (all fields are recorded)
+     */
+    statsFields?: Partial<Record<W3C.StatsType, string[]>>,
+
+    /**
+     * Record the custom call events added to the monitor
+     *
+     * DEFAULT: true
+     */
+    recordCallEvents?: boolean,
+
+    /**
+     * Record the issues added to the monitor and their resolution
+     *
+     * DEFAULT: true
+     */
+    recordIssues?: boolean,
+
+    /**
+     * Additional information added to the header of the recording (e.g.: callId, app version)
+     */
+    attachments?: Record<string, unknown>,
+}
+
+/**
+ * Records the collected stats, call events and issues of a monitor to a versioned JSON-lines stats dump,
+ * which can be replayed by ClientMonitor.replayStatsDump().
+ */
+export class StatsRecorder {
+    public readonly created = Date.now();
+    public onclose?: () => void;
+
+    private readonly _lines: string[] = [];
+    private readonly _statsTypes?: Set<string>;
+    private readonly _statsFields = new Map<string, Set<string>>();
+    private readonly _textEncoder = new TextEncoder();
+    private _sizeInBytes = 0;
+    private _droppedRecords = 0;
+    private _closed = false;
+
+    public constructor(
+        public readonly config: StatsRecorderConfig = {},
+    ) {
+        this._statsTypes = config.statsTypes ? new Set(config.statsTypes) : undefined;
+        for (const [ type, fields ] of Object.entries(config.statsFields ?? {})) {
+            if (!fields) continue;
+            this._statsFields.set(type, new Set([ ...MANDATORY_STATS_FIELDS, ...fields ]));
+        }
+    }
+
+    public get closed() {
+        return this._closed;
+    }
+
+    /**
+     * The number of records currently kept
+     */
+    public get numberOfRecords() {
+        return this._lines.length;
+    }
+
+    /**
+     * The number of records dropped due to the size limits
+     */
+    public get droppedRecords() {
+        return this._droppedRecords;
+    }
+
+    public get sizeInBytes() {
+        return this._sizeInBytes;
+    }
+
+    /**
+     * @param timestamp the time the stats are collected at
+     */
+    public recordStats(collectedStats: CollectedStats, getLabel?: (peerConnectionId: string) => string | undefined, timestamp = Date.now()): void {
+        const peerConnections = collectedStats.map(({ peerConnectionId, statsMap }) => {
+            const stats: W3C.StatsValue[] = [];
+            for (const statsValue of statsMap) {
+                const filteredStats = this._filterStats(statsValue);
+                if (filteredStats) stats.push(filteredStats);
+            }
+            return {
+                peerConnectionId,
+                label: getLabel?.(peerConnectionId),
+                stats,
+            };
+        });
+
+        this._add({
+            type: 'stats',
+            timestamp,
+            peerConnections,
+        });
+    }
+
+    public recordCallEvent(event: CustomCallEvent): void {
+        if (this.config.recordCallEvents === false) return;
+
+        this._add({
+            type: 'call-event',
+            timestamp: event.timestamp ?? Date.now(),
+            event,
+        });
+    }
+
+    /**
+     * Records an issue when it is added, and when it is resolved (the resolved issue is recorded at the time it is resolved at)
+     */
+    public recordIssue(issue: ClientIssue): void {
+        if (this.config.recordIssues === false) return;
+
+        const timestamp = issue.state === 'resolved' ? issue.resolvedAt : issue.timestamp;
+        this._add({
+            type: 'issue',
+            timestamp: timestamp ?? Date.now(),
+            issue,
+        });
+    }
+
+    /**
+     * Serializes the recording to JSON-lines, the first line is the header of the dump.
+     */
+    public toJsonLines(): string {
+        const header: StatsDumpHeaderRecord = {
+            type: 'header',
+            version: STATS_DUMP_VERSION,
+            createdAt: this.created,
+            schemaVersion,
+            droppedRecords: 0 < this._droppedRecords ? this._droppedRecords : undefined,
+            attachments: this.config.attachments,
+        };
+
+        return [ JSON.stringify(header), ...this._lines ].join('\n') + '\n';
+    }
+
+    /**
+     * Stops recording. The recorded records are kept and can be serialized after the recorder is closed.
+     */
+    public close(): void {
+        if (this._closed) return;
+        this._closed = true;
+        this.onclose?.();
+    }
+
+    private _add(record: StatsDumpRecord): void {
+        if (this._closed) return;
+
+        let line: string;
+        try {
+            line = JSON.stringify(record);
+        } catch (err) {
+            return logger.warn(`Cannot serialize ${record.type} record`, err);
+        }
+        this._lines.push(line);
+        this._sizeInBytes += this._getSizeInBytes(line);
+
+        while (0 < this._lines.length && this._isOverLimits()) {
+            const droppedLine = this._lines.shift() as string;
+            this._sizeInBytes -= this._getSizeInBytes(droppedLine);
+            ++this._droppedRecords;
+        }
+    }
+
+    /**
+     * The number of bytes of the UTF-8 encoded line including its line break
+     */
+    private _getSizeInBytes(line: string): number {
+        return this._textEncoder.encode(line).length + 1;
+    }
+
+    private _isOverLimits(): boolean {
+        const {
+            maxSizeInBytes = 5 * 1024 * 1024,
+            maxRecords,
+        } = this.config;
+
+        if (maxSizeInBytes < this._sizeInBytes) return true;
+        return maxRecords !== undefined && maxRecords < this._lines.length;
+    }
+
+    private _filterStats(statsValue: W3C.StatsValue): W3C.StatsValue | undefined {
+        if (this._statsTypes && !this._statsTypes.has(statsValue.type)) return;
+
+        const fields = this._statsFields.get(statsValue.type);
+        if (!fields) return statsValue;
+
+        const result: Record<string, unknown> = {};
+        for (const [ key, value ] of Object.entries(statsValue)) {
+            if (fields.has(key)) result[key] = value;
+        }
+        return result as W3C.StatsValue;
+    }
+}
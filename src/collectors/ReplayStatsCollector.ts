@@ -0,0 +1,124 @@
+import { CustomCallEvent } from "../schema/Samples";
+import { StatsProvider, createStatsProvider } from "./StatsProvider";
+import { StatsDumpRecord, StatsDumpStatsRecord, sortStatsDumpRecords } from "./StatsDump";
+import * as W3C from '../schema/W3cStatsIdentifiers';
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("ReplayStatsCollector");
+
+export type ReplayStatsCollectorConfig = {
+    collectorId?: string,
+    records: StatsDumpRecord[],
+    emitCallEvent: ((event: CustomCallEvent) => void);
+    addStatsProvider: ((statsProvider: StatsProvider) => void);
+    removeStatsProvider: ((statsProviderId: string) => void);
+}
+
+export type ReplayStatsCollector = ReturnType<typeof createReplayStatsCollector>;
+
+/**
+ * Creates a collector providing the stats of a recorded stats dump round by round.
+ *
+ * Every peer connection of the dump is added as a stats provider when it first appears in a stats record,
+ * and removed when it disappears from the dump.
+ */
+export function createReplayStatsCollector(config: ReplayStatsCollectorConfig) {
+    const {
+        collectorId = 'replay',
+        emitCallEvent,
+        addStatsProvider,
+        removeStatsProvider,
+    } = config;
+    const records = sortStatsDumpRecords(config.records);
+    const currentStats = new Map<string, W3C.StatsValue[]>();
+    let position = 0;
+    let timestamp: number | undefined;
+
+    function createReport(peerConnectionId: string): RTCStatsReport {
+        const report = new Map<string, W3C.StatsValue>();
+        for (const stats of currentStats.get(peerConnectionId) ?? []) {
+            report.set(stats.id, stats);
+        }
+        return report as unknown as RTCStatsReport;
+    }
+
+    function applyStatsRecord(record: StatsDumpStatsRecord) {
+        const visited = new Set<string>();
+        for (const { peerConnectionId, label, stats } of record.peerConnections) {
+            visited.add(peerConnectionId);
+            if (!currentStats.has(peerConnectionId)) {
+                addStatsProvider(createStatsProvider(
+                    async () => createReport(peerConnectionId),
+                    peerConnectionId,
+                    label,
+                ));
+            }
+            currentStats.set(peerConnectionId, stats);
+        }
+        for (const peerConnectionId of Array.from(currentStats.keys())) {
+            if (visited.has(peerConnectionId)) continue;
+            currentStats.delete(peerConnectionId);
+            removeStatsProvider(peerConnectionId);
+        }
+    }
+
+    /**
+     * Advances the replay to the next stats record.
+     * The call events recorded until the stats record are emitted.
+     *
+     * @returns the timestamp of the stats record, or undefined if the end of the dump is reached
+     */
+    function next(): number | undefined {
+        if (closed) return;
+
+        while (position < records.length) {
+            const record = records[position++];
+            switch (record.type) {
+                case 'call-event':
+                    emitCallEvent(record.event);
+                    break;
+                case 'stats':
+                    timestamp = record.timestamp;
+                    applyStatsRecord(record);
+                    return timestamp;
+            }
+        }
+        return;
+    }
+
+    let onclose: (() => void) | undefined;
+    let closed = false;
+    function close() {
+        if (closed) return;
+        closed = true;
+        for (const peerConnectionId of currentStats.keys()) {
+            removeStatsProvider(peerConnectionId);
+        }
+        currentStats.clear();
+        logger.debug(`Replay collector ${collectorId} is closed`);
+        onclose?.();
+    }
+
+    return {
+        get id() {
+            return collectorId;
+        },
+        next,
+        close,
+        get closed() {
+            return closed;
+        },
+        /**
+         * The timestamp of the stats record the collector provides the stats from
+         */
+        get timestamp() {
+            return timestamp;
+        },
+        get hasNext() {
+            return !closed && records.slice(position).some((record) => record.type === 'stats');
+        },
+        set onclose(listener: (() => void) | undefined) {
+            onclose = listener;
+        },
+    };
+}
@@ -0,0 +1,108 @@
+import type { ClientIssue } from "../ClientMonitor";
+import { CustomCallEvent } from "../schema/Samples";
+import * as W3C from '../schema/W3cStatsIdentifiers';
+
+/**
+ * The version of the JSON-lines stats dump format
+ */
+export const STATS_DUMP_VERSION = 1;
+
+/**
+ * The first line of a stats dump
+ */
+export type StatsDumpHeaderRecord = {
+    type: 'header',
+    version: number,
+    createdAt: number,
+    schemaVersion?: string,
+    /**
+     * The number of records dropped by the recorder due to its size limits
+     */
+    droppedRecords?: number,
+    attachments?: Record<string, unknown>,
+}
+
+/**
+ * The stats collected from the peer connections at the given time
+ */
+export type StatsDumpStatsRecord = {
+    type: 'stats',
+    timestamp: number,
+    peerConnections: {
+        peerConnectionId: string,
+        label?: string,
+        stats: W3C.StatsValue[],
+    }[],
+}
+
+export type StatsDumpCallEventRecord = {
+    type: 'call-event',
+    timestamp: number,
+    event: CustomCallEvent,
+}
+
+/**
+ * An issue added to the monitor, or resolved if the state of the issue is resolved
+ */
+export type StatsDumpIssueRecord = {
+    type: 'issue',
+    timestamp: number,
+    issue: ClientIssue,
+}
+
+export type StatsDumpRecord =
+    | StatsDumpHeaderRecord
+    | StatsDumpStatsRecord
+    | StatsDumpCallEventRecord
+    | StatsDumpIssueRecord
+    ;
+
+/**
+ * Parses a stats dump, where every line is a JSON encoded StatsDumpRecord.
+ *
+ * The returned records are ordered by their timestamp, the header (if there is one) is the first.
+ * Throws an error if a line is not a valid record, or the dump was created by a newer version of the format.
+ */
+export function parseStatsDump(jsonLines: string): StatsDumpRecord[] {
+    const records: StatsDumpRecord[] = [];
+    const lines = jsonLines.split(/\r?\n/);
+
+    for (let index = 0; index < lines.length; ++index) {
+        const line = lines[index].trim();
+        if (!line) continue;
+
+        let record: StatsDumpRecord;
+        try {
+            record = JSON.parse(line);
+        } catch (err) {
+            throw new Error(`Invalid JSON in line ${index + 1} of the stats dump`);
+        }
+        switch (record?.type) {
+            case 'header':
+                if (STATS_DUMP_VERSION < record.version) {
+                    throw new Error(`Stats dump version ${record.version} is not supported (supported version: ${STATS_DUMP_VERSION})`);
+                }
+                break;
+            case 'stats':
+                if (!Array.isArray(record.peerConnections)) {
+                    throw new Error(`Missing peerConnections in line ${index + 1} of the stats dump`);
+                }
+                break;
+            case 'call-event':
+            case 'issue':
+                break;
+            default:
+                throw new Error(`Unknown record type in line ${index + 1} of the stats dump`);
+        }
+        records.push(record);
+    }
+
+    return sortStatsDumpRecords(records);
+}
+
+export function sortStatsDumpRecords(records: StatsDumpRecord[]): StatsDumpRecord[] {
+    const getTimestamp = (record: StatsDumpRecord) => record.type === 'header' ? -Infinity : record.timestamp;
+
+    // Array.prototype.sort is stable, records with the same timestamp keep their order
+    return [ ...records ].sort((a, b) => getTimestamp(a) - getTimestamp(b));
+}
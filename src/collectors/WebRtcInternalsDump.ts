@@ -0,0 +1,258 @@
+import { StatsStorage } from "../entries/StatsStorage";
+import * as W3C from '../schema/W3cStatsIdentifiers';
+import { createLogger } from "../utils/logger";
+import { createStatsMap } from "../utils/Stats";
+import { StatsDumpStatsRecord } from "./StatsDump";
+
+const logger = createLogger("WebRtcInternalsDump");
+
+/**
+ * Stats of different ids collected within this time are considered to belong to the same getStats() call
+ */
+const SNAPSHOT_TOLERANCE_IN_MS = 500;
+
+/**
+ * A time series of one metric of one stats in a chrome://webrtc-internals dump.
+ * The key of the series is the id of the stats and the name of the metric joined by a dash (e.g.: IT01A1234-bytesReceived)
+ */
+export type WebRtcInternalsStatsSeries = {
+    statsType: string,
+    startTime?: string,
+    endTime?: string,
+    /**
+     * JSON encoded array of the values
+     */
+    values: string | unknown[],
+}
+
+export type WebRtcInternalsPeerConnection = {
+    url?: string,
+    rtcConfiguration?: string,
+    constraints?: string,
+    updateLog?: unknown[],
+    stats?: Record<string, WebRtcInternalsStatsSeries>,
+}
+
+/**
+ * The structure of the file downloaded from chrome://webrtc-internals ("Create a WebRTC-Internals dump")
+ */
+export type WebRtcInternalsDump = {
+    PeerConnections?: Record<string, WebRtcInternalsPeerConnection>,
+    UserAgent?: string,
+    getUserMedia?: unknown[],
+}
+
+export type StatsSnapshot = {
+    timestamp: number,
+    stats: W3C.StatsValue[],
+}
+
+export type WebRtcInternalsPeerConnectionSnapshots = {
+    peerConnectionId: string,
+    snapshots: StatsSnapshot[],
+}
+
+type StatsSeries = {
+    type: string,
+    startTime?: number,
+    endTime?: number,
+    metrics: Map<string, unknown[]>,
+}
+
+function parseValue(value: unknown): unknown {
+    // objects (e.g.: qualityLimitationDurations) are dumped as JSON strings
+    if (typeof value !== 'string' || !value.startsWith('{')) return value;
+    try {
+        return JSON.parse(value);
+    } catch (err) {
+        return value;
+    }
+}
+
+function parseSeriesValues(values: string | unknown[]): unknown[] | undefined {
+    if (Array.isArray(values)) return values;
+    try {
+        const result = JSON.parse(values);
+        return Array.isArray(result) ? result : undefined;
+    } catch (err) {
+        return undefined;
+    }
+}
+
+function parseTime(time?: string): number | undefined {
+    if (!time) return;
+    const result = Date.parse(time);
+    return Number.isNaN(result) ? undefined : result;
+}
+
+function groupSeriesByStatsId(stats: Record<string, WebRtcInternalsStatsSeries>): Map<string, StatsSeries> {
+    const result = new Map<string, StatsSeries>();
+
+    for (const [ key, series ] of Object.entries(stats)) {
+        // metrics calculated by webrtc-internals (e.g.: IT01A1234-[bytesReceived_in_bits/s]) are not part of the stats
+        if (key.endsWith(']')) continue;
+        const separator = key.lastIndexOf('-');
+        if (separator < 1 || !series?.statsType) continue;
+
+        const statsId = key.slice(0, separator);
+        const metricName = key.slice(separator + 1);
+        const values = parseSeriesValues(series.values);
+        if (!values) {
+            logger.warn(`Cannot parse the values of ${key}`);
+            continue;
+        }
+        let statsSeries = result.get(statsId);
+        if (!statsSeries) {
+            statsSeries = {
+                type: series.statsType,
+                startTime: parseTime(series.startTime),
+                endTime: parseTime(series.endTime),
+                metrics: new Map(),
+            };
+            result.set(statsId, statsSeries);
+        }
+        statsSeries.metrics.set(metricName, values);
+    }
+    return result;
+}
+
+function getTimestamps(series: StatsSeries): number[] {
+    const timestamps = series.metrics.get('timestamp');
+    if (timestamps && timestamps.every((timestamp) => typeof timestamp === 'number')) {
+        return timestamps as number[];
+    }
+    // older dumps have no timestamp series, the values are evenly distributed between the start and the end time
+    const length = Math.max(0, ...Array.from(series.metrics.values()).map((values) => values.length));
+    const { startTime = 0, endTime = startTime } = series;
+    const step = 1 < length ? (endTime - startTime) / (length - 1) : 0;
+
+    return Array.from({ length }, (_, index) => Math.round(startTime + index * step));
+}
+
+/**
+ * Converts the time series of a peer connection dumped by chrome://webrtc-internals
+ * to snapshots of stats, as if they were returned by getStats() calls.
+ */
+export function createStatsSnapshots(stats: Record<string, WebRtcInternalsStatsSeries>): StatsSnapshot[] {
+    const statsValues: W3C.StatsValue[] = [];
+
+    for (const [ statsId, series ] of groupSeriesByStatsId(stats)) {
+        const timestamps = getTimestamps(series);
+
+        for (let index = 0; index < timestamps.length; ++index) {
+            const statsValue: Record<string, unknown> = {
+                id: statsId,
+                type: series.type,
+                timestamp: timestamps[index],
+            };
+            for (const [ metricName, values ] of series.metrics) {
+                if (metricName === 'timestamp') continue;
+                // series of metrics appeared later are shorter, they are aligned to the end
+                const valueIndex = index - (timestamps.length - values.length);
+                if (valueIndex < 0 || values.length <= valueIndex) continue;
+                statsValue[metricName] = parseValue(values[valueIndex]);
+            }
+            statsValues.push(statsValue as W3C.StatsValue);
+        }
+    }
+    statsValues.sort((a, b) => a.timestamp - b.timestamp);
+
+    const result: StatsSnapshot[] = [];
+    let snapshotIds = new Set<string>();
+    for (const statsValue of statsValues) {
+        const snapshot = result[result.length - 1] as StatsSnapshot | undefined;
+        if (!snapshot || SNAPSHOT_TOLERANCE_IN_MS < statsValue.timestamp - snapshot.timestamp || snapshotIds.has(statsValue.id)) {
+            result.push({ timestamp: statsValue.timestamp, stats: [ statsValue ] });
+            snapshotIds = new Set([ statsValue.id ]);
+            continue;
+        }
+        snapshot.stats.push(statsValue);
+        snapshotIds.add(statsValue.id);
+    }
+    return result;
+}
+
+/**
+ * Parses a chrome://webrtc-internals dump to stats snapshots per peer connection.
+ *
+ * @param dump the content of the dump file, or the parsed JSON object
+ */
+export function parseWebRtcInternalsDump(dump: string | WebRtcInternalsDump): WebRtcInternalsPeerConnectionSnapshots[] {
+    const parsedDump: WebRtcInternalsDump = typeof dump === 'string' ? JSON.parse(dump) : dump;
+    if (!parsedDump || typeof parsedDump !== 'object' || typeof parsedDump.PeerConnections !== 'object') {
+        throw new Error('Invalid webrtc-internals dump, PeerConnections is missing');
+    }
+    const result: WebRtcInternalsPeerConnectionSnapshots[] = [];
+
+    for (const [ peerConnectionId, peerConnection ] of Object.entries(parsedDump.PeerConnections)) {
+        const snapshots = createStatsSnapshots(peerConnection?.stats ?? {});
+        if (snapshots.length < 1) {
+            logger.debug(`Peer connection ${peerConnectionId} has no stats in the dump`);
+            continue;
+        }
+        result.push({
+            peerConnectionId,
+            snapshots,
+        });
+    }
+    return result;
+}
+
+/**
+ * Converts a chrome://webrtc-internals dump to stats records,
+ * which can be replayed by ClientMonitor.replayStatsDump().
+ *
+ * Every record contains the peer connections having stats at the time of the record.
+ */
+export function convertWebRtcInternalsDump(dump: string | WebRtcInternalsDump): StatsDumpStatsRecord[] {
+    const peerConnections = parseWebRtcInternalsDump(dump);
+    const timeline = peerConnections
+        .flatMap(({ peerConnectionId, snapshots }) => snapshots.map((snapshot) => ({ peerConnectionId, snapshot })))
+        .sort((a, b) => a.snapshot.timestamp - b.snapshot.timestamp);
+    const lastTimestamps = new Map(peerConnections.map(({ peerConnectionId, snapshots }) => [
+        peerConnectionId,
+        snapshots[snapshots.length - 1].timestamp,
+    ]));
+    const records: StatsDumpStatsRecord[] = [];
+    const actualSnapshots = new Map<string, StatsSnapshot>();
+
+    const flush = () => {
+        const record = records[records.length - 1];
+        if (!record) return;
+        for (const [ peerConnectionId, snapshot ] of actualSnapshots) {
+            record.peerConnections.push({ peerConnectionId, stats: snapshot.stats });
+            // a peer connection is removed from the following records after its last snapshot
+            if (lastTimestamps.get(peerConnectionId) === snapshot.timestamp) actualSnapshots.delete(peerConnectionId);
+        }
+    };
+
+    for (const { peerConnectionId, snapshot } of timeline) {
+        const record = records[records.length - 1];
+        if (!record || SNAPSHOT_TOLERANCE_IN_MS < snapshot.timestamp - record.timestamp) {
+            flush();
+            records.push({ type: 'stats', timestamp: snapshot.timestamp, peerConnections: [] });
+        }
+        actualSnapshots.set(peerConnectionId, snapshot);
+    }
+    flush();
+
+    return records;
+}
+
+/**
+ * Creates a StatsStorage from a chrome://webrtc-internals dump.
+ * Every dumped peer connection is added to the storage, and updated with its stats in the order and at the time they were collected.
+ */
+export function createStatsStorageFromWebRtcInternalsDump(dump: string | WebRtcInternalsDump, storage = new StatsStorage()): StatsStorage {
+    for (const record of convertWebRtcInternalsDump(dump)) {
+        for (const { peerConnectionId } of record.peerConnections) {
+            if (storage.getPeerConnection(peerConnectionId)) continue;
+            storage.addPeerConnection(peerConnectionId);
+        }
+        storage.update(record.peerConnections.map(({ peerConnectionId, stats }) => ({
+            peerConnectionId,
+            statsMap: createStatsMap(stats),
+        })), record.timestamp);
+    }
+    return storage;
+}
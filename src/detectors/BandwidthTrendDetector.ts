@@ -0,0 +1,242 @@
+import { EventEmitter } from "events";
+import { AlertState } from "../ClientMonitor";
+import { PeerConnectionEntry } from "../entries/StatsEntryInterfaces";
+import { calculateSlope, HistoryPoint } from "../entries/StatsHistory";
+import { Detector } from "./Detector";
+
+/**
+ * The direction of the available bitrate estimated on the selected candidate pair
+ *  - outgoing: availableOutgoingBitrate, the bandwidth estimation of the sender
+ *  - incoming: availableIncomingBitrate, the bandwidth estimation of the receiver
+ */
+export type BandwidthDirection = 'outgoing' | 'incoming';
+
+export type BandwidthTrendDetectorConfig = {
+	/**
+	 * The time window in milliseconds the trend of the available bitrate is fitted on
+	 */
+	windowInMs: number,
+	/**
+	 * The minimum number of available bitrates in the window the trend is fitted on
+	 */
+	minSamples: number,
+	/**
+	 * The decrease of the fitted available bitrate over the window relative to its value at the start of the window,
+	 * at or above which the bandwidth is degrading (the warning ends when it falls below the half of it)
+	 */
+	minDecreaseRatio: number,
+}
+
+export type BandwidthTrend = {
+	direction: BandwidthDirection,
+	/**
+	 * The last available bitrate in bits per second
+	 */
+	availableBitrate: number,
+	/**
+	 * The change of the fitted available bitrate in bits per second per second
+	 */
+	slope: number,
+	/**
+	 * The decrease of the fitted available bitrate over the window relative to its value at the start of the window,
+	 * negative if the available bitrate is increasing
+	 */
+	decreaseRatio: number,
+}
+
+export type BandwidthDegradingEvent = BandwidthTrend & {
+	peerConnectionId: string,
+	/**
+	 * The highest total available bitrate of the peer connections seen by the storage in the given direction
+	 */
+	highestSeenAvailableBitrate?: number,
+}
+
+export type BandwidthStabilizedEvent = BandwidthDegradingEvent & {
+	durationInS: number,
+}
+
+export type BandwidthTrendDetectorEvents = {
+	'alert-state': [AlertState],
+	'bandwidth-degrading': [BandwidthDegradingEvent],
+	'bandwidth-stabilized': [BandwidthStabilizedEvent],
+	close: [],
+}
+
+type DirectionTrace = {
+	points: HistoryPoint[],
+	trend?: BandwidthTrend,
+	degrading?: {
+		since: number,
+		event: BandwidthDegradingEvent,
+	},
+}
+
+type BandwidthTrace = {
+	visited: boolean,
+	directions: Record<BandwidthDirection, DirectionTrace>,
+}
+
+export declare interface BandwidthTrendDetector extends Detector {
+	on<K extends keyof BandwidthTrendDetectorEvents>(event: K, listener: (...events: BandwidthTrendDetectorEvents[K]) => void): this;
+	off<K extends keyof BandwidthTrendDetectorEvents>(event: K, listener: (...events: BandwidthTrendDetectorEvents[K]) => void): this;
+	once<K extends keyof BandwidthTrendDetectorEvents>(event: K, listener: (...events: BandwidthTrendDetectorEvents[K]) => void): this;
+	emit<K extends keyof BandwidthTrendDetectorEvents>(event: K, ...events: BandwidthTrendDetectorEvents[K]): boolean;
+}
+
+/**
+ * Fits the trend of the available outgoing and incoming bitrates of the selected candidate pairs,
+ * and warns when the estimated bandwidth of a peer connection is steadily decreasing,
+ * before the encoder is limited by the bandwidth (the outgoing warning is not started while it is limited).
+ *
+ * The alert is on while the bandwidth of any peer connection is degrading.
+ */
+export class BandwidthTrendDetector extends EventEmitter {
+	private _closed = false;
+	private _degradingBandwidths = 0;
+	private readonly _traces = new Map<string, BandwidthTrace>();
+
+	public constructor(
+		public readonly config: BandwidthTrendDetectorConfig,
+	) {
+		super();
+		this.setMaxListeners(Infinity);
+	}
+
+	public get closed() {
+		return this._closed;
+	}
+
+	public close() {
+		if (this._closed) return;
+		this._closed = true;
+
+		this._traces.clear();
+		this.emit('close');
+	}
+
+	/**
+	 * The trend of the available bitrate of the peer connection fitted at the last update,
+	 * undefined if not enough available bitrates are collected in the window
+	 */
+	public getTrend(peerConnectionId: string, direction: BandwidthDirection): BandwidthTrend | undefined {
+		return this._traces.get(peerConnectionId)?.directions[direction].trend;
+	}
+
+	/**
+	 * @param highestSeenAvailableBitrates the highest available bitrates seen by the storage (highestSeenAvailableOutgoingBitrate, highestSeenAvailableIncomingBitrate)
+	 * @param now the time the stats are collected at
+	 */
+	public update(peerConnections: IterableIterator<PeerConnectionEntry>, highestSeenAvailableBitrates?: Partial<Record<BandwidthDirection, number>>, now = Date.now()) {
+
+		for (const peerConnection of peerConnections) {
+			const { peerConnectionId } = peerConnection;
+			let trace = this._traces.get(peerConnectionId);
+			if (!trace) {
+				trace = {
+					visited: true,
+					directions: {
+						outgoing: { points: [] },
+						incoming: { points: [] },
+					},
+				};
+				this._traces.set(peerConnectionId, trace);
+			}
+			trace.visited = true;
+
+			const selectedCandidatePair = peerConnection.getSelectedIceCandidatePair()?.stats;
+			const availableBitrates: Record<BandwidthDirection, number | undefined> = {
+				outgoing: selectedCandidatePair?.availableOutgoingBitrate,
+				incoming: selectedCandidatePair?.availableIncomingBitrate,
+			};
+			const limitedByBandwidth = Array.from(peerConnection.outboundRtps()).some(outboundRtp => outboundRtp.stats.qualityLimitationReason === 'bandwidth');
+
+			for (const direction of [ 'outgoing', 'incoming' ] as BandwidthDirection[]) {
+				const directionTrace = trace.directions[direction];
+				const availableBitrate = availableBitrates[direction];
+
+				if (availableBitrate !== undefined && Number.isFinite(availableBitrate)) {
+					directionTrace.points.push({ timestamp: now, value: availableBitrate });
+				}
+				directionTrace.points = directionTrace.points.filter(point => now - this.config.windowInMs <= point.timestamp);
+				directionTrace.trend = this._fitTrend(direction, directionTrace.points);
+
+				const { trend, degrading } = directionTrace;
+				if (!trend) {
+					// the available bitrate is not collected anymore in the window, the degradation cannot be followed
+					this._end(directionTrace, now);
+					continue;
+				}
+
+				if (degrading && trend.decreaseRatio < this.config.minDecreaseRatio / 2) {
+					this._end(directionTrace, now);
+				} else if (!degrading && this.config.minDecreaseRatio <= trend.decreaseRatio && !(direction === 'outgoing' && limitedByBandwidth)) {
+					directionTrace.degrading = {
+						since: now,
+						event: {
+							...trend,
+							peerConnectionId,
+							highestSeenAvailableBitrate: highestSeenAvailableBitrates?.[direction],
+						},
+					};
+					this.emit('bandwidth-degrading', directionTrace.degrading.event);
+					this._setDegradingBandwidths(this._degradingBandwidths + 1);
+				}
+			}
+		}
+
+		for (const [ peerConnectionId, trace ] of Array.from(this._traces)) {
+			if (trace.visited) {
+				trace.visited = false;
+				continue;
+			}
+			this._end(trace.directions.outgoing, now);
+			this._end(trace.directions.incoming, now);
+			this._traces.delete(peerConnectionId);
+		}
+	}
+
+	private _fitTrend(direction: BandwidthDirection, points: HistoryPoint[]): BandwidthTrend | undefined {
+		if (points.length < Math.max(2, this.config.minSamples)) return;
+
+		const slope = calculateSlope(points);
+		if (slope === undefined) return;
+
+		const first = points[0];
+		const last = points[points.length - 1];
+		const meanTimestamp = points.reduce((acc, point) => acc + point.timestamp, 0) / points.length;
+		const meanValue = points.reduce((acc, point) => acc + point.value, 0) / points.length;
+		const fittedStart = meanValue - slope * (meanTimestamp - first.timestamp) / 1000;
+		const fittedEnd = meanValue + slope * (last.timestamp - meanTimestamp) / 1000;
+
+		return {
+			direction,
+			availableBitrate: last.value,
+			slope,
+			decreaseRatio: 0 < fittedStart ? (fittedStart - fittedEnd) / fittedStart : 0,
+		};
+	}
+
+	private _end(directionTrace: DirectionTrace, now: number) {
+		const { degrading } = directionTrace;
+		if (!degrading) return;
+
+		directionTrace.degrading = undefined;
+		this.emit('bandwidth-stabilized', {
+			...degrading.event,
+			...directionTrace.trend,
+			durationInS: (now - degrading.since) / 1000,
+		});
+		this._setDegradingBandwidths(this._degradingBandwidths - 1);
+	}
+
+	private _setDegradingBandwidths(value: number) {
+		const wasAlert = 0 < this._degradingBandwidths;
+		this._degradingBandwidths = value;
+		const isAlert = 0 < this._degradingBandwidths;
+
+		if (wasAlert !== isAlert) {
+			this.emit('alert-state', isAlert ? 'on' : 'off');
+		}
+	}
+}
@@ -0,0 +1,293 @@
+import { EventEmitter } from "events";
+import { PeerConnectionEntry } from "../entries/StatsEntryInterfaces";
+import { StatsStorage } from "../entries/StatsStorage";
+import { AlertState } from "../ClientMonitor";
+import { Detector } from "./Detector";
+
+export type ConnectionFlappingDetectorConfig = {
+	/**
+	 * The length of the sliding window in milliseconds the cycles, ICE restarts and disconnections are counted in
+	 */
+	windowInMs: number,
+	/**
+	 * The number of connected -> disconnected -> connected cycles in the window at or above which the connection is flapping
+	 */
+	maxCycles: number,
+	/**
+	 * The number of ICE restarts in the window at or above which the connection is flapping
+	 */
+	maxIceRestarts: number,
+	/**
+	 * The number of changes of the selected candidate pair in the window at or above which the connection is flapping
+	 *
+	 * DEFAULT: undefined, only the ICE restarts (including the changes of the candidate pair) are checked
+	 */
+	maxCandidatePairChanges?: number,
+}
+
+export type ConnectionFlappingStats = {
+	peerConnectionId: string,
+	/**
+	 * The number of connected -> disconnected -> connected cycles in the window
+	 */
+	cycles: number,
+	/**
+	 * The number of changes of the selected candidate pair or the local ICE username fragment in the window
+	 */
+	iceRestarts: number,
+	/**
+	 * The number of changes of the selected candidate pair in the window
+	 */
+	candidatePairChanges: number,
+	/**
+	 * The time spent disconnected (or failed) in the window
+	 */
+	disconnectedInMs: number,
+	windowInMs: number,
+}
+
+export type IceRestartEvent = {
+	peerConnectionId: string,
+	previousCandidatePairId?: string,
+	candidatePairId?: string,
+	previousUsernameFragment?: string,
+	usernameFragment?: string,
+}
+
+export type ConnectionFlappingDetectorEvents = {
+	'alert-state': [AlertState],
+	'ice-restart': [IceRestartEvent],
+	'flapping-started': [ConnectionFlappingStats],
+	'flapping-ended': [ConnectionFlappingStats],
+	close: [],
+}
+
+type Disconnection = {
+	startedAt: number,
+	endedAt?: number,
+}
+
+type ConnectionTrace = {
+	visited: boolean,
+	wasConnected: boolean,
+	/**
+	 * The connection states set since the last update, the transitions are recorded at the time of the update
+	 */
+	pendingStates: PeerConnectionEntry['connectionState'][],
+	cycles: number[],
+	iceRestarts: number[],
+	candidatePairChanges: number[],
+	disconnections: Disconnection[],
+	candidatePairId?: string,
+	usernameFragment?: string,
+	flapping: boolean,
+	listener: () => void,
+}
+
+export declare interface ConnectionFlappingDetector extends Detector {
+	on<K extends keyof ConnectionFlappingDetectorEvents>(event: K, listener: (...events: ConnectionFlappingDetectorEvents[K]) => void): this;
+	off<K extends keyof ConnectionFlappingDetectorEvents>(event: K, listener: (...events: ConnectionFlappingDetectorEvents[K]) => void): this;
+	once<K extends keyof ConnectionFlappingDetectorEvents>(event: K, listener: (...events: ConnectionFlappingDetectorEvents[K]) => void): this;
+	emit<K extends keyof ConnectionFlappingDetectorEvents>(event: K, ...events: ConnectionFlappingDetectorEvents[K]): boolean;
+}
+
+/**
+ * Counts the connected -> disconnected -> connected cycles, the ICE restarts and the time spent disconnected
+ * of the peer connections in a sliding window, and detects flapping connections.
+ */
+export class ConnectionFlappingDetector extends EventEmitter {
+	private _closed = false;
+	private _flappingConnections = 0;
+	private readonly _traces = new Map<string, ConnectionTrace>();
+	private readonly _destroyCb: () => void;
+
+	public constructor(
+		public readonly config: ConnectionFlappingDetectorConfig,
+		storage: StatsStorage,
+	) {
+		super();
+		this.setMaxListeners(Infinity);
+
+		const onPeerConnectionAdded = (peerConnectionEntry: PeerConnectionEntry) => {
+			const trace: ConnectionTrace = {
+				visited: false,
+				wasConnected: peerConnectionEntry.connectionState === 'connected',
+				pendingStates: [],
+				cycles: [],
+				iceRestarts: [],
+				candidatePairChanges: [],
+				disconnections: [],
+				flapping: false,
+				listener: () => trace.pendingStates.push(peerConnectionEntry.connectionState),
+			};
+			this._traces.set(peerConnectionEntry.peerConnectionId, trace);
+			peerConnectionEntry.events.on('state-updated', trace.listener);
+		};
+
+		// the trace of the removed peer connection is removed (and its flapping is ended) at the next update
+		const onPeerConnectionRemoved = (peerConnectionEntry: PeerConnectionEntry) => {
+			const trace = this._traces.get(peerConnectionEntry.peerConnectionId);
+			if (!trace) return;
+
+			peerConnectionEntry.events.off('state-updated', trace.listener);
+		};
+
+		this._destroyCb = () => {
+			storage.events.off('peer-connection-added', onPeerConnectionAdded);
+			storage.events.off('peer-connection-removed', onPeerConnectionRemoved);
+
+			for (const [ peerConnectionId, trace ] of this._traces) {
+				storage.getPeerConnection(peerConnectionId)?.events.off('state-updated', trace.listener);
+			}
+			this._traces.clear();
+		};
+
+		storage.events.on('peer-connection-added', onPeerConnectionAdded);
+		storage.events.on('peer-connection-removed', onPeerConnectionRemoved);
+
+		for (const peerConnectionEntry of storage.peerConnections()) {
+			onPeerConnectionAdded(peerConnectionEntry);
+		}
+	}
+
+	public get closed() {
+		return this._closed;
+	}
+
+	public close() {
+		if (this._closed) return;
+		this._closed = true;
+
+		this._destroyCb();
+		this.emit('close');
+	}
+
+	/**
+	 * Gives the number of cycles, ICE restarts, candidate pair changes and the time spent disconnected in the actual window
+	 */
+	public getStats(peerConnectionId: string, now = Date.now()): ConnectionFlappingStats | undefined {
+		const trace = this._traces.get(peerConnectionId);
+		if (!trace) return;
+
+		const windowStartedAt = now - this.config.windowInMs;
+		const disconnectedInMs = trace.disconnections.reduce((acc, { startedAt, endedAt }) =>
+			acc + Math.max(0, (endedAt ?? now) - Math.max(startedAt, windowStartedAt)), 0);
+
+		return {
+			peerConnectionId,
+			cycles: trace.cycles.filter(timestamp => windowStartedAt < timestamp).length,
+			iceRestarts: trace.iceRestarts.filter(timestamp => windowStartedAt < timestamp).length,
+			candidatePairChanges: trace.candidatePairChanges.filter(timestamp => windowStartedAt < timestamp).length,
+			disconnectedInMs,
+			windowInMs: this.config.windowInMs,
+		};
+	}
+
+	public update(peerConnections: IterableIterator<PeerConnectionEntry>, now = Date.now()) {
+		const windowStartedAt = now - this.config.windowInMs;
+
+		for (const peerConnection of peerConnections) {
+			const trace = this._traces.get(peerConnection.peerConnectionId);
+			if (!trace) continue;
+
+			trace.visited = true;
+			this._updateConnectionStates(trace, now);
+			this._checkIceRestart(peerConnection, trace, now);
+
+			trace.cycles = trace.cycles.filter(timestamp => windowStartedAt < timestamp);
+			trace.iceRestarts = trace.iceRestarts.filter(timestamp => windowStartedAt < timestamp);
+			trace.candidatePairChanges = trace.candidatePairChanges.filter(timestamp => windowStartedAt < timestamp);
+			trace.disconnections = trace.disconnections.filter(({ endedAt }) => endedAt === undefined || windowStartedAt < endedAt);
+
+			const stats = this.getStats(peerConnection.peerConnectionId, now);
+			if (!stats) continue;
+
+			const flapping = this.config.maxCycles <= stats.cycles ||
+				this.config.maxIceRestarts <= stats.iceRestarts ||
+				(this.config.maxCandidatePairChanges ?? Infinity) <= stats.candidatePairChanges;
+			if (flapping === trace.flapping) continue;
+
+			trace.flapping = flapping;
+			if (flapping) {
+				this.emit('flapping-started', stats);
+				this._setFlappingConnections(this._flappingConnections + 1);
+			} else {
+				this.emit('flapping-ended', stats);
+				this._setFlappingConnections(this._flappingConnections - 1);
+			}
+		}
+
+		for (const [ peerConnectionId, trace ] of Array.from(this._traces)) {
+			if (trace.visited) {
+				trace.visited = false;
+				continue;
+			}
+			const stats = this.getStats(peerConnectionId, now);
+			this._traces.delete(peerConnectionId);
+			if (!trace.flapping || !stats) continue;
+
+			this.emit('flapping-ended', stats);
+			this._setFlappingConnections(this._flappingConnections - 1);
+		}
+	}
+
+	private _updateConnectionStates(trace: ConnectionTrace, now: number) {
+		for (const connectionState of trace.pendingStates) {
+			const lastDisconnection = trace.disconnections[trace.disconnections.length - 1];
+			const disconnected = lastDisconnection !== undefined && lastDisconnection.endedAt === undefined;
+
+			switch (connectionState) {
+				case 'connected':
+					if (disconnected) {
+						lastDisconnection.endedAt = now;
+						trace.cycles.push(now);
+					}
+					trace.wasConnected = true;
+					break;
+				case 'disconnected':
+				case 'failed':
+					if (trace.wasConnected && !disconnected) {
+						trace.disconnections.push({ startedAt: now });
+					}
+					break;
+				case 'closed':
+					if (disconnected) lastDisconnection.endedAt = now;
+					break;
+			}
+		}
+		trace.pendingStates = [];
+	}
+
+	private _checkIceRestart(peerConnection: PeerConnectionEntry, trace: ConnectionTrace, now: number) {
+		const selectedCandidatePair = peerConnection.getSelectedIceCandidatePair();
+		const candidatePairId = selectedCandidatePair?.statsId;
+		const usernameFragment = selectedCandidatePair?.getTransport()?.stats.iceLocalUsernameFragment;
+
+		const candidatePairChanged = candidatePairId !== undefined && trace.candidatePairId !== undefined && candidatePairId !== trace.candidatePairId;
+		const usernameFragmentChanged = usernameFragment !== undefined && trace.usernameFragment !== undefined && usernameFragment !== trace.usernameFragment;
+
+		if (candidatePairChanged) trace.candidatePairChanges.push(now);
+		if (candidatePairChanged || usernameFragmentChanged) {
+			trace.iceRestarts.push(now);
+			this.emit('ice-restart', {
+				peerConnectionId: peerConnection.peerConnectionId,
+				previousCandidatePairId: trace.candidatePairId,
+				candidatePairId,
+				previousUsernameFragment: trace.usernameFragment,
+				usernameFragment,
+			});
+		}
+		trace.candidatePairId = candidatePairId ?? trace.candidatePairId;
+		trace.usernameFragment = usernameFragment ?? trace.usernameFragment;
+	}
+
+	private _setFlappingConnections(value: number) {
+		const wasAlert = 0 < this._flappingConnections;
+		this._flappingConnections = value;
+		const isAlert = 0 < this._flappingConnections;
+
+		if (wasAlert !== isAlert) {
+			this.emit('alert-state', isAlert ? 'on' : 'off');
+		}
+	}
+}
@@ -0,0 +1,207 @@
+import { EventEmitter } from "events";
+import { AlertState } from "../ClientMonitor";
+import { MediaSourceEntry } from "../entries/StatsEntryInterfaces";
+import { Detector } from "./Detector";
+
+/**
+ * The reason the microphone is considered dead
+ *  - silent-input: the audio level and the total audio energy of the captured audio stay at zero
+ *  - muted-track: the track is muted by the browser, because the source does not provide any data
+ */
+export type DeadMicrophoneCause = 'silent-input' | 'muted-track';
+
+export type DeadMicrophoneDetectorConfig = {
+	/**
+	 * The minimum duration in milliseconds the microphone must capture no audio before it is reported
+	 */
+	minDurationInMs: number,
+}
+
+/**
+ * The state of a local audio track not available in the stats
+ */
+export type LocalAudioTrackState = {
+	/**
+	 * The muted property of the MediaStreamTrack (the source does not provide data)
+	 */
+	muted?: boolean,
+	/**
+	 * The enabled property of the MediaStreamTrack, a disabled track is muted by the application
+	 */
+	enabled?: boolean,
+	deviceId?: string,
+	deviceLabel?: string,
+}
+
+export type DeadMicrophoneStartedEvent = {
+	peerConnectionId: string,
+	trackId: string,
+	cause: DeadMicrophoneCause,
+	deviceId?: string,
+	deviceLabel?: string,
+}
+
+export type DeadMicrophoneEndedEvent = DeadMicrophoneStartedEvent & {
+	durationInS: number,
+}
+
+export type DeadMicrophoneDetectorEvents = {
+	'alert-state': [AlertState],
+	'dead-microphone-started': [DeadMicrophoneStartedEvent],
+	'dead-microphone-ended': [DeadMicrophoneEndedEvent],
+	close: [],
+}
+
+type MicrophoneTrace = {
+	visited: boolean,
+	peerConnectionId: string,
+	totalAudioEnergy?: number,
+	cause?: DeadMicrophoneCause,
+	since: number,
+	reported: boolean,
+}
+
+export declare interface DeadMicrophoneDetector extends Detector {
+	on<K extends keyof DeadMicrophoneDetectorEvents>(event: K, listener: (...events: DeadMicrophoneDetectorEvents[K]) => void): this;
+	off<K extends keyof DeadMicrophoneDetectorEvents>(event: K, listener: (...events: DeadMicrophoneDetectorEvents[K]) => void): this;
+	once<K extends keyof DeadMicrophoneDetectorEvents>(event: K, listener: (...events: DeadMicrophoneDetectorEvents[K]) => void): this;
+	emit<K extends keyof DeadMicrophoneDetectorEvents>(event: K, ...events: DeadMicrophoneDetectorEvents[K]): boolean;
+}
+
+/**
+ * Detects local microphones selected and not muted by the application, but capturing no audio
+ * (the audio media sources stay at zero level or the tracks are muted by the browser),
+ * so the user believes they are talking but nobody hears them.
+ */
+export class DeadMicrophoneDetector extends EventEmitter {
+	private _closed = false;
+	private _deadMicrophones = 0;
+	private readonly _traces = new Map<string, MicrophoneTrace>();
+	private readonly _localTracks = new Map<string, LocalAudioTrackState>();
+
+	public constructor(
+		public readonly config: DeadMicrophoneDetectorConfig,
+	) {
+		super();
+		this.setMaxListeners(Infinity);
+	}
+
+	public get closed() {
+		return this._closed;
+	}
+
+	public close() {
+		if (this._closed) return;
+		this._closed = true;
+
+		this._traces.clear();
+		this._localTracks.clear();
+		this.emit('close');
+	}
+
+	/**
+	 * Updates the state of the given local audio track, the given properties are merged into the actual state.
+	 *
+	 * @param state the changed properties of the track, or undefined to remove it
+	 */
+	public setLocalTrackState(trackId: string, state?: LocalAudioTrackState) {
+		if (state) this._localTracks.set(trackId, { ...this._localTracks.get(trackId), ...state });
+		else this._localTracks.delete(trackId);
+	}
+
+	public update(mediaSources: IterableIterator<MediaSourceEntry>, now = Date.now()) {
+
+		for (const mediaSource of mediaSources) {
+			const { stats } = mediaSource;
+			const trackId = stats.trackIdentifier;
+			const peerConnectionId = mediaSource.getPeerConnection()?.peerConnectionId;
+			if (stats.kind !== 'audio' || !trackId || !peerConnectionId) {
+				continue;
+			}
+
+			let trace = this._traces.get(trackId);
+			if (!trace) {
+				trace = {
+					visited: true,
+					peerConnectionId,
+					totalAudioEnergy: stats.totalAudioEnergy,
+					since: now,
+					reported: false,
+				};
+				this._traces.set(trackId, trace);
+			}
+			trace.visited = true;
+
+			const localTrack = this._localTracks.get(trackId);
+			const silent = (stats.audioLevel !== undefined || stats.totalAudioEnergy !== undefined) &&
+				(stats.audioLevel ?? 0) <= 0 &&
+				(stats.totalAudioEnergy ?? 0) <= (trace.totalAudioEnergy ?? 0);
+			trace.totalAudioEnergy = stats.totalAudioEnergy;
+
+			let cause: DeadMicrophoneCause | undefined;
+			if (localTrack?.enabled === false) {
+				// muted by the application, the user knows nobody hears them
+				cause = undefined;
+			} else if (localTrack?.muted) {
+				cause = 'muted-track';
+			} else if (silent) {
+				cause = 'silent-input';
+			}
+
+			if (trace.cause !== cause) {
+				this._end(trackId, trace, now);
+				trace.cause = cause;
+				trace.since = now;
+			}
+
+			if (!trace.cause || trace.reported || now - trace.since < this.config.minDurationInMs) {
+				continue;
+			}
+
+			trace.reported = true;
+			this.emit('dead-microphone-started', {
+				peerConnectionId,
+				trackId,
+				cause: trace.cause,
+				deviceId: localTrack?.deviceId,
+				deviceLabel: localTrack?.deviceLabel,
+			});
+			this._setDeadMicrophones(this._deadMicrophones + 1);
+		}
+
+		for (const [ trackId, trace ] of Array.from(this._traces)) {
+			if (trace.visited) {
+				trace.visited = false;
+				continue;
+			}
+			this._end(trackId, trace, now);
+			this._traces.delete(trackId);
+		}
+	}
+
+	private _end(trackId: string, trace: MicrophoneTrace, now: number) {
+		if (!trace.reported || !trace.cause) return;
+
+		const localTrack = this._localTracks.get(trackId);
+		trace.reported = false;
+		this.emit('dead-microphone-ended', {
+			peerConnectionId: trace.peerConnectionId,
+			trackId,
+			cause: trace.cause,
+			deviceId: localTrack?.deviceId,
+			deviceLabel: localTrack?.deviceLabel,
+			durationInS: (now - trace.since) / 1000,
+		});
+		this._setDeadMicrophones(this._deadMicrophones - 1);
+	}
+
+	private _setDeadMicrophones(value: number) {
+		const wasAlert = 0 < this._deadMicrophones;
+		this._deadMicrophones = value;
+		const isAlert = 0 < this._deadMicrophones;
+
+		if (wasAlert !== isAlert) {
+			this.emit('alert-state', isAlert ? 'on' : 'off');
+		}
+	}
+}
@@ -1,4 +1,5 @@
-import { AlertState } from "../ClientMonitor";
+import { AlertState, ClientIssue } from "../ClientMonitor";
+import { StatsStorage } from "../entries/StatsStorage";
 
 export interface Detector {
     readonly closed: boolean;
@@ -6,4 +7,50 @@ export interface Detector {
     on(event: 'alert-state', listener: (state: AlertState) => void): this;
     off(event: 'alert-state', listener: (state: AlertState) => void): this;
     close(): void;
-}
\ No newline at end of file
+}
+
+/**
+ * An issue detected by a custom detector.
+ * The severity is taken from the createIssueOnDetection setting the detector was added with.
+ */
+export type DetectedIssue = Omit<ClientIssue, 'severity'>;
+
+/**
+ * Given to the custom detector in every update
+ */
+export type DetectorContext = {
+    /**
+     * The storage updated with the collected stats
+     */
+    readonly storage: StatsStorage,
+    /**
+     * The time the stats are collected at, the time the stats were recorded at if a dump is replayed
+     */
+    readonly timestamp: number,
+    readonly durationOfCollectingStatsInMs: number,
+    readonly elapsedSinceLastCollectedInMs: number,
+
+    /**
+     * Adds an issue to the monitor the same way the built-in detectors do:
+     * the issue is added only if the detector was added with createIssueOnDetection,
+     * and the severity, the default description and the additional attachments are taken from there.
+     *
+     * @returns true if the issue is added to the monitor
+     */
+    createIssue(issue: DetectedIssue): boolean,
+}
+
+/**
+ * A detector added to the monitor by ClientMonitor.addDetector().
+ *
+ * Lifecycle:
+ *  - the detector is registered by its name, a detector already added with the same name is closed and replaced
+ *  - update() is called after every stats-collected event of the monitor
+ *  - close() is called when the detector is removed by ClientMonitor.removeDetector() or the monitor is closed,
+ *    update() is not called after that.
+ */
+export interface CustomDetector {
+    readonly name: string;
+    update(context: DetectorContext): void;
+    close?(): void;
+}
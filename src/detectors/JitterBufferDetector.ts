@@ -0,0 +1,180 @@
+import { EventEmitter } from "events";
+import { AlertState } from "../ClientMonitor";
+import { TrackStats } from "../entries/StatsEntryInterfaces";
+import { Detector } from "./Detector";
+
+/**
+ * The problem of the jitter buffer of an inbound track
+ *  - high-delay: the jitter buffer delay is above the conversational threshold
+ *  - oscillation: the jitter buffer delay repeatedly grows and shrinks
+ */
+export type JitterBufferProblem = 'high-delay' | 'oscillation';
+
+export type JitterBufferDetectorConfig = {
+	/**
+	 * The jitter buffer delay in milliseconds above which the delay is considered too high for a conversation
+	 */
+	maxJitterBufferDelayInMs: number,
+	/**
+	 * The number of the last collections the oscillation is measured in
+	 */
+	oscillationWindowSize: number,
+	/**
+	 * The minimum change of the jitter buffer delay in milliseconds between two collections counted as a swing
+	 */
+	minOscillationAmplitudeInMs: number,
+	/**
+	 * The minimum number of swings changing direction in the window to consider the jitter buffer oscillating
+	 */
+	minOscillations: number,
+}
+
+export type JitterBufferEvent = {
+	peerConnectionId: string,
+	trackId: string,
+	kind: TrackStats['kind'],
+	problem: JitterBufferProblem,
+	jitterBufferDelayInMs: number,
+	jitterBufferTargetDelayInMs?: number,
+	jitterBufferMinimumDelayInMs?: number,
+	estimatedLatencyInMs?: number,
+}
+
+export type JitterBufferDetectorEvents = {
+	'alert-state': [AlertState],
+	'jitter-buffer-problem-started': [JitterBufferEvent],
+	'jitter-buffer-problem-ended': [JitterBufferEvent],
+	close: [],
+}
+
+type JitterBufferTrace = {
+	visited: boolean,
+	delays: number[],
+	/**
+	 * The events the ongoing problems are started with
+	 */
+	problems: Map<JitterBufferProblem, JitterBufferEvent>,
+}
+
+function countOscillations(delays: number[], minAmplitude: number): number {
+	let result = 0;
+	let lastDirection = 0;
+	for (let index = 1; index < delays.length; ++index) {
+		const change = delays[index] - delays[index - 1];
+		if (Math.abs(change) < minAmplitude) continue;
+		const direction = Math.sign(change);
+		if (lastDirection !== 0 && direction !== lastDirection) ++result;
+		lastDirection = direction;
+	}
+	return result;
+}
+
+export declare interface JitterBufferDetector extends Detector {
+	on<K extends keyof JitterBufferDetectorEvents>(event: K, listener: (...events: JitterBufferDetectorEvents[K]) => void): this;
+	off<K extends keyof JitterBufferDetectorEvents>(event: K, listener: (...events: JitterBufferDetectorEvents[K]) => void): this;
+	once<K extends keyof JitterBufferDetectorEvents>(event: K, listener: (...events: JitterBufferDetectorEvents[K]) => void): this;
+	emit<K extends keyof JitterBufferDetectorEvents>(event: K, ...events: JitterBufferDetectorEvents[K]): boolean;
+}
+
+/**
+ * Detects inbound tracks the jitter buffer delay of is too high for a conversation or oscillates
+ */
+export class JitterBufferDetector extends EventEmitter {
+	private _closed = false;
+	private _problems = 0;
+	private readonly _traces = new Map<string, JitterBufferTrace>();
+
+	public constructor(
+		public readonly config: JitterBufferDetectorConfig,
+	) {
+		super();
+		this.setMaxListeners(Infinity);
+	}
+
+	public get closed() {
+		return this._closed;
+	}
+
+	public close() {
+		if (this._closed) return;
+		this._closed = true;
+
+		this._traces.clear();
+		this.emit('close');
+	}
+
+	public update(tracks: IterableIterator<TrackStats>) {
+		for (const track of tracks) {
+			if (track.direction !== 'inbound') continue;
+
+			let trace = this._traces.get(track.trackId);
+			if (!trace) {
+				trace = {
+					visited: true,
+					delays: [],
+					problems: new Map(),
+				};
+				this._traces.set(track.trackId, trace);
+			}
+			trace.visited = true;
+			// the delay is not measured if no frames are emitted since the last collection (e.g.: the track is paused)
+			if (track.jitterBufferDelayInMs === undefined) continue;
+
+			const jitterBufferDelayInMs = track.jitterBufferDelayInMs;
+			trace.delays.push(jitterBufferDelayInMs);
+			while (this.config.oscillationWindowSize < trace.delays.length) trace.delays.shift();
+
+			const oscillations = countOscillations(trace.delays, this.config.minOscillationAmplitudeInMs);
+			const actualProblems: Record<JitterBufferProblem, boolean> = {
+				'high-delay': this.config.maxJitterBufferDelayInMs < jitterBufferDelayInMs,
+				'oscillation': this.config.minOscillations <= oscillations,
+			};
+
+			for (const [ problem, present ] of Object.entries(actualProblems) as [JitterBufferProblem, boolean][]) {
+				if (present === trace.problems.has(problem)) continue;
+
+				const event: JitterBufferEvent = {
+					peerConnectionId: track.getPeerConnection().peerConnectionId,
+					trackId: track.trackId,
+					kind: track.kind,
+					problem,
+					jitterBufferDelayInMs,
+					jitterBufferTargetDelayInMs: track.jitterBufferTargetDelayInMs,
+					jitterBufferMinimumDelayInMs: track.jitterBufferMinimumDelayInMs,
+					estimatedLatencyInMs: track.estimatedLatencyInMs,
+				};
+				if (present) {
+					trace.problems.set(problem, event);
+					this.emit('jitter-buffer-problem-started', event);
+					this._setProblems(this._problems + 1);
+				} else {
+					trace.problems.delete(problem);
+					this.emit('jitter-buffer-problem-ended', event);
+					this._setProblems(this._problems - 1);
+				}
+			}
+		}
+
+		for (const [ trackId, trace ] of Array.from(this._traces)) {
+			if (trace.visited) {
+				trace.visited = false;
+				continue;
+			}
+			this._traces.delete(trackId);
+			for (const event of trace.problems.values()) {
+				this.emit('jitter-buffer-problem-ended', event);
+				this._setProblems(this._problems - 1);
+			}
+		}
+	}
+
+	private _setProblems(value: number) {
+		const wasAlert = 0 < this._problems;
+		this._problems = value;
+		const isAlert = 0 < this._problems;
+
+		if (wasAlert !== isAlert) {
+			this.emit('alert-state', isAlert ? 'on' : 'off');
+		}
+	}
+}
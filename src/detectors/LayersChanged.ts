@@ -4,27 +4,59 @@ import { OutboundRtpEntry } from "../entries/StatsEntryInterfaces";
 import { Detector } from "./Detector";
 
 export type LayersChangedDetectorConfig = {
-	bitrateDroppedThreshold?: number;
+	/**
+	 * The sending bitrate (bits per second) at or below which an active layer is considered off
+	 *
+	 * DEFAULT: 0
+	 */
+	minLayerBitrate?: number;
 };
 
+/**
+ * A simulcast layer (an outbound-rtp) of an outbound track,
+ * for SVC the layers are encoded in one outbound-rtp described by the scalabilityMode
+ */
+export type TrackLayer = {
+	ssrc: number,
+	rid?: string,
+	/**
+	 * True if the layer is enabled and sends media
+	 */
+	active: boolean,
+	/**
+	 * The sending bitrate of the layer in bits per second
+	 */
+	bitrate: number,
+	frameWidth?: number,
+	frameHeight?: number,
+	framesPerSecond?: number,
+	scalabilityMode?: string,
+}
+
+export type TrackLayersChangedEvent = {
+	trackId: string,
+	peerConnectionId: string,
+	layers: TrackLayer[],
+	/**
+	 * The layers turned on since the last collection
+	 */
+	activatedLayers: TrackLayer[],
+	/**
+	 * The layers turned off since the last collection
+	 */
+	deactivatedLayers: TrackLayer[],
+}
+
 export type LayersChangedDetectorEvents = {
 	'alert-state': [AlertState],
-	desync: [string],
-	'track-layer-changed': [{
-		trackId: string,
-		peerConnectionId: string,
-		bitrateBefore: number,
-		bitrateAfter: number,
-	}]
+	'track-layers-changed': [TrackLayersChangedEvent],
 	close: [],
 }
 
 type LayersChangedTrace = {
 	visited: boolean,
-	[ssrc: number]: {
-		active?: boolean,
-		totalBytesSent: number,
-	}
+	peerConnectionId: string,
+	layers: Map<number, TrackLayer>,
 }
 
 export declare interface LayersChangedDetector extends Detector {
@@ -34,8 +66,15 @@ export declare interface LayersChangedDetector extends Detector {
 	emit<K extends keyof LayersChangedDetectorEvents>(event: K, ...events: LayersChangedDetectorEvents[K]): boolean;
 }
 
+/**
+ * Tracks the simulcast / SVC layers (outbound-rtps by rid and ssrc) of the outbound video tracks,
+ * and emits an event when any layer of a track is turned on or off.
+ *
+ * The alert is on while any outbound track has a layer turned off.
+ */
 export class LayersChangedDetector extends EventEmitter {
 	private _closed = false;
+	private _limitedTracks = 0;
 	private readonly _traces = new Map<string, LayersChangedTrace>();
 
 	public constructor(
@@ -43,9 +82,9 @@ export class LayersChangedDetector extends EventEmitter {
 	) {
 		super();
 		this.setMaxListeners(Infinity);
-		
+
 	}
-	
+
 	public get closed() {
 		return this._closed;
 	}
@@ -58,63 +97,104 @@ export class LayersChangedDetector extends EventEmitter {
 		this.emit('close');
 	}
 
+	/**
+	 * The layers of the given outbound track at the last collection
+	 */
+	public getLayers(trackId: string): TrackLayer[] {
+		return Array.from(this._traces.get(trackId)?.layers.values() ?? []);
+	}
+
 	public update(outboundRtps: IterableIterator<OutboundRtpEntry>) {
+		const actualLayers = new Map<string, { peerConnectionId: string, layers: TrackLayer[] }>();
 		for (const outboundRtp of outboundRtps) {
 			const trackId = outboundRtp.getTrackId();
+			const peerConnectionId = outboundRtp.getPeerConnection()?.peerConnectionId;
 
-			if (!trackId || !outboundRtp.stats.bytesSent) continue;
+			if (!trackId || !peerConnectionId || outboundRtp.kind !== 'video') continue;
+
+			let trackLayers = actualLayers.get(trackId);
+			if (!trackLayers) {
+				trackLayers = { peerConnectionId, layers: [] };
+				actualLayers.set(trackId, trackLayers);
+			}
+			const bitrate = outboundRtp.sendingBitrate;
+			if (bitrate === undefined || !Number.isFinite(bitrate)) {
+				// the bitrate is not known (NaN) until the second collection of the layer, so it is unknown whether it is on or off
+				const previousLayer = this._traces.get(trackId)?.layers.get(outboundRtp.stats.ssrc);
+				if (previousLayer) trackLayers.layers.push(previousLayer);
+				continue;
+			}
+			trackLayers.layers.push({
+				ssrc: outboundRtp.stats.ssrc,
+				rid: outboundRtp.stats.rid,
+				active: outboundRtp.stats.active !== false && (this.config.minLayerBitrate ?? 0) < bitrate,
+				bitrate,
+				frameWidth: outboundRtp.stats.frameWidth,
+				frameHeight: outboundRtp.stats.frameHeight,
+				framesPerSecond: outboundRtp.stats.framesPerSecond,
+				scalabilityMode: outboundRtp.stats.scalabilityMode,
+			});
+		}
+
+		for (const [ trackId, { peerConnectionId, layers } ] of actualLayers) {
+			if (layers.length < 1) continue;
 
 			let trace = this._traces.get(trackId);
-			
+			const isNew = !trace;
 			if (!trace) {
 				trace = {
-					visited: false,
-				}
-
+					visited: true,
+					peerConnectionId,
+					layers: new Map(),
+				};
 				this._traces.set(trackId, trace);
 			}
-
 			trace.visited = true;
 
-			if (!this.config.bitrateDroppedThreshold) continue;
-			
-			switch (outboundRtp.getCodec()?.stats.mimeType) {
-				case 'audio/opus':
-					continue;
-				case 'video/vp8':
-					// only vp8 has different SSRCs for different layers
-					break;
-				case 'video/vp9':
-					continue;
-				default:
-					continue;
-			}
-
-			let layerTrace = trace[outboundRtp.stats.ssrc];
-
-			if (!layerTrace) {
-				layerTrace = {
-					totalBytesSent: 0,
-				}
-				trace[outboundRtp.stats.ssrc] = layerTrace;
+			const wasLimited = Array.from(trace.layers.values()).some(layer => !layer.active);
+			const activatedLayers: TrackLayer[] = [];
+			const deactivatedLayers: TrackLayer[] = [];
+			for (const layer of layers) {
+				const previousLayer = trace.layers.get(layer.ssrc);
+				if (layer.active && !previousLayer?.active) activatedLayers.push(layer);
+				else if (!layer.active && previousLayer?.active) deactivatedLayers.push(layer);
 			}
-			
-			if (outboundRtp.stats.bytesSent) {
-				layerTrace.totalBytesSent = outboundRtp.stats.bytesSent;
-			}
-
-			trace[outboundRtp.stats.ssrc] = {
-				totalBytesSent: outboundRtp.stats.bytesSent,
-			}
-			outboundRtp.stats.active;
+			trace.layers = new Map(layers.map(layer => [ layer.ssrc, layer ]));
+			const isLimited = layers.some(layer => !layer.active);
+			if (wasLimited !== isLimited) this._setLimitedTracks(this._limitedTracks + (isLimited ? 1 : -1));
+
+			if (activatedLayers.length < 1 && deactivatedLayers.length < 1) continue;
+			// the layers of a new track are reported only when any of them turned on
+			if (isNew && activatedLayers.length < 1) continue;
+
+			this.emit('track-layers-changed', {
+				trackId,
+				peerConnectionId,
+				layers: [ ...layers ],
+				activatedLayers,
+				deactivatedLayers,
+			});
 		}
 
-		for (const [trackId, trace] of this._traces.entries()) {
+		for (const [ trackId, trace ] of Array.from(this._traces.entries())) {
 			if (trace.visited === false) {
 				this._traces.delete(trackId);
+				if (Array.from(trace.layers.values()).some(layer => !layer.active)) {
+					this._setLimitedTracks(this._limitedTracks - 1);
+				}
+				continue;
 			}
 			trace.visited = false;
 		}
 	}
-}
 
+	private _setLimitedTracks(value: number) {
+		const wasAlert = 0 < this._limitedTracks;
+		this._limitedTracks = value;
+		const isAlert = 0 < this._limitedTracks;
+
+		if (wasAlert !== isAlert) {
+			this.emit('alert-state', isAlert ? 'on' : 'off');
+		}
+	}
+}
@@ -0,0 +1,216 @@
+import { EventEmitter } from "events";
+import { AlertState } from "../ClientMonitor";
+import { OutboundRtpEntry } from "../entries/StatsEntryInterfaces";
+import { Detector } from "./Detector";
+
+/**
+ * The reason the media sent by an outbound track is considered not reaching the remote side
+ *  - no-packets-received: the remote side reports no received packets while packets are sent
+ *  - high-loss: the remote side reports a fraction lost above the threshold
+ *  - stale-report: the remote side has not reported (no updated remote-inbound-rtp) while packets are sent
+ */
+export type OneWayOutboundMediaCause = 'no-packets-received' | 'high-loss' | 'stale-report';
+
+export type OneWayOutboundMediaDetectorConfig = {
+	/**
+	 * The remote fractionLost (0 - 1) above which the media is considered not reaching the remote side
+	 */
+	fractionLostThreshold: number,
+	/**
+	 * The time in milliseconds without an updated remote-inbound-rtp report
+	 * after which the report is considered stale
+	 */
+	staleReportTimeoutInMs: number,
+	/**
+	 * The minimum duration in milliseconds the remote side must report no received packets
+	 * or a high fraction lost before it is reported
+	 */
+	minDurationInMs: number,
+}
+
+export type OneWayOutboundMediaStartedEvent = {
+	peerConnectionId: string,
+	trackId: string,
+	ssrc: number,
+	cause: OneWayOutboundMediaCause,
+	/**
+	 * The last fractionLost reported by the remote side
+	 */
+	fractionLost?: number,
+	/**
+	 * The time elapsed since the last remote-inbound-rtp report
+	 */
+	lastReportElapsedInMs: number,
+}
+
+export type OneWayOutboundMediaEndedEvent = Omit<OneWayOutboundMediaStartedEvent, 'fractionLost' | 'lastReportElapsedInMs'> & {
+	durationInS: number,
+}
+
+export type OneWayOutboundMediaDetectorEvents = {
+	'alert-state': [AlertState],
+	'one-way-media-started': [OneWayOutboundMediaStartedEvent],
+	'one-way-media-ended': [OneWayOutboundMediaEndedEvent],
+	close: [],
+}
+
+type OutboundMediaTrace = {
+	visited: boolean,
+	peerConnectionId: string,
+	trackId: string,
+	ssrc: number,
+	lastReportAt: number,
+	lastReportTimestamp?: number,
+	lastRemotePacketsReceived?: number,
+	cause?: OneWayOutboundMediaCause,
+	since: number,
+	reported: boolean,
+}
+
+export declare interface OneWayOutboundMediaDetector extends Detector {
+	on<K extends keyof OneWayOutboundMediaDetectorEvents>(event: K, listener: (...events: OneWayOutboundMediaDetectorEvents[K]) => void): this;
+	off<K extends keyof OneWayOutboundMediaDetectorEvents>(event: K, listener: (...events: OneWayOutboundMediaDetectorEvents[K]) => void): this;
+	once<K extends keyof OneWayOutboundMediaDetectorEvents>(event: K, listener: (...events: OneWayOutboundMediaDetectorEvents[K]) => void): this;
+	emit<K extends keyof OneWayOutboundMediaDetectorEvents>(event: K, ...events: OneWayOutboundMediaDetectorEvents[K]): boolean;
+}
+
+/**
+ * Compares the packets sent by the outbound rtps with the reception reported by the remote side (remote-inbound-rtp)
+ * and detects outbound media not reaching the remote side (e.g.: because of SFU or NAT problems).
+ */
+export class OneWayOutboundMediaDetector extends EventEmitter {
+	private _closed = false;
+	private _oneWayTracks = 0;
+	private readonly _traces = new Map<string, OutboundMediaTrace>();
+	public readonly ignoredTrackIds = new Set<string>([
+		// mediasoup probator track id
+		'probator'
+	]);
+
+	public constructor(
+		public readonly config: OneWayOutboundMediaDetectorConfig,
+	) {
+		super();
+		this.setMaxListeners(Infinity);
+	}
+
+	public get closed() {
+		return this._closed;
+	}
+
+	public close() {
+		if (this._closed) return;
+		this._closed = true;
+
+		this._traces.clear();
+		this.emit('close');
+	}
+
+	public update(outboundRtps: IterableIterator<OutboundRtpEntry>, now = Date.now()) {
+
+		for (const outboundRtp of outboundRtps) {
+			const peerConnectionId = outboundRtp.getPeerConnection()?.peerConnectionId;
+			const trackId = outboundRtp.getTrackId();
+			const ssrc = outboundRtp.stats.ssrc;
+			if (!peerConnectionId || !trackId || this.ignoredTrackIds.has(trackId)) {
+				continue;
+			}
+
+			const traceId = `${peerConnectionId}:${ssrc}`;
+			let trace = this._traces.get(traceId);
+			if (!trace) {
+				trace = {
+					visited: true,
+					peerConnectionId,
+					trackId,
+					ssrc,
+					lastReportAt: now,
+					since: now,
+					reported: false,
+				};
+				this._traces.set(traceId, trace);
+			}
+			trace.visited = true;
+
+			const remoteInboundRtp = outboundRtp.getRemoteInboundRtp();
+			const remotePacketsReceived = remoteInboundRtp?.stats.packetsReceived;
+			const previousRemotePacketsReceived = trace.lastRemotePacketsReceived;
+			const reportUpdated = remoteInboundRtp !== undefined && remoteInboundRtp.stats.timestamp !== trace.lastReportTimestamp;
+			if (reportUpdated) {
+				trace.lastReportAt = now;
+				trace.lastReportTimestamp = remoteInboundRtp?.stats.timestamp;
+				trace.lastRemotePacketsReceived = remotePacketsReceived;
+			}
+
+			let cause: OneWayOutboundMediaCause | undefined;
+			const fractionLost = remoteInboundRtp?.stats.fractionLost;
+			if ((outboundRtp.sentPackets ?? 0) < 1) {
+				// we only blame the remote side if we keep sending, otherwise the previous state is kept
+				cause = trace.cause;
+			} else if (this.config.staleReportTimeoutInMs <= now - trace.lastReportAt) {
+				cause = 'stale-report';
+			} else if (!reportUpdated) {
+				// no new report since the last collection, the previous state is kept until the next report
+				cause = trace.cause === 'stale-report' ? undefined : trace.cause;
+			} else if (remotePacketsReceived !== undefined && previousRemotePacketsReceived !== undefined && remotePacketsReceived <= previousRemotePacketsReceived) {
+				cause = 'no-packets-received';
+			} else if (fractionLost !== undefined && this.config.fractionLostThreshold < fractionLost) {
+				cause = 'high-loss';
+			}
+
+			if (trace.cause !== cause) {
+				this._end(trace, { peerConnectionId, trackId, ssrc }, now);
+				trace.cause = cause;
+				trace.since = now;
+			}
+
+			// a stale report is already measured by the staleReportTimeoutInMs
+			const minDurationInMs = cause === 'stale-report' ? 0 : this.config.minDurationInMs;
+			if (!trace.cause || trace.reported || now - trace.since < minDurationInMs) {
+				continue;
+			}
+
+			trace.reported = true;
+			this.emit('one-way-media-started', {
+				peerConnectionId,
+				trackId,
+				ssrc,
+				cause: trace.cause,
+				fractionLost,
+				lastReportElapsedInMs: now - trace.lastReportAt,
+			});
+			this._setOneWayTracks(this._oneWayTracks + 1);
+		}
+
+		for (const [ traceId, trace ] of Array.from(this._traces)) {
+			if (trace.visited) {
+				trace.visited = false;
+				continue;
+			}
+			this._traces.delete(traceId);
+			this._end(trace, { peerConnectionId: trace.peerConnectionId, trackId: trace.trackId, ssrc: trace.ssrc }, now);
+		}
+	}
+
+	private _end(trace: OutboundMediaTrace, event: Omit<OneWayOutboundMediaEndedEvent, 'cause' | 'durationInS'>, now: number) {
+		if (!trace.reported || !trace.cause) return;
+
+		trace.reported = false;
+		this.emit('one-way-media-ended', {
+			...event,
+			cause: trace.cause,
+			durationInS: (now - trace.since) / 1000,
+		});
+		this._setOneWayTracks(this._oneWayTracks - 1);
+	}
+
+	private _setOneWayTracks(value: number) {
+		const wasAlert = 0 < this._oneWayTracks;
+		this._oneWayTracks = value;
+		const isAlert = 0 < this._oneWayTracks;
+
+		if (wasAlert !== isAlert) {
+			this.emit('alert-state', isAlert ? 'on' : 'off');
+		}
+	}
+}
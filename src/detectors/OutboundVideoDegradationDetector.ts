@@ -0,0 +1,306 @@
+import { EventEmitter } from "events";
+import { AlertState } from "../ClientMonitor";
+import { TrackStats } from "../entries/StatsEntryInterfaces";
+import { Detector } from "./Detector";
+
+/**
+ * The property of the sent video found well below the captured or the requested one
+ */
+export type OutboundVideoDegradation = 'resolution' | 'framerate';
+
+/**
+ * The likely cause of the degradation
+ *  - cpu, bandwidth, other: the qualityLimitationReason of the encoder
+ *  - capture: the captured video is already below the requested one (e.g.: the camera does not support it)
+ *  - unknown: the encoder does not report any limitation (e.g.: the application scales down the video)
+ */
+export type OutboundVideoDegradationCause = 'cpu' | 'bandwidth' | 'other' | 'capture' | 'unknown';
+
+export type VideoProperties = {
+	width?: number,
+	height?: number,
+	framesPerSecond?: number,
+}
+
+export type OutboundVideoDegradationDetectorConfig = {
+	/**
+	 * The ratio of the sent and the captured (or requested) number of pixels below which the resolution is degraded
+	 */
+	minResolutionRatio: number,
+	/**
+	 * The ratio of the sent and the captured (or requested) framerate below which the framerate is degraded
+	 */
+	minFramerateRatio: number,
+	/**
+	 * The minimum duration in milliseconds the video must be degraded before it is reported
+	 */
+	minDurationInMs: number,
+}
+
+export type OutboundVideoDegradationEvent = {
+	peerConnectionId: string,
+	trackId: string,
+	degradation: OutboundVideoDegradation,
+	cause: OutboundVideoDegradationCause,
+	sent: VideoProperties,
+	captured: VideoProperties,
+	requested?: VideoProperties,
+}
+
+export type OutboundVideoDegradationEndedEvent = OutboundVideoDegradationEvent & {
+	durationInS: number,
+}
+
+export type OutboundVideoDegradationDetectorEvents = {
+	'alert-state': [AlertState],
+	'video-degradation-started': [OutboundVideoDegradationEvent],
+	'video-degradation-ended': [OutboundVideoDegradationEndedEvent],
+	close: [],
+}
+
+type DegradationTrace = {
+	since: number,
+	reported: boolean,
+	event: OutboundVideoDegradationEvent,
+}
+
+type OutboundVideoTrace = {
+	visited: boolean,
+	degradations: Map<OutboundVideoDegradation, DegradationTrace>,
+}
+
+function getRequestedValue(constraint?: ConstrainULong | ConstrainDouble): number | undefined {
+	if (typeof constraint === 'number') return constraint;
+	return constraint?.exact ?? constraint?.ideal ?? constraint?.min;
+}
+
+/**
+ * Extracts the requested width, height and framerate of the video from the constraints given to getUserMedia or applyConstraints
+ */
+export function getRequestedVideoProperties(constraints: MediaStreamConstraints | MediaTrackConstraints): VideoProperties | undefined {
+	const videoConstraints: MediaTrackConstraints | undefined = 'video' in constraints || 'audio' in constraints
+		? (typeof (constraints as MediaStreamConstraints).video === 'object' ? (constraints as MediaStreamConstraints).video as MediaTrackConstraints : undefined)
+		: constraints as MediaTrackConstraints;
+	if (!videoConstraints) return;
+
+	const result: VideoProperties = {
+		width: getRequestedValue(videoConstraints.width),
+		height: getRequestedValue(videoConstraints.height),
+		framesPerSecond: getRequestedValue(videoConstraints.frameRate),
+	};
+	if (result.width === undefined && result.height === undefined && result.framesPerSecond === undefined) return;
+
+	return result;
+}
+
+function getRatio(value?: number, reference?: number): number | undefined {
+	if (value === undefined || !reference) return;
+	return value / reference;
+}
+
+/**
+ * Maps the qualityLimitationReason of an outbound-rtp to the cause of the degradation
+ */
+function getQualityLimitationCause(qualityLimitationReason?: string): OutboundVideoDegradationCause {
+	switch (qualityLimitationReason) {
+		case 'cpu':
+			return 'cpu';
+		case 'bandwidth':
+			return 'bandwidth';
+		case 'other':
+			return 'other';
+		default:
+			return 'unknown';
+	}
+}
+
+export declare interface OutboundVideoDegradationDetector extends Detector {
+	on<K extends keyof OutboundVideoDegradationDetectorEvents>(event: K, listener: (...events: OutboundVideoDegradationDetectorEvents[K]) => void): this;
+	off<K extends keyof OutboundVideoDegradationDetectorEvents>(event: K, listener: (...events: OutboundVideoDegradationDetectorEvents[K]) => void): this;
+	once<K extends keyof OutboundVideoDegradationDetectorEvents>(event: K, listener: (...events: OutboundVideoDegradationDetectorEvents[K]) => void): this;
+	emit<K extends keyof OutboundVideoDegradationDetectorEvents>(event: K, ...events: OutboundVideoDegradationDetectorEvents[K]): boolean;
+}
+
+/**
+ * Compares the resolution and the framerate sent by the outbound video tracks with the captured ones (media-source)
+ * and the ones requested by the media constraints, and detects the sent video is well below them.
+ */
+export class OutboundVideoDegradationDetector extends EventEmitter {
+	private _closed = false;
+	private _degradations = 0;
+	private _requested?: VideoProperties;
+	private readonly _requestedByTracks = new Map<string, VideoProperties>();
+	private readonly _traces = new Map<string, OutboundVideoTrace>();
+
+	public constructor(
+		public readonly config: OutboundVideoDegradationDetectorConfig,
+	) {
+		super();
+		this.setMaxListeners(Infinity);
+	}
+
+	public get closed() {
+		return this._closed;
+	}
+
+	public close() {
+		if (this._closed) return;
+		this._closed = true;
+
+		this._traces.clear();
+		this._requestedByTracks.clear();
+		this.emit('close');
+	}
+
+	/**
+	 * Sets the media constraints the video is requested with.
+	 *
+	 * @param constraints the constraints given to getUserMedia or applyConstraints
+	 * @param trackId the track the constraints belong to, if not given the constraints are applied to all tracks not having their own
+	 */
+	public setRequestedConstraints(constraints: MediaStreamConstraints | MediaTrackConstraints, trackId?: string) {
+		const requested = getRequestedVideoProperties(constraints);
+		if (!trackId) {
+			this._requested = requested ?? this._requested;
+		} else if (requested) {
+			this._requestedByTracks.set(trackId, requested);
+		}
+	}
+
+	public update(tracks: IterableIterator<TrackStats>, now = Date.now()) {
+
+		for (const track of tracks) {
+			if (track.direction !== 'outbound' || track.kind !== 'video') continue;
+
+			let trace = this._traces.get(track.trackId);
+			if (!trace) {
+				trace = {
+					visited: true,
+					degradations: new Map(),
+				};
+				this._traces.set(track.trackId, trace);
+			}
+			trace.visited = true;
+
+			const sent: VideoProperties = {};
+			const captured: VideoProperties = {};
+			let qualityLimitationReason: string | undefined;
+			for (const outboundRtp of track.outboundRtps()) {
+				const { stats } = outboundRtp;
+				if (stats.active === false) continue;
+
+				// in case of simulcast the highest layer is compared
+				if ((sent.width ?? 0) * (sent.height ?? 0) < (stats.frameWidth ?? 0) * (stats.frameHeight ?? 0)) {
+					sent.width = stats.frameWidth;
+					sent.height = stats.frameHeight;
+				}
+				if (stats.framesPerSecond !== undefined) sent.framesPerSecond = Math.max(sent.framesPerSecond ?? 0, stats.framesPerSecond);
+				if (stats.qualityLimitationReason && stats.qualityLimitationReason !== 'none') qualityLimitationReason = stats.qualityLimitationReason;
+
+				const mediaSource = outboundRtp.getMediaSource()?.stats;
+				captured.width = mediaSource?.width ?? captured.width;
+				captured.height = mediaSource?.height ?? captured.height;
+				captured.framesPerSecond = mediaSource?.framesPerSecond ?? captured.framesPerSecond;
+			}
+
+			const requested = this._requestedByTracks.get(track.trackId) ?? this._requested;
+			const reference: VideoProperties = {
+				width: requested?.width ?? captured.width,
+				height: requested?.height ?? captured.height,
+				framesPerSecond: requested?.framesPerSecond ?? captured.framesPerSecond,
+			};
+			const getPixels = (properties: VideoProperties) => properties.width !== undefined && properties.height !== undefined
+				? properties.width * properties.height
+				: undefined;
+			const ratios: Record<OutboundVideoDegradation, { sent?: number, captured?: number, min: number }> = {
+				resolution: {
+					sent: getRatio(getPixels(sent), getPixels(reference)),
+					captured: getRatio(getPixels(captured), getPixels(reference)),
+					min: this.config.minResolutionRatio,
+				},
+				framerate: {
+					sent: getRatio(sent.framesPerSecond, reference.framesPerSecond),
+					captured: getRatio(captured.framesPerSecond, reference.framesPerSecond),
+					min: this.config.minFramerateRatio,
+				},
+			};
+
+			for (const [ degradation, ratio ] of Object.entries(ratios) as [OutboundVideoDegradation, typeof ratios[OutboundVideoDegradation]][]) {
+				const degraded = ratio.sent !== undefined && ratio.sent < ratio.min;
+				let degradationTrace = trace.degradations.get(degradation);
+
+				if (!degraded) {
+					if (degradationTrace) this._end(trace, degradation, now);
+					continue;
+				}
+				// the cause may change while the degradation is waited for, so the reported one is taken when it is reported
+				const cause: OutboundVideoDegradationCause = ratio.captured !== undefined && ratio.captured < ratio.min
+					? 'capture'
+					: getQualityLimitationCause(qualityLimitationReason);
+				if (!degradationTrace) {
+					degradationTrace = {
+						since: now,
+						reported: false,
+						event: {
+							peerConnectionId: track.getPeerConnection().peerConnectionId,
+							trackId: track.trackId,
+							degradation,
+							cause,
+							sent,
+							captured,
+							requested,
+						},
+					};
+					trace.degradations.set(degradation, degradationTrace);
+				}
+				if (degradationTrace.reported || now - degradationTrace.since < this.config.minDurationInMs) continue;
+
+				degradationTrace.reported = true;
+				degradationTrace.event = {
+					...degradationTrace.event,
+					cause,
+					sent,
+					captured,
+				};
+				this.emit('video-degradation-started', degradationTrace.event);
+				this._setDegradations(this._degradations + 1);
+			}
+		}
+
+		for (const [ trackId, trace ] of Array.from(this._traces)) {
+			if (trace.visited) {
+				trace.visited = false;
+				continue;
+			}
+			for (const degradation of Array.from(trace.degradations.keys())) {
+				this._end(trace, degradation, now);
+			}
+			this._traces.delete(trackId);
+			this._requestedByTracks.delete(trackId);
+		}
+	}
+
+	private _end(trace: OutboundVideoTrace, degradation: OutboundVideoDegradation, now: number) {
+		const degradationTrace = trace.degradations.get(degradation);
+		if (!degradationTrace) return;
+
+		trace.degradations.delete(degradation);
+		if (!degradationTrace.reported) return;
+
+		this.emit('video-degradation-ended', {
+			...degradationTrace.event,
+			durationInS: (now - degradationTrace.since) / 1000,
+		});
+		this._setDegradations(this._degradations - 1);
+	}
+
+	private _setDegradations(value: number) {
+		const wasAlert = 0 < this._degradations;
+		this._degradations = value;
+		const isAlert = 0 < this._degradations;
+
+		if (wasAlert !== isAlert) {
+			this.emit('alert-state', isAlert ? 'on' : 'off');
+		}
+	}
+}
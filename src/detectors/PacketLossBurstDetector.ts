@@ -0,0 +1,131 @@
+import { EventEmitter } from "events";
+import { AlertState } from "../ClientMonitor";
+import { TrackStats } from "../entries/StatsEntryInterfaces";
+import { PacketLossEpisode, PacketLossPattern } from "../entries/PacketLossPattern";
+import { Detector } from "./Detector";
+
+export type PacketLossBurstDetectorConfig = {
+	/**
+	 * The minimum number of packets lost in an episode before it is reported as bursty loss
+	 */
+	minEpisodeLostPackets: number,
+}
+
+export type PacketLossBurstEvent = {
+	peerConnectionId: string,
+	trackId: string,
+	kind: TrackStats['kind'],
+	episode: PacketLossEpisode,
+	lossPattern: PacketLossPattern,
+}
+
+export type PacketLossBurstDetectorEvents = {
+	'alert-state': [AlertState],
+	'loss-burst-started': [PacketLossBurstEvent],
+	'loss-burst-ended': [PacketLossBurstEvent],
+	close: [],
+}
+
+type LossBurstTrace = {
+	visited: boolean,
+	reportedEvent?: PacketLossBurstEvent,
+}
+
+export declare interface PacketLossBurstDetector extends Detector {
+	on<K extends keyof PacketLossBurstDetectorEvents>(event: K, listener: (...events: PacketLossBurstDetectorEvents[K]) => void): this;
+	off<K extends keyof PacketLossBurstDetectorEvents>(event: K, listener: (...events: PacketLossBurstDetectorEvents[K]) => void): this;
+	once<K extends keyof PacketLossBurstDetectorEvents>(event: K, listener: (...events: PacketLossBurstDetectorEvents[K]) => void): this;
+	emit<K extends keyof PacketLossBurstDetectorEvents>(event: K, ...events: PacketLossBurstDetectorEvents[K]): boolean;
+}
+
+/**
+ * Reports the loss episodes (bursts) of the inbound tracks, based on the lossPattern of the tracks
+ */
+export class PacketLossBurstDetector extends EventEmitter {
+	private _closed = false;
+	private _burstingTracks = 0;
+	private readonly _traces = new Map<string, LossBurstTrace>();
+
+	public constructor(
+		public readonly config: PacketLossBurstDetectorConfig,
+	) {
+		super();
+		this.setMaxListeners(Infinity);
+	}
+
+	public get closed() {
+		return this._closed;
+	}
+
+	public close() {
+		if (this._closed) return;
+		this._closed = true;
+
+		this._traces.clear();
+		this.emit('close');
+	}
+
+	public update(tracks: IterableIterator<TrackStats>) {
+		for (const track of tracks) {
+			if (track.direction !== 'inbound') continue;
+
+			let trace = this._traces.get(track.trackId);
+			if (!trace) {
+				trace = {
+					visited: true,
+				};
+				this._traces.set(track.trackId, trace);
+			}
+			trace.visited = true;
+
+			const { lossPattern } = track;
+			const { activeEpisode } = lossPattern;
+			const createEvent = (episode: PacketLossEpisode): PacketLossBurstEvent => ({
+				peerConnectionId: track.getPeerConnection().peerConnectionId,
+				trackId: track.trackId,
+				kind: track.kind,
+				episode,
+				lossPattern,
+			});
+
+			const { reportedEvent } = trace;
+			if (reportedEvent && activeEpisode?.startedAt !== reportedEvent.episode.startedAt) {
+				const endedEpisode = lossPattern.episodes.find(episode => episode.startedAt === reportedEvent.episode.startedAt);
+				trace.reportedEvent = undefined;
+				// the episode may already be dropped from the loss pattern, then it is ended as it was reported
+				this.emit('loss-burst-ended', createEvent(endedEpisode ?? reportedEvent.episode));
+				this._setBurstingTracks(this._burstingTracks - 1);
+			}
+
+			if (!activeEpisode || trace.reportedEvent || activeEpisode.lostPackets < this.config.minEpisodeLostPackets) {
+				continue;
+			}
+
+			trace.reportedEvent = createEvent(activeEpisode);
+			this.emit('loss-burst-started', trace.reportedEvent);
+			this._setBurstingTracks(this._burstingTracks + 1);
+		}
+
+		for (const [ trackId, trace ] of Array.from(this._traces)) {
+			if (trace.visited) {
+				trace.visited = false;
+				continue;
+			}
+			this._traces.delete(trackId);
+			if (!trace.reportedEvent) continue;
+
+			this.emit('loss-burst-ended', trace.reportedEvent);
+			this._setBurstingTracks(this._burstingTracks - 1);
+		}
+	}
+
+	private _setBurstingTracks(value: number) {
+		const wasAlert = 0 < this._burstingTracks;
+		this._burstingTracks = value;
+		const isAlert = 0 < this._burstingTracks;
+
+		if (wasAlert !== isAlert) {
+			this.emit('alert-state', isAlert ? 'on' : 'off');
+		}
+	}
+}
@@ -0,0 +1,250 @@
+import { EventEmitter } from "events";
+import { AlertState } from "../ClientMonitor";
+import { InboundRtpEntry } from "../entries/StatsEntryInterfaces";
+import { Detector } from "./Detector";
+
+/**
+ * The likely cause of an inbound audio track received without audible sound
+ *  - remote-silent: the audio is received and played out, but the remote microphone captures silence
+ *  - remote-muted: the remote side reported its media source muted
+ *  - playout-failure: packets are received, but the audio is not decoded or played out,
+ *    or the remote side reports sound that is not heard locally
+ */
+export type SilentInboundAudioCause = 'remote-silent' | 'remote-muted' | 'playout-failure';
+
+export type SilentInboundAudioDetectorConfig = {
+	/**
+	 * The audio level (0 - 1) below which the received audio is considered silent
+	 */
+	silentAudioLevelThreshold: number,
+	/**
+	 * The ratio of the concealed (or synthesized) and the received samples above which
+	 * the playout of the received audio is considered broken
+	 */
+	concealedSamplesThreshold: number,
+	/**
+	 * The minimum duration in milliseconds the audio must be silent before it is reported
+	 */
+	minSilentDurationInMs: number,
+}
+
+/**
+ * The state of the media source of an inbound track on the remote side (e.g.: signaled by the application)
+ */
+export type RemoteMediaSourceState = {
+	muted?: boolean,
+	/**
+	 * The audio level (0 - 1) captured by the remote media source
+	 */
+	audioLevel?: number,
+}
+
+export type SilentInboundAudioStartedEvent = {
+	peerConnectionId: string,
+	trackId: string,
+	ssrc: number,
+	cause: SilentInboundAudioCause,
+}
+
+export type SilentInboundAudioEndedEvent = SilentInboundAudioStartedEvent & {
+	durationInS: number,
+}
+
+export type SilentInboundAudioDetectorEvents = {
+	'alert-state': [AlertState],
+	'silent-audio-started': [SilentInboundAudioStartedEvent],
+	'silent-audio-ended': [SilentInboundAudioEndedEvent],
+	close: [],
+}
+
+type SilentAudioTrace = {
+	visited: boolean,
+	peerConnectionId: string,
+	trackId: string,
+	ssrc: number,
+	totalSamplesReceived: number,
+	concealedSamples: number,
+	totalAudioEnergy: number,
+	totalSamplesDuration: number,
+	synthesizedSamplesDuration: number,
+	playoutSamplesDuration: number,
+	cause?: SilentInboundAudioCause,
+	since: number,
+	reported: boolean,
+}
+
+export declare interface SilentInboundAudioDetector extends Detector {
+	on<K extends keyof SilentInboundAudioDetectorEvents>(event: K, listener: (...events: SilentInboundAudioDetectorEvents[K]) => void): this;
+	off<K extends keyof SilentInboundAudioDetectorEvents>(event: K, listener: (...events: SilentInboundAudioDetectorEvents[K]) => void): this;
+	once<K extends keyof SilentInboundAudioDetectorEvents>(event: K, listener: (...events: SilentInboundAudioDetectorEvents[K]) => void): this;
+	emit<K extends keyof SilentInboundAudioDetectorEvents>(event: K, ...events: SilentInboundAudioDetectorEvents[K]): boolean;
+}
+
+/**
+ * Detects inbound audio tracks receiving packets without audible sound,
+ * and tells apart a silent remote microphone, a muted sender and a broken playout path.
+ */
+export class SilentInboundAudioDetector extends EventEmitter {
+	private _closed = false;
+	private _silentTracks = 0;
+	// ssrcs are unique only within a peer connection, so the traces are keyed by both
+	private readonly _traces = new Map<string, SilentAudioTrace>();
+	private readonly _remoteMediaSources = new Map<string, RemoteMediaSourceState>();
+
+	public constructor(
+		public readonly config: SilentInboundAudioDetectorConfig,
+	) {
+		super();
+		this.setMaxListeners(Infinity);
+	}
+
+	public get closed() {
+		return this._closed;
+	}
+
+	public close() {
+		if (this._closed) return;
+		this._closed = true;
+
+		this._traces.clear();
+		this._remoteMediaSources.clear();
+		this.emit('close');
+	}
+
+	/**
+	 * Sets the state of the media source of the given inbound track on the remote side,
+	 * the remote media source stats are not available locally, so it must be provided by the application.
+	 *
+	 * @param state the state of the remote media source, or undefined to remove it
+	 */
+	public setRemoteMediaSourceState(trackId: string, state?: RemoteMediaSourceState) {
+		if (state) this._remoteMediaSources.set(trackId, state);
+		else this._remoteMediaSources.delete(trackId);
+	}
+
+	public update(inboundRtps: IterableIterator<InboundRtpEntry>, now = Date.now()) {
+
+		for (const inboundRtp of inboundRtps) {
+			const { stats } = inboundRtp;
+			const peerConnectionId = inboundRtp.getPeerConnection()?.peerConnectionId;
+			const trackId = inboundRtp.getTrackId();
+			if (stats.kind !== 'audio' || !peerConnectionId || !trackId) {
+				continue;
+			}
+
+			const traceId = `${peerConnectionId}:${stats.ssrc}`;
+			let trace = this._traces.get(traceId);
+			if (!trace) {
+				trace = {
+					visited: true,
+					peerConnectionId,
+					trackId,
+					ssrc: stats.ssrc,
+					totalSamplesReceived: stats.totalSamplesReceived ?? 0,
+					concealedSamples: stats.concealedSamples ?? 0,
+					totalAudioEnergy: stats.totalAudioEnergy ?? 0,
+					totalSamplesDuration: stats.totalSamplesDuration ?? 0,
+					synthesizedSamplesDuration: 0,
+					playoutSamplesDuration: 0,
+					since: now,
+					reported: false,
+				};
+				this._traces.set(traceId, trace);
+				continue;
+			}
+			trace.visited = true;
+
+			const cause = this._getCause(inboundRtp, trace, trackId);
+
+			if (trace.cause !== cause) {
+				this._end(trace, { peerConnectionId, trackId, ssrc: stats.ssrc }, now);
+				trace.cause = cause;
+				trace.since = now;
+			}
+
+			if (!trace.cause || trace.reported || now - trace.since < this.config.minSilentDurationInMs) {
+				continue;
+			}
+
+			trace.reported = true;
+			this.emit('silent-audio-started', {
+				peerConnectionId,
+				trackId,
+				ssrc: stats.ssrc,
+				cause: trace.cause,
+			});
+			this._setSilentTracks(this._silentTracks + 1);
+		}
+
+		for (const [ traceId, trace ] of Array.from(this._traces)) {
+			if (trace.visited) {
+				trace.visited = false;
+				continue;
+			}
+			this._traces.delete(traceId);
+			this._end(trace, { peerConnectionId: trace.peerConnectionId, trackId: trace.trackId, ssrc: trace.ssrc }, now);
+		}
+	}
+
+	private _getCause(inboundRtp: InboundRtpEntry, trace: SilentAudioTrace, trackId: string): SilentInboundAudioCause | undefined {
+		const { stats } = inboundRtp;
+		const playout = inboundRtp.getAudioPlayout()?.stats;
+		const receivedSamples = (stats.totalSamplesReceived ?? 0) - trace.totalSamplesReceived;
+		const concealedSamples = (stats.concealedSamples ?? 0) - trace.concealedSamples;
+		const audioEnergy = (stats.totalAudioEnergy ?? 0) - trace.totalAudioEnergy;
+		const samplesDuration = (stats.totalSamplesDuration ?? 0) - trace.totalSamplesDuration;
+		const synthesizedSamplesDuration = (playout?.synthesizedSamplesDuration ?? 0) - trace.synthesizedSamplesDuration;
+		const playoutSamplesDuration = (playout?.totalSamplesDuration ?? 0) - trace.playoutSamplesDuration;
+
+		trace.totalSamplesReceived = stats.totalSamplesReceived ?? 0;
+		trace.concealedSamples = stats.concealedSamples ?? 0;
+		trace.totalAudioEnergy = stats.totalAudioEnergy ?? 0;
+		trace.totalSamplesDuration = stats.totalSamplesDuration ?? 0;
+		trace.synthesizedSamplesDuration = playout?.synthesizedSamplesDuration ?? 0;
+		trace.playoutSamplesDuration = playout?.totalSamplesDuration ?? 0;
+
+		// no packets received is reported by the stucked inbound track detector
+		if ((inboundRtp.receivedPackets ?? 0) < 1) return;
+
+		if (receivedSamples < 1 || this.config.concealedSamplesThreshold < concealedSamples / receivedSamples) {
+			return 'playout-failure';
+		}
+		if (0 < playoutSamplesDuration && this.config.concealedSamplesThreshold < synthesizedSamplesDuration / playoutSamplesDuration) {
+			return 'playout-failure';
+		}
+
+		// the audio level calculated from the energy is more accurate than the instantaneous audioLevel
+		const audioLevel = 0 < samplesDuration ? Math.sqrt(audioEnergy / samplesDuration) : stats.audioLevel;
+		if (audioLevel === undefined || this.config.silentAudioLevelThreshold <= audioLevel) return;
+
+		const remoteMediaSource = this._remoteMediaSources.get(trackId);
+		if (remoteMediaSource?.muted) return 'remote-muted';
+		if (remoteMediaSource?.audioLevel !== undefined && this.config.silentAudioLevelThreshold <= remoteMediaSource.audioLevel) {
+			return 'playout-failure';
+		}
+
+		return 'remote-silent';
+	}
+
+	private _end(trace: SilentAudioTrace, event: Omit<SilentInboundAudioStartedEvent, 'cause'>, now: number) {
+		if (!trace.reported || !trace.cause) return;
+
+		trace.reported = false;
+		this.emit('silent-audio-ended', {
+			...event,
+			cause: trace.cause,
+			durationInS: (now - trace.since) / 1000,
+		});
+		this._setSilentTracks(this._silentTracks - 1);
+	}
+
+	private _setSilentTracks(value: number) {
+		const wasAlert = 0 < this._silentTracks;
+		this._silentTracks = value;
+		const isAlert = 0 < this._silentTracks;
+
+		if (wasAlert !== isAlert) {
+			this.emit('alert-state', isAlert ? 'on' : 'off');
+		}
+	}
+}
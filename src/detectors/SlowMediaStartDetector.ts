@@ -0,0 +1,158 @@
+import { EventEmitter } from "events";
+import { AlertState } from "../ClientMonitor";
+import { TrackStats } from "../entries/StatsEntryInterfaces";
+import { MediaSetup } from "../entries/MediaSetupTimeline";
+import { Detector } from "./Detector";
+
+export type SlowMediaStartDetectorConfig = {
+	/**
+	 * The maximum time in milliseconds allowed from the track is added until its media starts
+	 * (the first frame of a video, or the first packet of an audio track)
+	 */
+	thresholdInMs: number,
+}
+
+export type SlowMediaStartEvent = {
+	peerConnectionId: string,
+	trackId: string,
+	kind: TrackStats['kind'],
+	mediaSetup: MediaSetup,
+}
+
+export type MediaStartedEvent = SlowMediaStartEvent & {
+	/**
+	 * The time it took until the media started
+	 */
+	timeToMediaStartInMs: number,
+}
+
+export type SlowMediaStartDetectorEvents = {
+	'alert-state': [AlertState],
+	'slow-media-start': [SlowMediaStartEvent],
+	'media-started': [MediaStartedEvent],
+	/**
+	 * Emitted when a track reported with a slow media start is removed before its media starts
+	 */
+	'media-start-aborted': [SlowMediaStartEvent],
+	close: [],
+}
+
+type MediaStartTrace = {
+	visited: boolean,
+	event: SlowMediaStartEvent,
+	reported: boolean,
+	started: boolean,
+}
+
+export declare interface SlowMediaStartDetector extends Detector {
+	on<K extends keyof SlowMediaStartDetectorEvents>(event: K, listener: (...events: SlowMediaStartDetectorEvents[K]) => void): this;
+	off<K extends keyof SlowMediaStartDetectorEvents>(event: K, listener: (...events: SlowMediaStartDetectorEvents[K]) => void): this;
+	once<K extends keyof SlowMediaStartDetectorEvents>(event: K, listener: (...events: SlowMediaStartDetectorEvents[K]) => void): this;
+	emit<K extends keyof SlowMediaStartDetectorEvents>(event: K, ...events: SlowMediaStartDetectorEvents[K]): boolean;
+}
+
+function getTimeToMediaStart(kind: TrackStats['kind'], mediaSetup: MediaSetup): number | undefined {
+	return kind === 'video' ? mediaSetup.timeToFirstFrameInMs : mediaSetup.timeToFirstPacketInMs;
+}
+
+/**
+ * Detects inbound tracks the media of starts slowly: the first frame of a video track or the first packet
+ * of an audio track is not received within the threshold from the track is added.
+ *
+ * The slow start is reported as soon as the threshold is exceeded, and ended when the media starts,
+ * or aborted if the track is removed before its media starts.
+ * The alert is on while the media of any track is late.
+ */
+export class SlowMediaStartDetector extends EventEmitter {
+	private _closed = false;
+	private _slowTracks = 0;
+	private readonly _traces = new Map<string, MediaStartTrace>();
+
+	public constructor(
+		public readonly config: SlowMediaStartDetectorConfig,
+	) {
+		super();
+		this.setMaxListeners(Infinity);
+	}
+
+	public get closed() {
+		return this._closed;
+	}
+
+	public close() {
+		if (this._closed) return;
+		this._closed = true;
+
+		this._traces.clear();
+		this.emit('close');
+	}
+
+	public update(tracks: IterableIterator<TrackStats>, now = Date.now()) {
+
+		for (const track of tracks) {
+			if (track.direction !== 'inbound') continue;
+
+			const { trackId, kind, mediaSetup } = track;
+			let trace = this._traces.get(trackId);
+			if (!trace) {
+				trace = {
+					visited: true,
+					event: {
+						peerConnectionId: track.getPeerConnection().peerConnectionId,
+						trackId,
+						kind,
+						mediaSetup,
+					},
+					reported: false,
+					started: false,
+				};
+				this._traces.set(trackId, trace);
+			}
+			trace.visited = true;
+			trace.event.mediaSetup = mediaSetup;
+			if (trace.started) continue;
+
+			const timeToMediaStartInMs = getTimeToMediaStart(kind, mediaSetup);
+			const elapsedInMs = timeToMediaStartInMs ?? now - mediaSetup.addedAt;
+
+			if (!trace.reported && this.config.thresholdInMs <= elapsedInMs) {
+				trace.reported = true;
+				this.emit('slow-media-start', { ...trace.event });
+				this._setSlowTracks(this._slowTracks + 1);
+			}
+			if (timeToMediaStartInMs === undefined) continue;
+
+			trace.started = true;
+			if (!trace.reported) continue;
+
+			trace.reported = false;
+			this.emit('media-started', {
+				...trace.event,
+				timeToMediaStartInMs,
+			});
+			this._setSlowTracks(this._slowTracks - 1);
+		}
+
+		for (const [ trackId, trace ] of Array.from(this._traces)) {
+			if (trace.visited) {
+				trace.visited = false;
+				continue;
+			}
+			this._traces.delete(trackId);
+			if (!trace.reported) continue;
+
+			this.emit('media-start-aborted', { ...trace.event });
+			this._setSlowTracks(this._slowTracks - 1);
+		}
+	}
+
+	private _setSlowTracks(value: number) {
+		const wasAlert = 0 < this._slowTracks;
+		this._slowTracks = value;
+		const isAlert = 0 < this._slowTracks;
+
+		if (wasAlert !== isAlert) {
+			this.emit('alert-state', isAlert ? 'on' : 'off');
+		}
+	}
+}
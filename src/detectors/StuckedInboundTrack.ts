@@ -8,6 +8,7 @@ export type StuckedInboundTrackDetectorConfig = {
 }
 
 export type InboundRtpStatsTrace = {
+	peerConnectionId: string,
 	trackId: string, 
 	ssrc: number,
 	registeredAt: number,
@@ -21,6 +22,14 @@ export type InboundRtpStuckedEvent = {
 		trackId: string,
 		ssrc: number;
 	}],
+	/**
+	 * Emitted when a reported stucked track starts flowing or it is removed
+	 */
+	'stuckedtrack-ended': [{
+		peerConnectionId: string,
+		trackId: string,
+		ssrc: number;
+	}],
 	close: [],
 }
 
@@ -47,8 +56,7 @@ export class StuckedInboundTrackDetector extends EventEmitter {
 		this.setMaxListeners(Infinity);
 	}
 
-	public update(inboundRtps: IterableIterator<InboundRtpEntry>) {
-		const now = Date.now();
+	public update(inboundRtps: IterableIterator<InboundRtpEntry>, now = Date.now()) {
 		const keepingTraceIds = new Set<string>();
 
 		for (const inboundRtp of inboundRtps) {
@@ -65,10 +73,15 @@ export class StuckedInboundTrackDetector extends EventEmitter {
 			
 			if (inboundRtp.stats.bytesReceived !== 0) {
 				this._traces.delete(traceId);
-				const countBefore = this._stuckedTracks.size;
-				this._stuckedTracks.delete(traceId);
-				if (countBefore === 1 && this._stuckedTracks.size === 0) {
-					this.emit('alert-state', 'off');
+				if (this._stuckedTracks.delete(traceId)) {
+					this.emit('stuckedtrack-ended', {
+						peerConnectionId,
+						trackId,
+						ssrc,
+					});
+					if (this._stuckedTracks.size === 0) {
+						this.emit('alert-state', 'off');
+					}
 				}
 				continue;
 			}
@@ -78,6 +91,7 @@ export class StuckedInboundTrackDetector extends EventEmitter {
 			if (!trace) {
 				this._traces.set(traceId, {
 					registeredAt: now,
+					peerConnectionId,
 					ssrc,
 					trackId,
 					reported: false,
@@ -103,9 +117,18 @@ export class StuckedInboundTrackDetector extends EventEmitter {
 			}
 		}
 
-		for (const traceId of this._traces.keys()) {
-			if (!keepingTraceIds.has(traceId)) {
-				this._traces.delete(traceId);
+		for (const [ traceId, trace ] of Array.from(this._traces)) {
+			if (keepingTraceIds.has(traceId)) continue;
+			this._traces.delete(traceId);
+			if (!this._stuckedTracks.delete(traceId)) continue;
+
+			this.emit('stuckedtrack-ended', {
+				peerConnectionId: trace.peerConnectionId,
+				trackId: trace.trackId,
+				ssrc: trace.ssrc,
+			});
+			if (this._stuckedTracks.size === 0) {
+				this.emit('alert-state', 'off');
 			}
 		}
 	}
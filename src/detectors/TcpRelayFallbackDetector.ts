@@ -0,0 +1,130 @@
+import { EventEmitter } from "events";
+import { AlertState } from "../ClientMonitor";
+import { PeerConnectionEntry } from "../entries/StatsEntryInterfaces";
+import { RtcRelayProtocol } from "../schema/W3cStatsIdentifiers";
+import { Detector } from "./Detector";
+
+export type TcpRelayFallbackStartedEvent = {
+	peerConnectionId: string,
+	relayProtocol: Exclude<RtcRelayProtocol, 'udp'>,
+}
+
+export type TcpRelayFallbackEndedEvent = TcpRelayFallbackStartedEvent & {
+	/**
+	 * The relay protocol used after the fallback, undefined if the connection is not relayed anymore
+	 */
+	actualRelayProtocol?: RtcRelayProtocol,
+	durationInS: number,
+}
+
+export type TcpRelayFallbackDetectorEvents = {
+	'alert-state': [AlertState],
+	'relay-fallback-started': [TcpRelayFallbackStartedEvent],
+	'relay-fallback-ended': [TcpRelayFallbackEndedEvent],
+	close: [],
+}
+
+type RelayTrace = {
+	visited: boolean,
+	relayProtocol?: Exclude<RtcRelayProtocol, 'udp'>,
+	since: number,
+}
+
+export declare interface TcpRelayFallbackDetector extends Detector {
+	on<K extends keyof TcpRelayFallbackDetectorEvents>(event: K, listener: (...events: TcpRelayFallbackDetectorEvents[K]) => void): this;
+	off<K extends keyof TcpRelayFallbackDetectorEvents>(event: K, listener: (...events: TcpRelayFallbackDetectorEvents[K]) => void): this;
+	once<K extends keyof TcpRelayFallbackDetectorEvents>(event: K, listener: (...events: TcpRelayFallbackDetectorEvents[K]) => void): this;
+	emit<K extends keyof TcpRelayFallbackDetectorEvents>(event: K, ...events: TcpRelayFallbackDetectorEvents[K]): boolean;
+}
+
+/**
+ * Detects peer connections sending and receiving the media through a TURN server over TCP or TLS,
+ * which adds head-of-line blocking and extra latency to the media.
+ *
+ * The alert is on while any peer connection is relayed over TCP or TLS.
+ */
+export class TcpRelayFallbackDetector extends EventEmitter {
+	private _closed = false;
+	private _fallbackConnections = 0;
+	private readonly _traces = new Map<string, RelayTrace>();
+
+	public constructor() {
+		super();
+		this.setMaxListeners(Infinity);
+	}
+
+	public get closed() {
+		return this._closed;
+	}
+
+	public close() {
+		if (this._closed) return;
+		this._closed = true;
+
+		this._traces.clear();
+		this.emit('close');
+	}
+
+	public update(peerConnections: IterableIterator<PeerConnectionEntry>, now = Date.now()) {
+
+		for (const peerConnection of peerConnections) {
+			const { peerConnectionId } = peerConnection;
+			let trace = this._traces.get(peerConnectionId);
+			if (!trace) {
+				trace = {
+					visited: true,
+					since: now,
+				};
+				this._traces.set(peerConnectionId, trace);
+			}
+			trace.visited = true;
+
+			const actualRelayProtocol = peerConnection.relayProtocol;
+			const relayProtocol = actualRelayProtocol === 'tcp' || actualRelayProtocol === 'tls' ? actualRelayProtocol : undefined;
+			if (relayProtocol === trace.relayProtocol) continue;
+
+			this._end(peerConnectionId, trace, now, actualRelayProtocol);
+			if (!relayProtocol) continue;
+
+			trace.relayProtocol = relayProtocol;
+			trace.since = now;
+			this.emit('relay-fallback-started', {
+				peerConnectionId,
+				relayProtocol,
+			});
+			this._setFallbackConnections(this._fallbackConnections + 1);
+		}
+
+		for (const [ peerConnectionId, trace ] of Array.from(this._traces)) {
+			if (trace.visited) {
+				trace.visited = false;
+				continue;
+			}
+			this._end(peerConnectionId, trace, now);
+			this._traces.delete(peerConnectionId);
+		}
+	}
+
+	private _end(peerConnectionId: string, trace: RelayTrace, now: number, actualRelayProtocol?: RtcRelayProtocol) {
+		if (!trace.relayProtocol) return;
+
+		this.emit('relay-fallback-ended', {
+			peerConnectionId,
+			relayProtocol: trace.relayProtocol,
+			actualRelayProtocol,
+			durationInS: (now - trace.since) / 1000,
+		});
+		trace.relayProtocol = undefined;
+		this._setFallbackConnections(this._fallbackConnections - 1);
+	}
+
+	private _setFallbackConnections(value: number) {
+		const wasAlert = 0 < this._fallbackConnections;
+		this._fallbackConnections = value;
+		const isAlert = 0 < this._fallbackConnections;
+
+		if (wasAlert !== isAlert) {
+			this.emit('alert-state', isAlert ? 'on' : 'off');
+		}
+	}
+}
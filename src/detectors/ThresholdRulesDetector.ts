@@ -0,0 +1,292 @@
+import { EventEmitter } from "events";
+import { StatsStorage } from "../entries/StatsStorage";
+import { AlertState, ClientIssue } from "../ClientMonitor";
+import { Detector } from "./Detector";
+
+export type ThresholdRuleOperator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+/**
+ * The entries a rule can be evaluated against, the first segment of the metric of a rule
+ */
+export type ThresholdRuleTarget = 'inboundRtp' | 'outboundRtp' | 'track' | 'peerConnection';
+
+/**
+ * A declarative rule, e.g.: inboundRtp.fractionLoss > 0.05 for 3 consecutive collections on video tracks is a major issue
+ * {
+ *   "name": "high-video-loss",
+ *   "metric": "inboundRtp.fractionLoss",
+ *   "operator": ">",
+ *   "value": 0.05,
+ *   "consecutiveCollections": 3,
+ *   "kind": "video",
+ *   "severity": "major"
+ * }
+ */
+export type ThresholdRule = {
+	name: string,
+	/**
+	 * The target and the path of the metric joined by dots (e.g.: inboundRtp.fractionLoss, track.bitrate, outboundRtp.stats.framesPerSecond)
+	 */
+	metric: string,
+	operator: ThresholdRuleOperator,
+	value: number,
+	/**
+	 * The number of consecutive collections the condition must hold before the rule is triggered
+	 *
+	 * DEFAULT: 1
+	 */
+	consecutiveCollections?: number,
+	/**
+	 * If given, the rule is evaluated only for the entries of the given kind (peer connections have no kind)
+	 */
+	kind?: 'audio' | 'video',
+	severity: ClientIssue['severity'],
+	description?: string,
+}
+
+export type ThresholdRulesDetectorConfig = {
+	rules: ThresholdRule[],
+}
+
+export type ThresholdRuleEvent = {
+	rule: ThresholdRule,
+	peerConnectionId: string,
+	trackId?: string,
+	ssrc?: number,
+	value: number,
+}
+
+export type ThresholdRulesDetectorEvents = {
+	'alert-state': [AlertState],
+	'rule-triggered': [ThresholdRuleEvent],
+	/**
+	 * Emitted when the condition of a triggered rule does not hold anymore,
+	 * or the entry the rule is triggered for is removed (the value is the last value of the metric)
+	 */
+	'rule-resolved': [ThresholdRuleEvent],
+	close: [],
+}
+
+type RuleSubject = {
+	key: string,
+	entry: unknown,
+	kind?: 'audio' | 'video',
+	peerConnectionId: string,
+	trackId?: string,
+	ssrc?: number,
+}
+
+type RuleTrace = {
+	visited: boolean,
+	consecutiveCollections: number,
+	triggered: boolean,
+	lastEvent?: ThresholdRuleEvent,
+}
+
+const OPERATORS: Record<ThresholdRuleOperator, (actual: number, expected: number) => boolean> = {
+	'>': (actual, expected) => actual > expected,
+	'>=': (actual, expected) => actual >= expected,
+	'<': (actual, expected) => actual < expected,
+	'<=': (actual, expected) => actual <= expected,
+	'==': (actual, expected) => actual === expected,
+	'!=': (actual, expected) => actual !== expected,
+};
+
+const TARGETS: ThresholdRuleTarget[] = [ 'inboundRtp', 'outboundRtp', 'track', 'peerConnection' ];
+
+/**
+ * Validates the given rules (e.g.: parsed from a JSON configuration) and throws an error if any of them is invalid.
+ */
+export function validateThresholdRules(rules: unknown): ThresholdRule[] {
+	if (!Array.isArray(rules)) {
+		throw new Error('Threshold rules must be an array');
+	}
+	const names = new Set<string>();
+	for (const rule of rules as Partial<ThresholdRule>[]) {
+		if (typeof rule?.name !== 'string' || !rule.name) {
+			throw new Error('Threshold rule must have a name');
+		}
+		if (names.has(rule.name)) {
+			throw new Error(`Threshold rule ${rule.name} is defined more than once`);
+		}
+		names.add(rule.name);
+
+		const [ target, ...path ] = typeof rule.metric === 'string' ? rule.metric.split('.') : [];
+		if (!TARGETS.includes(target as ThresholdRuleTarget) || path.length < 1) {
+			throw new Error(`Threshold rule ${rule.name} has an invalid metric ${rule.metric}, it must start with one of ${TARGETS.join(', ')}`);
+		}
+		if (!rule.operator || !OPERATORS[rule.operator]) {
+			throw new Error(`Threshold rule ${rule.name} has an invalid operator ${rule.operator}`);
+		}
+		if (typeof rule.value !== 'number') {
+			throw new Error(`Threshold rule ${rule.name} must have a numeric value`);
+		}
+		if (rule.severity !== 'critical' && rule.severity !== 'major' && rule.severity !== 'minor') {
+			throw new Error(`Threshold rule ${rule.name} has an invalid severity ${rule.severity}`);
+		}
+		if (rule.consecutiveCollections !== undefined && !(1 <= rule.consecutiveCollections)) {
+			throw new Error(`Threshold rule ${rule.name} must have at least 1 consecutiveCollections`);
+		}
+	}
+	return rules as ThresholdRule[];
+}
+
+function getMetricValue(entry: unknown, path: string[]): number | undefined {
+	let result = entry;
+	for (const field of path) {
+		if (result === undefined || result === null || typeof result !== 'object') return;
+		result = (result as Record<string, unknown>)[field];
+	}
+	return typeof result === 'number' && !Number.isNaN(result) ? result : undefined;
+}
+
+export declare interface ThresholdRulesDetector extends Detector {
+	on<K extends keyof ThresholdRulesDetectorEvents>(event: K, listener: (...events: ThresholdRulesDetectorEvents[K]) => void): this;
+	off<K extends keyof ThresholdRulesDetectorEvents>(event: K, listener: (...events: ThresholdRulesDetectorEvents[K]) => void): this;
+	once<K extends keyof ThresholdRulesDetectorEvents>(event: K, listener: (...events: ThresholdRulesDetectorEvents[K]) => void): this;
+	emit<K extends keyof ThresholdRulesDetectorEvents>(event: K, ...events: ThresholdRulesDetectorEvents[K]): boolean;
+}
+
+/**
+ * Evaluates declarative threshold rules against the entries of the StatsStorage after every collection
+ */
+export class ThresholdRulesDetector extends EventEmitter {
+	private _closed = false;
+	private readonly _traces = new Map<string, RuleTrace>();
+	private _triggeredRules = 0;
+
+	public constructor(
+		public readonly config: ThresholdRulesDetectorConfig,
+	) {
+		super();
+		this.setMaxListeners(Infinity);
+		validateThresholdRules(config.rules);
+	}
+
+	public update(storage: StatsStorage) {
+		for (const trace of this._traces.values()) {
+			trace.visited = false;
+		}
+
+		for (const rule of this.config.rules) {
+			const [ target, ...path ] = rule.metric.split('.') as [ThresholdRuleTarget, ...string[]];
+			for (const subject of this._getSubjects(storage, target)) {
+				if (rule.kind && subject.kind !== rule.kind) continue;
+
+				this._evaluate(rule, path, subject);
+			}
+		}
+
+		for (const [ key, trace ] of Array.from(this._traces)) {
+			if (trace.visited) continue;
+			this._traces.delete(key);
+			if (!trace.triggered) continue;
+
+			trace.triggered = false;
+			if (trace.lastEvent) this.emit('rule-resolved', trace.lastEvent);
+			this._setTriggeredRules(this._triggeredRules - 1);
+		}
+	}
+
+	public get closed() {
+		return this._closed;
+	}
+
+	public close() {
+		if (this._closed) return;
+		this._closed = true;
+
+		this._traces.clear();
+		this.emit('close');
+	}
+
+	private _evaluate(rule: ThresholdRule, path: string[], subject: RuleSubject) {
+		const traceKey = `${rule.name}:${subject.key}`;
+		let trace = this._traces.get(traceKey);
+		if (!trace) {
+			trace = {
+				visited: true,
+				consecutiveCollections: 0,
+				triggered: false,
+			};
+			this._traces.set(traceKey, trace);
+		}
+		trace.visited = true;
+
+		const value = getMetricValue(subject.entry, path);
+		const matches = value !== undefined && OPERATORS[rule.operator](value, rule.value);
+		const event = (): ThresholdRuleEvent => ({
+			rule,
+			peerConnectionId: subject.peerConnectionId,
+			trackId: subject.trackId,
+			ssrc: subject.ssrc,
+			value: value as number,
+		});
+
+		if (value !== undefined) trace.lastEvent = event();
+
+		if (!matches) {
+			trace.consecutiveCollections = 0;
+			if (trace.triggered && value !== undefined) {
+				trace.triggered = false;
+				this.emit('rule-resolved', event());
+				this._setTriggeredRules(this._triggeredRules - 1);
+			}
+			return;
+		}
+
+		++trace.consecutiveCollections;
+		if (trace.triggered || trace.consecutiveCollections < (rule.consecutiveCollections ?? 1)) return;
+
+		trace.triggered = true;
+		this.emit('rule-triggered', event());
+		this._setTriggeredRules(this._triggeredRules + 1);
+	}
+
+	private _setTriggeredRules(value: number) {
+		const wasAlert = 0 < this._triggeredRules;
+		this._triggeredRules = value;
+		const isAlert = 0 < this._triggeredRules;
+
+		if (wasAlert !== isAlert) {
+			this.emit('alert-state', isAlert ? 'on' : 'off');
+		}
+	}
+
+	private _getSubjects(storage: StatsStorage, target: ThresholdRuleTarget): RuleSubject[] {
+		switch (target) {
+			case 'inboundRtp':
+				return Array.from(storage.inboundRtps()).map(inboundRtp => ({
+					key: `${inboundRtp.getPeerConnection().peerConnectionId}:${inboundRtp.statsId}`,
+					entry: inboundRtp,
+					kind: inboundRtp.kind,
+					peerConnectionId: inboundRtp.getPeerConnection().peerConnectionId,
+					trackId: inboundRtp.getTrackId(),
+					ssrc: inboundRtp.getSsrc(),
+				}));
+			case 'outboundRtp':
+				return Array.from(storage.outboundRtps()).map(outboundRtp => ({
+					key: `${outboundRtp.getPeerConnection().peerConnectionId}:${outboundRtp.statsId}`,
+					entry: outboundRtp,
+					kind: outboundRtp.kind,
+					peerConnectionId: outboundRtp.getPeerConnection().peerConnectionId,
+					trackId: outboundRtp.getTrackId(),
+					ssrc: outboundRtp.getSsrc(),
+				}));
+			case 'track':
+				return Array.from(storage.tracks()).map(track => ({
+					key: track.trackId,
+					entry: track,
+					kind: track.kind,
+					peerConnectionId: track.getPeerConnection().peerConnectionId,
+					trackId: track.trackId,
+				}));
+			case 'peerConnection':
+				return Array.from(storage.peerConnections()).map(peerConnection => ({
+					key: peerConnection.peerConnectionId,
+					entry: peerConnection,
+					peerConnectionId: peerConnection.peerConnectionId,
+				}));
+		}
+	}
+}
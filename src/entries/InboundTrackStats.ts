@@ -1,5 +1,67 @@
 
 import { InboundRtpEntry, PeerConnectionEntry } from "./StatsEntryInterfaces";
+import { createPacketLossAnalyzer } from "./PacketLossPattern";
+import { createMediaSetupTimeline } from "./MediaSetupTimeline";
+
+function calculateAvgScore(inboundRtps: Iterable<InboundRtpEntry>): number | undefined {
+	let sumScore = 0;
+	let scoreCount = 0;
+	for (const inboundRtp of inboundRtps) {
+		if (inboundRtp.score === undefined) continue;
+		sumScore += inboundRtp.score;
+		++scoreCount;
+	}
+	return scoreCount > 0 ? Math.round((sumScore / scoreCount) * 100) / 100 : undefined;
+}
+
+type JitterBufferSnapshot = {
+	timestamp: number,
+	jitterBufferDelay: number,
+	jitterBufferTargetDelay: number,
+	jitterBufferMinimumDelay: number,
+	jitterBufferEmittedCount: number,
+}
+
+type JitterBufferDelays = {
+	jitterBufferDelayInMs?: number,
+	jitterBufferTargetDelayInMs?: number,
+	jitterBufferMinimumDelayInMs?: number,
+}
+
+function createJitterBufferSnapshot(inboundRtp: InboundRtpEntry): JitterBufferSnapshot {
+	return {
+		timestamp: inboundRtp.stats.timestamp,
+		jitterBufferDelay: inboundRtp.stats.jitterBufferDelay ?? 0,
+		jitterBufferTargetDelay: inboundRtp.stats.jitterBufferTargetDelay ?? 0,
+		jitterBufferMinimumDelay: inboundRtp.stats.jitterBufferMinimumDelay ?? 0,
+		jitterBufferEmittedCount: inboundRtp.stats.jitterBufferEmittedCount ?? 0,
+	};
+}
+
+/**
+ * Calculates the average jitter buffer delays of the samples / frames emitted since the previous collection
+ */
+function calculateJitterBufferDelays(snapshots: Iterable<{ actual: JitterBufferSnapshot, previous?: JitterBufferSnapshot }>): JitterBufferDelays {
+	let emittedCount = 0;
+	let delay = 0;
+	let targetDelay = 0;
+	let minimumDelay = 0;
+	for (const { actual, previous } of snapshots) {
+		if (!previous) continue;
+		const dEmittedCount = actual.jitterBufferEmittedCount - previous.jitterBufferEmittedCount;
+		if (dEmittedCount < 1) continue;
+		emittedCount += dEmittedCount;
+		delay += actual.jitterBufferDelay - previous.jitterBufferDelay;
+		targetDelay += actual.jitterBufferTargetDelay - previous.jitterBufferTargetDelay;
+		minimumDelay += actual.jitterBufferMinimumDelay - previous.jitterBufferMinimumDelay;
+	}
+	if (emittedCount < 1) return {};
+	return {
+		jitterBufferDelayInMs: (delay / emittedCount) * 1000,
+		jitterBufferTargetDelayInMs: (targetDelay / emittedCount) * 1000,
+		jitterBufferMinimumDelayInMs: (minimumDelay / emittedCount) * 1000,
+	};
+}
 
 export type InboundTrackStats = ReturnType<typeof createInboundTrackStats> & {
 	direction: 'inbound';
@@ -18,6 +80,10 @@ export function createInboundTrackStats(peerConnection: PeerConnectionEntry, tra
 		let sfuStreamId = inboundRtps.find(inboundRtp => inboundRtp.sfuStreamId !== undefined)?.sfuStreamId;
 		let sfuSinkId = inboundRtps.find(inboundRtp => inboundRtp.sfuSinkId !== undefined)?.sfuSinkId;
 		let remoteClientId = inboundRtps.find(inboundRtp => inboundRtp.remoteClientId !== undefined)?.remoteClientId;
+		const packetLossAnalyzer = createPacketLossAnalyzer();
+		const jitterBufferSnapshots = new Map<string, { actual: JitterBufferSnapshot, previous?: JitterBufferSnapshot }>();
+		const mediaSetupTimeline = createMediaSetupTimeline(inboundRtps.reduce((acc, inboundRtp) => Math.max(acc, inboundRtp.stats.timestamp), 0) || Date.now());
+		mediaSetupTimeline.update(inboundRtps.map(inboundRtp => inboundRtp.stats));
 		const result = {
 			direction: 'inbound',
 			trackId,
@@ -66,8 +132,38 @@ export function createInboundTrackStats(peerConnection: PeerConnectionEntry, tra
 			silentConcealedSamples: inboundRtps.reduce((acc, inboundRtp) => acc + (inboundRtp.silentConcealedSamples ?? 0), 0),
 			fractionLoss: inboundRtps.reduce((acc, inboundRtp) => acc + (inboundRtp.fractionLoss ?? 0), 0),
 			jitter: inboundRtps.reduce((acc, inboundRtp) => acc + (inboundRtp.stats.jitter ?? 0), 0),
+			/**
+			 * The average of the quality scores (MOS, 1 - 5) of the inbound-rtps of the track
+			 */
+			score: calculateAvgScore(inboundRtps),
+			/**
+			 * The loss episodes (bursts) of the track and the density of the loss in and out of them
+			 */
+			lossPattern: packetLossAnalyzer.getPattern(),
+			/**
+			 * The average time the samples / frames emitted since the last collection spent in the jitter buffer
+			 */
+			jitterBufferDelayInMs: undefined as number | undefined,
+			jitterBufferTargetDelayInMs: undefined as number | undefined,
+			jitterBufferMinimumDelayInMs: undefined as number | undefined,
+			/**
+			 * The estimated latency of the received media: the one way network delay (half of the round trip time)
+			 * and the time spent in the jitter buffer
+			 */
+			estimatedLatencyInMs: undefined as number | undefined,
+			/**
+			 * The time it took from the track is added until its first packet is received and its first frame is decoded and rendered
+			 */
+			mediaSetup: mediaSetupTimeline.getState(),
 
 			getPeerConnection: () => peerConnection,
+			/**
+			 * Sets the time the track is added, the media setup is measured from
+			 */
+			setAddedAt: (timestamp: number) => {
+				mediaSetupTimeline.setAddedAt(timestamp);
+				result.mediaSetup = mediaSetupTimeline.getState();
+			},
 			inboundRtps(): IterableIterator<InboundRtpEntry> {
 				return iterator();
 			},
@@ -86,6 +182,7 @@ export function createInboundTrackStats(peerConnection: PeerConnectionEntry, tra
 
 				let sumRoundTripTimeInS = 0;
 				let roundTripTimeCount = 0;
+				let timestamp = 0;
 				for (const inboundRtp of iterator()) {
 					inboundRtp.sfuStreamId = result.sfuStreamId;
 					inboundRtp.sfuSinkId = result.sfuSinkId;
@@ -100,6 +197,15 @@ export function createInboundTrackStats(peerConnection: PeerConnectionEntry, tra
 					result.silentConcealedSamples += inboundRtp.silentConcealedSamples ?? 0;
 					result.fractionLoss += inboundRtp.fractionLoss ?? 0;
 					result.jitter += inboundRtp.stats.jitter ?? 0;
+					timestamp = Math.max(timestamp, inboundRtp.stats.timestamp);
+
+					const snapshots = jitterBufferSnapshots.get(inboundRtp.statsId);
+					if (!snapshots) {
+						jitterBufferSnapshots.set(inboundRtp.statsId, { actual: createJitterBufferSnapshot(inboundRtp) });
+					} else if (snapshots.actual.timestamp !== inboundRtp.stats.timestamp) {
+						snapshots.previous = snapshots.actual;
+						snapshots.actual = createJitterBufferSnapshot(inboundRtp);
+					}
 					
 					const rttInS = inboundRtp.getRemoteOutboundRtp()?.stats.roundTripTime;
 					if (rttInS) {
@@ -108,7 +214,29 @@ export function createInboundTrackStats(peerConnection: PeerConnectionEntry, tra
 					}
 				}
 				result.receivingBitrate = result.bitrate;
+				result.score = calculateAvgScore(iterator());
 				result.roundTripTimeInS = roundTripTimeCount > 0 ? sumRoundTripTimeInS / roundTripTimeCount : 0;
+
+				// the track is updated for every inbound-rtp of it, but the loss of a collection is analyzed once
+				packetLossAnalyzer.update(result.lostPackets, result.receivedPackets, timestamp);
+				result.lossPattern = packetLossAnalyzer.getPattern();
+
+				mediaSetupTimeline.update(Array.from(iterator()).map(inboundRtp => inboundRtp.stats));
+				result.mediaSetup = mediaSetupTimeline.getState();
+
+				const statsIds = new Set(Array.from(iterator()).map(inboundRtp => inboundRtp.statsId));
+				for (const statsId of Array.from(jitterBufferSnapshots.keys())) {
+					if (!statsIds.has(statsId)) jitterBufferSnapshots.delete(statsId);
+				}
+				const jitterBufferDelays = calculateJitterBufferDelays(jitterBufferSnapshots.values());
+				result.jitterBufferDelayInMs = jitterBufferDelays.jitterBufferDelayInMs;
+				result.jitterBufferTargetDelayInMs = jitterBufferDelays.jitterBufferTargetDelayInMs;
+				result.jitterBufferMinimumDelayInMs = jitterBufferDelays.jitterBufferMinimumDelayInMs;
+
+				const roundTripTimeInS = 0 < result.roundTripTimeInS ? result.roundTripTimeInS : peerConnection.avgRttInS;
+				result.estimatedLatencyInMs = result.jitterBufferDelayInMs !== undefined
+					? result.jitterBufferDelayInMs + ((roundTripTimeInS ?? 0) * 1000) / 2
+					: undefined;
 			}
 		};
 		return result;
@@ -0,0 +1,86 @@
+import * as W3C from '../schema/W3cStatsIdentifiers';
+
+/**
+ * The milestones of the media setup of an inbound track, the timestamps are taken from the stats
+ * of the first collection the milestone is reached, so they are accurate within the collecting period.
+ */
+export type MediaSetup = {
+    /**
+     * The time the track was added (MEDIA_TRACK_ADDED call event),
+     * or the time the track was first seen in the stats if the event is not captured
+     */
+    addedAt: number,
+    /**
+     * The time the packetsReceived of the track went above zero
+     */
+    firstPacketReceivedAt?: number,
+    /**
+     * The time the framesDecoded of a video track went above zero
+     */
+    firstFrameDecodedAt?: number,
+    /**
+     * The time the framesRendered of a video track went above zero, if the browser provides it
+     */
+    firstFrameRenderedAt?: number,
+    timeToFirstPacketInMs?: number,
+    timeToFirstFrameInMs?: number,
+}
+
+export type MediaSetupTimeline = ReturnType<typeof createMediaSetupTimeline>;
+
+/**
+ * Creates a timeline of the media setup of an inbound track from the consecutive stats of its inbound-rtps.
+ *
+ * @param firstSeenAt the time the track is first seen in the stats, used until the time the track is added is set
+ */
+export function createMediaSetupTimeline(firstSeenAt: number) {
+    let addedAt: number | undefined;
+    let firstPacketReceivedAt: number | undefined;
+    let firstFrameDecodedAt: number | undefined;
+    let firstFrameRenderedAt: number | undefined;
+
+    /**
+     * Sets the time the track is added (e.g.: by the MEDIA_TRACK_ADDED call event)
+     */
+    function setAddedAt(timestamp: number) {
+        addedAt = timestamp;
+    }
+
+    /**
+     * Updates the timeline with the stats of the inbound-rtps of the track collected at the same time
+     */
+    function update(inboundRtps: W3C.InboundRtpStats[]) {
+        if (inboundRtps.length < 1) return;
+        const timestamp = inboundRtps.reduce((acc, stats) => Math.max(acc, stats.timestamp), 0);
+
+        if (firstPacketReceivedAt === undefined && inboundRtps.some(stats => 0 < (stats.packetsReceived ?? 0))) {
+            firstPacketReceivedAt = timestamp;
+        }
+        if (firstFrameDecodedAt === undefined && inboundRtps.some(stats => 0 < (stats.framesDecoded ?? 0))) {
+            firstFrameDecodedAt = timestamp;
+        }
+        if (firstFrameRenderedAt === undefined && inboundRtps.some(stats => 0 < (stats.framesRendered ?? 0))) {
+            firstFrameRenderedAt = timestamp;
+        }
+    }
+
+    function getState(): MediaSetup {
+        const startedAt = addedAt ?? firstSeenAt;
+        const firstFrameAt = firstFrameRenderedAt ?? firstFrameDecodedAt;
+
+        return {
+            addedAt: startedAt,
+            firstPacketReceivedAt,
+            firstFrameDecodedAt,
+            firstFrameRenderedAt,
+            timeToFirstPacketInMs: firstPacketReceivedAt !== undefined ? Math.max(0, firstPacketReceivedAt - startedAt) : undefined,
+            timeToFirstFrameInMs: firstFrameAt !== undefined ? Math.max(0, firstFrameAt - startedAt) : undefined,
+        };
+    }
+
+    return {
+        setAddedAt,
+        update,
+        getState,
+    };
+}
@@ -1,4 +1,49 @@
 import { OutboundRtpEntry, PeerConnectionEntry } from "./StatsEntryInterfaces";
+import { calculateAudioMOS, calculateVideoMOS } from "./UpdateFields";
+import { createQualityLimitationTimeline } from "./QualityLimitationTimeline";
+
+/**
+ * Calculates the quality score (MOS, 1 - 5) of an outbound-rtp based on the feedback of the remote side
+ * (the OutboundRtpEntry.score is the stability score of the rtp session, not a MOS)
+ */
+function calculateOutboundRtpScore(outboundRtp: OutboundRtpEntry): number | undefined {
+	const remoteInboundRtp = outboundRtp.getRemoteInboundRtp();
+	if (outboundRtp.sendingBitrate === undefined || !remoteInboundRtp) return;
+
+	const roundTripTimeInMs = (remoteInboundRtp.stats.roundTripTime ?? 0) * 1000.0;
+	if (outboundRtp.stats.kind === 'audio') {
+		return calculateAudioMOS(
+			outboundRtp.sendingBitrate,
+			remoteInboundRtp.stats.fractionLost ?? 0,
+			(remoteInboundRtp.stats.jitter ?? 0) * 1000.0,
+			roundTripTimeInMs,
+			false,
+			false,
+		);
+	}
+	const mediaSource = outboundRtp.getMediaSource()?.stats;
+	return calculateVideoMOS(
+		outboundRtp.sendingBitrate,
+		outboundRtp.stats.frameWidth ?? mediaSource?.width ?? 640,
+		outboundRtp.stats.frameHeight ?? mediaSource?.height ?? 480,
+		0,
+		roundTripTimeInMs,
+		'vp8',
+		outboundRtp.stats.framesPerSecond ?? 30,
+		mediaSource?.framesPerSecond ?? 30,
+	);
+}
+
+function calculateMaxScore(outboundRtps: Iterable<OutboundRtpEntry>): number | undefined {
+	let result: number | undefined;
+	for (const outboundRtp of outboundRtps) {
+		const score = calculateOutboundRtpScore(outboundRtp);
+		if (score === undefined) continue;
+		// in case of simulcast the score of the best layer is taken
+		result = Math.max(result ?? score, score);
+	}
+	return result;
+}
 
 export type OutboundTrackStats = ReturnType<typeof createOutboundTrackStats> & {
 	direction: 'outbound';
@@ -19,6 +64,7 @@ export function createOutboundTrackStats(peerConnection: PeerConnectionEntry, tr
 			.map(rtp => ({ ssrc: rtp.getSsrc()!, rid: rtp.stats.rid!, sendingBitrate: rtp.sendingBitrate! }));
 
 		let sfuStreamId = outboundRtps.find(outboundRtp => outboundRtp.sfuStreamId !== undefined)?.sfuStreamId;
+		const qualityLimitationTimeline = createQualityLimitationTimeline();
 		const result = {
 			direction: 'outbound',
 			trackId,
@@ -40,6 +86,14 @@ export function createOutboundTrackStats(peerConnection: PeerConnectionEntry, tr
 			fractionLoss: outboundRtps.reduce((acc, outboundRtp) => acc + (outboundRtp.getRemoteInboundRtp()?.stats.fractionLost ?? 0), 0),
 			roundTripTimeInS: -1,
 			jitter: outboundRtps.reduce((acc, outboundRtp) => acc + (outboundRtp.getRemoteInboundRtp()?.stats.jitter ?? 0), 0),
+			/**
+			 * The quality score (MOS, 1 - 5) of the track calculated from the feedback of the remote side
+			 */
+			score: calculateMaxScore(outboundRtps),
+			/**
+			 * The quality limitation reason, durations and the timeline of the limitation episodes of a video track
+			 */
+			qualityLimitation: kind === 'video' ? qualityLimitationTimeline.getState() : undefined,
 
 			getPeerConnection: () => peerConnection,
 			outboundRtps(): IterableIterator<OutboundRtpEntry> {
@@ -83,7 +137,14 @@ export function createOutboundTrackStats(peerConnection: PeerConnectionEntry, tr
 				}
 
 				result.sendingBitrate = result.bitrate;
+				result.score = calculateMaxScore(iterator());
 				result.roundTripTimeInS = roundTripTimeCount > 0 ? sumRoundTripTimeInS / roundTripTimeCount : -1;
+
+				if (kind === 'video') {
+					// the track is updated for every outbound-rtp of it, but a collection is added to the timeline once
+					qualityLimitationTimeline.update(Array.from(iterator()).map(outboundRtp => outboundRtp.stats));
+					result.qualityLimitation = qualityLimitationTimeline.getState();
+				}
 			}
 		};
 		return result;
@@ -0,0 +1,133 @@
+/**
+ * A period of consecutive collections the packet loss of a track was above the burst threshold
+ */
+export type PacketLossEpisode = {
+    startedAt: number,
+    /**
+     * The time of the first collection the loss was below the burst threshold again,
+     * undefined if the episode is ongoing
+     */
+    endedAt?: number,
+    lostPackets: number,
+    /**
+     * The number of lost and received packets during the episode
+     */
+    expectedPackets: number,
+    fractionLoss: number,
+}
+
+export type PacketLossPattern = {
+    /**
+     * The last episodes of the track in the order they started, including the ongoing one
+     */
+    episodes: PacketLossEpisode[],
+    activeEpisode?: PacketLossEpisode,
+    /**
+     * The average number of packets (lost and received) in an episode
+     */
+    meanBurstLength: number,
+    meanBurstDurationInMs: number,
+    /**
+     * The fraction of packets lost during the episodes
+     */
+    burstDensity: number,
+    /**
+     * The fraction of packets lost outside of the episodes
+     */
+    gapDensity: number,
+}
+
+export type PacketLossAnalyzerConfig = {
+    /**
+     * The fraction loss of a collection at or above which the collection belongs to a loss episode
+     */
+    burstFractionLossThreshold: number,
+    /**
+     * The maximum number of episodes kept
+     */
+    maxEpisodes: number,
+}
+
+export type PacketLossAnalyzer = ReturnType<typeof createPacketLossAnalyzer>;
+
+/**
+ * Creates an analyzer splitting the lost and received packets of the consecutive collections
+ * to loss episodes (bursts) and gaps between them.
+ *
+ * The analysis is based on the deltas of the collections, so a burst shorter than the collecting period
+ * is measured as long as the collecting period.
+ */
+export function createPacketLossAnalyzer(config?: Partial<PacketLossAnalyzerConfig>) {
+    const burstFractionLossThreshold = config?.burstFractionLossThreshold ?? 0.05;
+    const maxEpisodes = config?.maxEpisodes ?? 20;
+    const episodes: PacketLossEpisode[] = [];
+    let activeEpisode: PacketLossEpisode | undefined;
+    let lastTimestamp: number | undefined;
+    let burstLostPackets = 0;
+    let burstExpectedPackets = 0;
+    let gapLostPackets = 0;
+    let gapExpectedPackets = 0;
+    let totalEpisodes = 0;
+    let totalEpisodesDurationInMs = 0;
+    let endedEpisodes = 0;
+
+    /**
+     * Adds the lost and received packets of a collection
+     *
+     * @param timestamp the time of the collection, a collection is added only once
+     */
+    function update(lostPackets: number, receivedPackets: number, timestamp: number) {
+        if (lastTimestamp !== undefined && timestamp <= lastTimestamp) return;
+        lastTimestamp = timestamp;
+
+        const expectedPackets = Math.max(0, lostPackets) + Math.max(0, receivedPackets);
+        // nothing is received or lost, e.g.: the track is paused
+        if (expectedPackets < 1) return;
+
+        const fractionLoss = Math.max(0, lostPackets) / expectedPackets;
+        if (fractionLoss < burstFractionLossThreshold) {
+            if (activeEpisode) {
+                activeEpisode.endedAt = timestamp;
+                totalEpisodesDurationInMs += timestamp - activeEpisode.startedAt;
+                ++endedEpisodes;
+                activeEpisode = undefined;
+            }
+            gapLostPackets += Math.max(0, lostPackets);
+            gapExpectedPackets += expectedPackets;
+            return;
+        }
+
+        if (!activeEpisode) {
+            activeEpisode = {
+                startedAt: timestamp,
+                lostPackets: 0,
+                expectedPackets: 0,
+                fractionLoss: 0,
+            };
+            episodes.push(activeEpisode);
+            ++totalEpisodes;
+            if (maxEpisodes < episodes.length) episodes.shift();
+        }
+        activeEpisode.lostPackets += lostPackets;
+        activeEpisode.expectedPackets += expectedPackets;
+        activeEpisode.fractionLoss = activeEpisode.lostPackets / activeEpisode.expectedPackets;
+        burstLostPackets += lostPackets;
+        burstExpectedPackets += expectedPackets;
+    }
+
+    function getPattern(): PacketLossPattern {
+        return {
+            episodes: episodes.map(episode => ({ ...episode })),
+            activeEpisode: activeEpisode ? { ...activeEpisode } : undefined,
+            meanBurstLength: 0 < totalEpisodes ? burstExpectedPackets / totalEpisodes : 0,
+            meanBurstDurationInMs: 0 < endedEpisodes ? totalEpisodesDurationInMs / endedEpisodes : 0,
+            burstDensity: 0 < burstExpectedPackets ? burstLostPackets / burstExpectedPackets : 0,
+            gapDensity: 0 < gapExpectedPackets ? gapLostPackets / gapExpectedPackets : 0,
+        };
+    }
+
+    return {
+        update,
+        getPattern,
+    };
+}
@@ -71,6 +71,24 @@ export class PeerConnectionEntryManifest implements PeerConnectionEntry {
     public receivingVideoBitrate?: number;
     public receivingFractionLost?: number;
 
+    /**
+     * The average and the minimum of the quality scores (MOS) of the tracks of the peer connection,
+     * updated by the StatsStorage
+     */
+    public avgScore?: number;
+    public minScore?: number;
+
+    /**
+     * The time spent on each relay protocol of the selected candidate pair,
+     * none is the time spent on a direct (not relayed) connection
+     */
+    public readonly relayProtocolDurationsInMs: Record<W3C.RtcRelayProtocol | 'none', number> = {
+        none: 0,
+        udp: 0,
+        tcp: 0,
+        tls: 0,
+    };
+
     private _connectionState: W3C.RtcPeerConnectionState = 'new';
     public _connectingStartedAt?: number;
     public _connectionEstablihedDurationInMs?: number;
@@ -83,6 +101,9 @@ export class PeerConnectionEntryManifest implements PeerConnectionEntry {
     private readonly _emitter = new TypedEventEmitter<PeerConnectionEntryEvents>();
 
     private _closed = false;
+    private _relayProtocolUpdatedAt?: number;
+    private _networkInterface?: { networkType?: W3C.RtcNetworkType, address?: string, candidatePairId?: string };
+    private _disconnectedAt?: number;
     public stats: W3C.PeerConnectionStats | undefined;
 
     private readonly _codecs = new Map<string, CodecEntry>();
@@ -174,6 +195,21 @@ export class PeerConnectionEntryManifest implements PeerConnectionEntry {
             (this.getSelectedIceCandidatePair()?.getRemoteCandidate()?.stats.url?.startsWith('turn:') ?? false);
     }
 
+    /**
+     * The transport protocol between the client and the TURN server (relayProtocol of the local candidate of the selected candidate pair),
+     * undefined if the connection is not relayed.
+     */
+    public get relayProtocol(): W3C.RtcRelayProtocol | undefined {
+        const localCandidate = this.getSelectedIceCandidatePair()?.getLocalCandidate()?.stats;
+        if (localCandidate?.candidateType !== 'relay') return;
+
+        return localCandidate.relayProtocol;
+    }
+
+    public get networkType(): W3C.RtcNetworkType | undefined {
+        return this.getSelectedIceCandidatePair()?.getLocalCandidate()?.stats.networkType;
+    }
+
     public get iceState() {
         return this.getSelectedIceCandidatePair()?.getTransport()?.stats.iceState;
     }
@@ -207,7 +243,7 @@ export class PeerConnectionEntryManifest implements PeerConnectionEntry {
     }
 
     private _getStateSummaryString() {
-        return `${this.iceState}-${this.usingTCP}-${this.usingTURN}`;
+        return `${this.iceState}-${this.usingTCP}-${this.usingTURN}-${this.relayProtocol}`;
     }
 
     private _emitState() {
@@ -216,11 +252,13 @@ export class PeerConnectionEntryManifest implements PeerConnectionEntry {
             iceState: this.iceState,
             usingTCP: this.usingTCP,
             usingTURN: this.usingTURN,
+            relayProtocol: this.relayProtocol,
         });
     }
 
-    public update(statsMap: StatsMap) {
+    public update(statsMap: StatsMap, timestamp = Date.now()) {
         const oldStateSummary = this._getStateSummaryString();
+        const oldRelayProtocol = this.getSelectedIceCandidatePair() ? this.relayProtocol ?? 'none' : undefined;
 
         for (const statsValue of statsMap) {
             this._visit(statsValue);
@@ -230,6 +268,8 @@ export class PeerConnectionEntryManifest implements PeerConnectionEntry {
         
         this._trimEntries();
         this._updateMetrics();
+        this._updateRelayProtocolDurations(timestamp, oldRelayProtocol);
+        this._updateNetworkInterface(timestamp);
 
         if (oldStateSummary !== newStateSummary) {
             this._emitState();
@@ -586,6 +626,49 @@ export class PeerConnectionEntryManifest implements PeerConnectionEntry {
         entry.visited = true;
     }
 
+    private _updateRelayProtocolDurations(now: number, relayProtocol?: W3C.RtcRelayProtocol | 'none') {
+        // the relay protocol of the previous update is considered to be used until now
+        if (relayProtocol && this._relayProtocolUpdatedAt !== undefined) {
+            this.relayProtocolDurationsInMs[relayProtocol] += now - this._relayProtocolUpdatedAt;
+        }
+        this._relayProtocolUpdatedAt = now;
+    }
+
+    private _updateNetworkInterface(now: number) {
+        const { iceState, connectionState } = this;
+        if (iceState === 'disconnected' || iceState === 'failed' || connectionState === 'disconnected' || connectionState === 'failed') {
+            this._disconnectedAt = this._disconnectedAt ?? now;
+            return;
+        }
+        const selectedCandidatePair = this.getSelectedIceCandidatePair();
+        const localCandidate = selectedCandidatePair?.getLocalCandidate()?.stats;
+        if (!selectedCandidatePair || !localCandidate) return;
+
+        const previous = this._networkInterface;
+        const actual = {
+            networkType: localCandidate.networkType,
+            // the address of a relayed or server reflexive candidate is not the address of the local interface
+            address: localCandidate.candidateType === 'host' ? localCandidate.address : localCandidate.relatedAddress ?? localCandidate.address,
+            candidatePairId: selectedCandidatePair.statsId,
+        };
+        const reconnectionTimeInMs = this._disconnectedAt !== undefined ? now - this._disconnectedAt : 0;
+        this._networkInterface = actual;
+        this._disconnectedAt = undefined;
+
+        if (!previous || (previous.networkType === actual.networkType && previous.address === actual.address)) return;
+
+        this._emitter.emit('network-changed', {
+            previousNetworkType: previous.networkType,
+            networkType: actual.networkType,
+            previousAddress: previous.address,
+            address: actual.address,
+            previousCandidatePairId: previous.candidatePairId,
+            candidatePairId: actual.candidatePairId,
+            switchedAt: now,
+            reconnectionTimeInMs,
+        });
+    }
+
     private _updateMetrics() {
         this.deltaInboundPacketsLost = 0;
         this.deltaInboundPacketsReceived = 0;
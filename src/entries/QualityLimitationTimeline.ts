@@ -0,0 +1,113 @@
+import * as W3C from '../schema/W3cStatsIdentifiers';
+
+export type QualityLimitationReason = W3C.RtcQualityLimitationReason;
+
+/**
+ * A period the encoder of an outbound video track was limited by the same reason
+ */
+export type QualityLimitationEpisode = {
+    reason: Exclude<QualityLimitationReason, 'none'>,
+    startedAt: number,
+    /**
+     * undefined if the episode is ongoing
+     */
+    endedAt?: number,
+    durationInMs: number,
+    /**
+     * The number of resolution changes caused by the limitation during the episode
+     */
+    resolutionChanges: number,
+}
+
+export type QualityLimitation = {
+    reason: QualityLimitationReason,
+    /**
+     * The total time in seconds the encoder spent in the given limitation state (qualityLimitationDurations)
+     */
+    durationsInS: Record<QualityLimitationReason, number>,
+    /**
+     * The total number of resolution changes caused by quality limitation (qualityLimitationResolutionChanges)
+     */
+    resolutionChanges: number,
+    /**
+     * The last limitation episodes in the order they started, including the ongoing one
+     */
+    episodes: QualityLimitationEpisode[],
+}
+
+export type QualityLimitationTimeline = ReturnType<typeof createQualityLimitationTimeline>;
+
+/**
+ * Creates a timeline of the quality limitation episodes of an outbound video track
+ * from the consecutive stats of its outbound-rtps.
+ */
+export function createQualityLimitationTimeline(maxEpisodes = 20) {
+    const episodes: QualityLimitationEpisode[] = [];
+    const durationsInS: Record<QualityLimitationReason, number> = {
+        none: 0,
+        cpu: 0,
+        bandwidth: 0,
+        other: 0,
+    };
+    let reason: QualityLimitationReason = 'none';
+    let resolutionChanges = 0;
+    let activeEpisode: QualityLimitationEpisode | undefined;
+    let activeEpisodeResolutionChanges = 0;
+    let lastTimestamp: number | undefined;
+
+    /**
+     * Updates the timeline with the stats of the outbound-rtps of the track collected at the same time,
+     * a collection is added only once.
+     */
+    function update(outboundRtps: W3C.OutboundRtpStats[]) {
+        const timestamp = outboundRtps.reduce((acc, stats) => Math.max(acc, stats.timestamp), 0);
+        if (outboundRtps.length < 1 || (lastTimestamp !== undefined && timestamp <= lastTimestamp)) return;
+        lastTimestamp = timestamp;
+
+        // in case of simulcast the layers share the encoder limitation, the most limited layer is taken
+        const actualReason = outboundRtps.find(stats => stats.qualityLimitationReason && stats.qualityLimitationReason !== 'none')?.qualityLimitationReason ??
+            outboundRtps.find(stats => stats.qualityLimitationReason)?.qualityLimitationReason ??
+            reason;
+        for (const key of Object.keys(durationsInS) as QualityLimitationReason[]) {
+            durationsInS[key] = outboundRtps.reduce((acc, stats) => Math.max(acc, stats.qualityLimitationDurations?.[key] ?? 0), durationsInS[key]);
+        }
+        resolutionChanges = outboundRtps.reduce((acc, stats) => Math.max(acc, stats.qualityLimitationResolutionChanges ?? 0), resolutionChanges);
+
+        if (activeEpisode) {
+            activeEpisode.durationInMs = timestamp - activeEpisode.startedAt;
+            activeEpisode.resolutionChanges = resolutionChanges - activeEpisodeResolutionChanges;
+        }
+        if (actualReason === reason) return;
+
+        if (activeEpisode) {
+            activeEpisode.endedAt = timestamp;
+            activeEpisode = undefined;
+        }
+        reason = actualReason;
+        if (reason === 'none') return;
+
+        activeEpisode = {
+            reason,
+            startedAt: timestamp,
+            durationInMs: 0,
+            resolutionChanges: 0,
+        };
+        activeEpisodeResolutionChanges = resolutionChanges;
+        episodes.push(activeEpisode);
+        if (maxEpisodes < episodes.length) episodes.shift();
+    }
+
+    function getState(): QualityLimitation {
+        return {
+            reason,
+            durationsInS: { ...durationsInS },
+            resolutionChanges,
+            episodes: episodes.map(episode => ({ ...episode })),
+        };
+    }
+
+    return {
+        update,
+        getState,
+    };
+}
@@ -15,6 +15,10 @@ export type TrackStats = (InboundTrackStats | OutboundTrackStats) & {
     fractionLoss: number;
     roundTripTimeInS: number;
     jitter: number;
+    /**
+     * The estimated latency of the received media, only calculated for inbound tracks
+     */
+    estimatedLatencyInMs?: number;
 };
 
 /**
@@ -322,6 +326,28 @@ export type PeerConnectionStateUpdated = {
     iceState?: W3C.RtcIceTransportState,
     usingTURN: boolean,
     usingTCP: boolean,
+    relayProtocol?: W3C.RtcRelayProtocol,
+}
+
+/**
+ * The network interface of the selected candidate pair is changed (e.g.: wifi -> cellular)
+ */
+export type NetworkChangedEvent = {
+    previousNetworkType?: W3C.RtcNetworkType,
+    networkType?: W3C.RtcNetworkType,
+    previousAddress?: string,
+    address?: string,
+    previousCandidatePairId?: string,
+    candidatePairId?: string,
+    /**
+     * The timestamp the new candidate pair was found selected
+     */
+    switchedAt: number,
+    /**
+     * The time the peer connection was disconnected before the new candidate pair was selected,
+     * 0 if no disconnection was observed
+     */
+    reconnectionTimeInMs: number,
 }
 
 export type PeerConnectionEntryEvents = {
@@ -334,6 +360,7 @@ export type PeerConnectionEntryEvents = {
     'remote-outbound-rtp-added': RemoteOutboundRtpEntry,
     'remote-outbound-rtp-removed': RemoteOutboundRtpEntry,
     'state-updated': PeerConnectionStateUpdated,
+    'network-changed': NetworkChangedEvent,
     // 'connecting': void,
     // 'connected': void,
     'close': undefined,
@@ -352,6 +379,18 @@ export interface PeerConnectionEntry {
 
     readonly usingTCP: boolean;
     readonly usingTURN: boolean;
+    /**
+     * The transport protocol between the client and the TURN server, undefined if the connection is not relayed
+     */
+    readonly relayProtocol?: W3C.RtcRelayProtocol;
+    /**
+     * The time spent on each relay protocol, none is the time spent on a direct connection
+     */
+    readonly relayProtocolDurationsInMs: Readonly<Record<W3C.RtcRelayProtocol | 'none', number>>;
+    /**
+     * The type of the network interface of the selected candidate pair (networkType of the local candidate)
+     */
+    readonly networkType?: W3C.RtcNetworkType;
 
     readonly totalInboundPacketsLost: number;
     readonly totalInboundPacketsReceived: number;
@@ -385,6 +424,9 @@ export interface PeerConnectionEntry {
     readonly receivingAudioBitrate?: number;
     readonly receivingVideoBitrate?: number;
     readonly receivingFractionalLoss?: number;
+
+    readonly avgScore?: number;
+    readonly minScore?: number;
     
     connectionState: W3C.RtcPeerConnectionState;
     connectionEstablishedDurationInMs?: number;
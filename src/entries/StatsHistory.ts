@@ -0,0 +1,142 @@
+import { createRingBuffer, RingBuffer } from "../utils/RingBuffer";
+
+export type TrackHistoryMetric =
+    | 'bitrate'
+    | 'roundTripTimeInS'
+    | 'fractionLoss'
+    | 'jitter'
+    | 'framesPerSecond'
+    | 'score'
+    ;
+
+export type PeerConnectionHistoryMetric =
+    | 'sendingBitrate'
+    | 'receivingBitrate'
+    | 'roundTripTimeInS'
+    | 'sendingFractionLost'
+    | 'receivingFractionLost'
+    | 'availableOutgoingBitrate'
+    | 'availableIncomingBitrate'
+    ;
+
+export type HistoryPoint = {
+    timestamp: number,
+    value: number,
+}
+
+/**
+ * Calculates the given percentile (0 - 100) of the values of the points using linear interpolation
+ */
+export function calculatePercentile(points: HistoryPoint[], percentile: number): number | undefined {
+    if (points.length < 1) return;
+    const values = points.map(point => point.value).sort((a, b) => a - b);
+    const position = (Math.min(100, Math.max(0, percentile)) / 100) * (values.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+
+    return values[lower] + (values[upper] - values[lower]) * (position - lower);
+}
+
+/**
+ * Calculates the simple moving average of the points, every point of the result is the average of
+ * the last windowLength number of points until the timestamp of the point.
+ */
+export function calculateMovingAverage(points: HistoryPoint[], windowLength: number): HistoryPoint[] {
+    const length = Math.max(1, Math.floor(windowLength));
+    const result: HistoryPoint[] = [];
+    let sum = 0;
+    for (let index = 0; index < points.length; ++index) {
+        sum += points[index].value;
+        if (length <= index) sum -= points[index - length].value;
+        result.push({
+            timestamp: points[index].timestamp,
+            value: sum / Math.min(index + 1, length),
+        });
+    }
+    return result;
+}
+
+/**
+ * Fits a line on the points by least squares and gives its slope in value per second
+ * (e.g.: bits per second change per second for bitrates), or undefined if less than two points with different timestamps are given.
+ */
+export function calculateSlope(points: HistoryPoint[]): number | undefined {
+    if (points.length < 2) return;
+    const meanTimestamp = points.reduce((acc, point) => acc + point.timestamp, 0) / points.length;
+    const meanValue = points.reduce((acc, point) => acc + point.value, 0) / points.length;
+    let covariance = 0;
+    let variance = 0;
+    for (const point of points) {
+        covariance += (point.timestamp - meanTimestamp) * (point.value - meanValue);
+        variance += (point.timestamp - meanTimestamp) ** 2;
+    }
+    if (variance <= 0) return;
+
+    return (covariance / variance) * 1000;
+}
+
+/**
+ * Keeps the last maxLength number of values of metrics per key (e.g.: trackId, peerConnectionId)
+ */
+export class StatsHistory<M extends string> {
+    private readonly _buffers = new Map<string, Map<M, RingBuffer<HistoryPoint>>>();
+    private _maxLength: number;
+
+    public constructor(maxLength = 60) {
+        this._maxLength = maxLength;
+    }
+
+    /**
+     * The maximum number of points kept per metric
+     */
+    public get maxLength() {
+        return this._maxLength;
+    }
+
+    public set maxLength(value: number) {
+        this._maxLength = value;
+        for (const buffers of this._buffers.values()) {
+            for (const buffer of buffers.values()) {
+                buffer.capacity = value;
+            }
+        }
+    }
+
+    public add(key: string, metric: M, timestamp: number, value?: number): void {
+        if (value === undefined || !Number.isFinite(value)) return;
+        let buffers = this._buffers.get(key);
+        if (!buffers) {
+            buffers = new Map();
+            this._buffers.set(key, buffers);
+        }
+        let buffer = buffers.get(metric);
+        if (!buffer) {
+            buffer = createRingBuffer<HistoryPoint>(this._maxLength);
+            buffers.set(metric, buffer);
+        }
+        buffer.push({ timestamp, value });
+    }
+
+    /**
+     * Gives the points of the metric in the order they were added
+     *
+     * @param sinceMs if given, only the points added at or after this timestamp are returned
+     */
+    public get(key: string, metric: M, sinceMs?: number): HistoryPoint[] {
+        const points = this._buffers.get(key)?.get(metric)?.toArray() ?? [];
+        if (sinceMs === undefined) return points;
+        return points.filter(point => sinceMs <= point.timestamp);
+    }
+
+    public keys(): IterableIterator<string> {
+        return this._buffers.keys();
+    }
+
+    public remove(key: string): boolean {
+        return this._buffers.delete(key);
+    }
+
+    public clear(): void {
+        this._buffers.clear();
+    }
+}
@@ -28,9 +28,22 @@ import { InboundTrackStats, createInboundTrackStats } from "./InboundTrackStats"
 import { OutboundTrackStats, createOutboundTrackStats } from "./OutboundTrackStats";
 import { StatsMap } from "../utils/Stats";
 import { createProcessor } from "../utils/Processor";
+import {
+    HistoryPoint,
+    PeerConnectionHistoryMetric,
+    StatsHistory,
+    TrackHistoryMetric,
+    calculateMovingAverage,
+    calculatePercentile,
+} from "./StatsHistory";
 
 const logger = createLogger("StatsStorage");
 
+/**
+ * The time in milliseconds the added time of a track is kept if the track does not appear in the stats
+ */
+const PENDING_TRACK_ADDED_TIMEOUT_IN_MS = 60000;
+
 export type StatsStorageEvents = {
     'peer-connection-added': PeerConnectionEntryManifest,
     'peer-connection-removed': PeerConnectionEntryManifest,
@@ -76,6 +89,12 @@ export class StatsStorage {
 
     public avgRttInS?: number;
 
+    /**
+     * The average and the minimum of the quality scores (MOS) of all tracks of the client
+     */
+    public avgScore?: number;
+    public minScore?: number;
+
     public highestSeenSendingBitrate?: number;
 	public highestSeenReceivingBitrate?: number;
 	public highestSeenAvailableOutgoingBitrate?: number;
@@ -83,34 +102,93 @@ export class StatsStorage {
     
     public readonly processor = createProcessor<StatsStorage>();
 
+    /**
+     * The history of the key metrics of the tracks (keyed by trackId)
+     * and the peer connections (keyed by peerConnectionId).
+     */
+    public readonly trackHistory = new StatsHistory<TrackHistoryMetric>();
+    public readonly peerConnectionHistory = new StatsHistory<PeerConnectionHistoryMetric>();
+
     private readonly _tracks = new Map<string, TrackStats>();
     private readonly _emitter = new TypedEventEmitter<StatsStorageEvents>();
     private readonly _peerConnections = new Map<string, PeerConnectionEntryManifest>();
     public readonly pendingSfuBindings = new Map<string, { sfuStreamId: string, sfuSinkId?: string }>();
+    private readonly _pendingTrackAddedTimestamps = new Map<string, number>();
     public get events(): TypedEventEmitter<StatsStorageEvents> {
         return this._emitter;
     }
 
-    public update(peerConnectionStats: { peerConnectionId: string, statsMap: StatsMap }[]): void {
+    /**
+     * @param timestamp the time the stats are collected at, the time the stats were recorded at if a dump is replayed
+     */
+    public update(peerConnectionStats: { peerConnectionId: string, statsMap: StatsMap }[], timestamp = Date.now()): void {
         for (const { peerConnectionId, statsMap } of peerConnectionStats) {
             const pcEntry = this._peerConnections.get(peerConnectionId);
             if (!pcEntry) {
                 logger.warn(`update(): PeerConnectionEntry is not registered for peerConnectionId ${peerConnectionId}`);
                 return;
             }
-            pcEntry.update(statsMap);
+            pcEntry.update(statsMap, timestamp);
         }
         this.processor.process(this, (err) => {
             logger.warn(`update(): Failed to process stats`, err);
         });
         this._updateTracks();
+        this._expirePendingTrackAddedTimestamps(timestamp);
         this._updateMetrics();
+        this._updateScores();
+        this._updateHistory(timestamp);
     }
 
     public clear(): void {
         Array.from(this._peerConnections.values()).forEach(pcEntry => pcEntry.close());
         this._peerConnections.clear();
         this._tracks.clear();
+        this._pendingTrackAddedTimestamps.clear();
+        this.trackHistory.clear();
+        this.peerConnectionHistory.clear();
+    }
+
+    /**
+     * Sets the maximum number of values kept in the history per metric
+     */
+    public setHistoryLength(maxLength: number): void {
+        this.trackHistory.maxLength = maxLength;
+        this.peerConnectionHistory.maxLength = maxLength;
+    }
+
+    /**
+     * Gives the history of a metric of a track
+     *
+     * @param sinceMs if given, only the values collected at or after this timestamp are returned
+     */
+    public getHistory(trackId: string, metric: TrackHistoryMetric, sinceMs?: number): HistoryPoint[] {
+        return this.trackHistory.get(trackId, metric, sinceMs);
+    }
+
+    /**
+     * Gives the history of a metric of a peer connection
+     *
+     * @param sinceMs if given, only the values collected at or after this timestamp are returned
+     */
+    public getPeerConnectionHistory(peerConnectionId: string, metric: PeerConnectionHistoryMetric, sinceMs?: number): HistoryPoint[] {
+        return this.peerConnectionHistory.get(peerConnectionId, metric, sinceMs);
+    }
+
+    /**
+     * Calculates the percentile (0 - 100) of a metric of a track from its history
+     */
+    public getPercentile(trackId: string, metric: TrackHistoryMetric, percentile: number, sinceMs?: number): number | undefined {
+        return calculatePercentile(this.trackHistory.get(trackId, metric, sinceMs), percentile);
+    }
+
+    /**
+     * Calculates the moving average of a metric of a track from its history
+     *
+     * @param windowLength the number of values averaged in every point
+     */
+    public getMovingAverage(trackId: string, metric: TrackHistoryMetric, windowLength: number, sinceMs?: number): HistoryPoint[] {
+        return calculateMovingAverage(this.trackHistory.get(trackId, metric, sinceMs), windowLength);
     }
 
 
@@ -123,6 +201,7 @@ export class StatsStorage {
         this._peerConnections.set(peerConnectionId, pcEntry);
         pcEntry.events.once('close', () => {
             this._peerConnections.delete(peerConnectionId);
+            this.peerConnectionHistory.remove(peerConnectionId);
             this._emitter.emit('peer-connection-removed', pcEntry);
         });
         this._emitter.emit('peer-connection-added', pcEntry);
@@ -145,6 +224,21 @@ export class StatsStorage {
         return this._tracks.get(trackId);
     }
 
+    /**
+     * Sets the time an inbound track is added (e.g.: by the MEDIA_TRACK_ADDED call event) the media setup of the track is measured from,
+     * the time is kept until the track appears in the stats, or for 60s if it does not appear.
+     */
+    public setTrackAddedAt(trackId: string, timestamp: number): void {
+        const track = this._tracks.get(trackId);
+        if (track) {
+            if (track.direction === 'inbound') {
+                track.setAddedAt(timestamp);
+            }
+            return;
+        }
+        this._pendingTrackAddedTimestamps.set(trackId, timestamp);
+    }
+
 
     public peerConnections(): IterableIterator<PeerConnectionEntry> {
         return this._peerConnections.values();
@@ -394,6 +488,99 @@ export class StatsStorage {
         this.receivingFractionLost = Math.round(this.receivingFractionLost * 100) / 100;
     }
 
+    private _updateHistory(timestamp: number) {
+
+        for (const track of this._tracks.values()) {
+            const { trackId } = track;
+            this.trackHistory.add(trackId, 'bitrate', timestamp, track.bitrate);
+            this.trackHistory.add(trackId, 'fractionLoss', timestamp, track.fractionLoss);
+            this.trackHistory.add(trackId, 'jitter', timestamp, track.jitter);
+            this.trackHistory.add(trackId, 'score', timestamp, track.score);
+            // the round trip time is 0 or -1 if it is not measured yet
+            if (0 < track.roundTripTimeInS) {
+                this.trackHistory.add(trackId, 'roundTripTimeInS', timestamp, track.roundTripTimeInS);
+            }
+            if (track.kind !== 'video') continue;
+
+            const framesPerSecond = track.direction === 'inbound'
+                ? Array.from(track.inboundRtps()).map(inboundRtp => inboundRtp.framesPerSecond)
+                : Array.from(track.outboundRtps()).map(outboundRtp => outboundRtp.stats.framesPerSecond);
+            const values = framesPerSecond.filter((value): value is number => value !== undefined);
+            if (0 < values.length) {
+                this.trackHistory.add(trackId, 'framesPerSecond', timestamp, Math.max(...values));
+            }
+        }
+        for (const trackId of Array.from(this.trackHistory.keys())) {
+            if (!this._tracks.has(trackId)) this.trackHistory.remove(trackId);
+        }
+
+        for (const peerConnectionEntry of this._peerConnections.values()) {
+            const { peerConnectionId } = peerConnectionEntry;
+            let availableOutgoingBitrate: number | undefined;
+            let availableIncomingBitrate: number | undefined;
+            for (const transport of peerConnectionEntry.transports()) {
+                const candidatePair = transport.getSelectedIceCandidatePair()?.stats;
+                if (candidatePair?.availableOutgoingBitrate !== undefined) {
+                    availableOutgoingBitrate = (availableOutgoingBitrate ?? 0) + candidatePair.availableOutgoingBitrate;
+                }
+                if (candidatePair?.availableIncomingBitrate !== undefined) {
+                    availableIncomingBitrate = (availableIncomingBitrate ?? 0) + candidatePair.availableIncomingBitrate;
+                }
+            }
+            this.peerConnectionHistory.add(
+                peerConnectionId,
+                'sendingBitrate',
+                timestamp,
+                (peerConnectionEntry.sendingAudioBitrate ?? 0) + (peerConnectionEntry.sendingVideoBitrate ?? 0)
+            );
+            this.peerConnectionHistory.add(
+                peerConnectionId,
+                'receivingBitrate',
+                timestamp,
+                (peerConnectionEntry.receivingAudioBitrate ?? 0) + (peerConnectionEntry.receivingVideoBitrate ?? 0)
+            );
+            this.peerConnectionHistory.add(peerConnectionId, 'roundTripTimeInS', timestamp, peerConnectionEntry.avgRttInS);
+            this.peerConnectionHistory.add(peerConnectionId, 'sendingFractionLost', timestamp, peerConnectionEntry.sendingFractionLost);
+            this.peerConnectionHistory.add(peerConnectionId, 'receivingFractionLost', timestamp, peerConnectionEntry.receivingFractionLost);
+            this.peerConnectionHistory.add(peerConnectionId, 'availableOutgoingBitrate', timestamp, availableOutgoingBitrate);
+            this.peerConnectionHistory.add(peerConnectionId, 'availableIncomingBitrate', timestamp, availableIncomingBitrate);
+        }
+    }
+
+    private _updateScores() {
+        const calculateAggregates = (tracks: TrackStats[]) => {
+            const scores = tracks.map(track => track.score).filter((score): score is number => score !== undefined);
+            if (scores.length < 1) {
+                return { avgScore: undefined, minScore: undefined };
+            }
+            return {
+                avgScore: Math.round((scores.reduce((acc, score) => acc + score, 0) / scores.length) * 100) / 100,
+                minScore: Math.min(...scores),
+            };
+        };
+        const tracks = Array.from(this._tracks.values());
+
+        for (const peerConnectionEntry of this._peerConnections.values()) {
+            const { avgScore, minScore } = calculateAggregates(
+                tracks.filter(track => track.getPeerConnection() === peerConnectionEntry)
+            );
+            peerConnectionEntry.avgScore = avgScore;
+            peerConnectionEntry.minScore = minScore;
+        }
+
+        const { avgScore, minScore } = calculateAggregates(tracks);
+        this.avgScore = avgScore;
+        this.minScore = minScore;
+    }
+
+    private _expirePendingTrackAddedTimestamps(now: number) {
+        for (const [ trackId, addedAt ] of Array.from(this._pendingTrackAddedTimestamps)) {
+            if (now - addedAt < PENDING_TRACK_ADDED_TIMEOUT_IN_MS) continue;
+
+            this._pendingTrackAddedTimestamps.delete(trackId);
+        }
+    }
+
     private _updateTracks() {
         for (const inboundRtp of this.inboundRtps()) {
             const trackId = inboundRtp.getTrackId();
@@ -407,6 +594,12 @@ export class StatsStorage {
                     inboundRtp.stats.kind
                 ) as InboundTrackStats;
                 this._tracks.set(trackId, track);
+
+                const addedAt = this._pendingTrackAddedTimestamps.get(trackId);
+                if (addedAt !== undefined) {
+                    track.setAddedAt(addedAt);
+                    this._pendingTrackAddedTimestamps.delete(trackId);
+                }
                 continue;
             }
             
@@ -432,6 +625,8 @@ export class StatsStorage {
                     outboundRtp.stats.kind
                 ) as OutboundTrackStats;
                 this._tracks.set(trackId, track);
+                // the media setup is measured for inbound tracks only
+                this._pendingTrackAddedTimestamps.delete(trackId);
                 continue;
             }
             const binding = this.pendingSfuBindings.get(trackId);
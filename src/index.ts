@@ -2,12 +2,38 @@ export type { StatsCollector } from "./collectors/StatsCollector";
 export type { StatsProvider } from "./collectors/StatsProvider";
 export type { MediasoupStatsCollector } from "./collectors/MediasoupStatsCollector";
 export type { PeerConnectionStatsCollector } from "./collectors/PeerConnectionStatsCollector";
+export type { ReplayStatsCollector } from "./collectors/ReplayStatsCollector";
+export type {
+    StatsDumpRecord,
+    StatsDumpHeaderRecord,
+    StatsDumpStatsRecord,
+    StatsDumpCallEventRecord,
+    StatsDumpIssueRecord,
+} from "./collectors/StatsDump";
+export type {
+    WebRtcInternalsDump,
+    WebRtcInternalsPeerConnectionSnapshots,
+    StatsSnapshot,
+} from "./collectors/WebRtcInternalsDump";
 export type {
     ClientIssue,
     ClientMonitor,
     ClientMonitorConfig,
     ClientMonitorEvents,
+    ClientDetectorIssueDetectionExtension,
 } from "./ClientMonitor";
+export type {
+    ClientIssues,
+    ClientIssueState,
+    ClientIssueFilter,
+    RegisteredClientIssue,
+} from "./ClientIssueRegistry";
+export type {
+    Detector,
+    CustomDetector,
+    DetectorContext,
+    DetectedIssue,
+} from "./detectors/Detector";
 export type {
     MediasoupStatsCollectorDeviceInterface,
 } from "./collectors/MediasoupSurrogates";
@@ -30,7 +56,121 @@ export type {
     AudioDesyncDetector, 
     AudioDesyncDetectorConfig 
 } from './detectors/AudioDesyncDetector';
+export type {
+    SilentInboundAudioDetector,
+    SilentInboundAudioDetectorConfig,
+    SilentInboundAudioCause,
+    RemoteMediaSourceState,
+} from './detectors/SilentInboundAudioDetector';
+export type {
+    OneWayOutboundMediaDetector,
+    OneWayOutboundMediaDetectorConfig,
+    OneWayOutboundMediaCause,
+} from './detectors/OneWayOutboundMediaDetector';
+export type {
+    PacketLossBurstDetector,
+    PacketLossBurstDetectorConfig,
+} from './detectors/PacketLossBurstDetector';
+export type {
+    PacketLossEpisode,
+    PacketLossPattern,
+} from './entries/PacketLossPattern';
+export type {
+    QualityLimitation,
+    QualityLimitationEpisode,
+    QualityLimitationReason,
+} from './entries/QualityLimitationTimeline';
+export type {
+    MediaSetup,
+} from './entries/MediaSetupTimeline';
+export type {
+    JitterBufferDetector,
+    JitterBufferDetectorConfig,
+    JitterBufferProblem,
+} from './detectors/JitterBufferDetector';
+export type {
+    ConnectionFlappingDetector,
+    ConnectionFlappingDetectorConfig,
+    ConnectionFlappingStats,
+    IceRestartEvent,
+} from './detectors/ConnectionFlappingDetector';
+export type {
+    LayersChangedDetector,
+    LayersChangedDetectorConfig,
+    TrackLayer,
+    TrackLayersChangedEvent,
+} from './detectors/LayersChanged';
+export type {
+    OutboundVideoDegradationDetector,
+    OutboundVideoDegradationDetectorConfig,
+    OutboundVideoDegradation,
+    OutboundVideoDegradationCause,
+    OutboundVideoDegradationEvent,
+    VideoProperties,
+} from './detectors/OutboundVideoDegradationDetector';
+export type {
+    DeadMicrophoneDetector,
+    DeadMicrophoneDetectorConfig,
+    DeadMicrophoneCause,
+    LocalAudioTrackState,
+} from './detectors/DeadMicrophoneDetector';
+export type {
+    TcpRelayFallbackDetector,
+    TcpRelayFallbackStartedEvent,
+    TcpRelayFallbackEndedEvent,
+} from './detectors/TcpRelayFallbackDetector';
+export type {
+    BandwidthTrendDetector,
+    BandwidthTrendDetectorConfig,
+    BandwidthDirection,
+    BandwidthTrend,
+    BandwidthDegradingEvent,
+    BandwidthStabilizedEvent,
+} from './detectors/BandwidthTrendDetector';
+export type {
+    SlowMediaStartDetector,
+    SlowMediaStartDetectorConfig,
+    SlowMediaStartEvent,
+    MediaStartedEvent,
+} from './detectors/SlowMediaStartDetector';
+export type {
+    ThresholdRulesDetector,
+    ThresholdRulesDetectorConfig,
+    ThresholdRule,
+    ThresholdRuleOperator,
+    ThresholdRuleTarget,
+    ThresholdRuleEvent,
+} from './detectors/ThresholdRulesDetector';
 export type { Collectors } from './Collectors';
+export type { StatsRecorder, StatsRecorderConfig } from './StatsRecorder';
+export type { CallSummary, TrackSummary, MetricSummary } from './CallSummary';
+export type {
+    StatsHistory,
+    HistoryPoint,
+    TrackHistoryMetric,
+    PeerConnectionHistoryMetric,
+} from './entries/StatsHistory';
+
+export type {
+    ClientSampleDelta,
+    ClientSampleDeltaDecoder,
+} from './utils/sampleDelta';
+
+export type { SampleSink } from './transports/SampleSink';
+export type {
+    SampleTransport,
+    SampleTransportConfig,
+    SampleTransportEvents,
+} from './transports/SampleTransport';
+export type {
+    WebSocketLike,
+    WebSocketSampleSink,
+    WebSocketSampleSinkConfig,
+} from './transports/WebSocketSampleSink';
+export type {
+    HttpSampleSink,
+    HttpSampleSinkConfig,
+} from './transports/HttpSampleSink';
 
 export type {
     StatsMap,
@@ -63,6 +203,7 @@ export type {
     IceServerEntry,
     PeerConnectionEntryEvents,
     PeerConnectionEntry,
+    NetworkChangedEvent,
 } from "./entries/StatsEntryInterfaces";
 
 export * as W3CStats from './schema/W3cStatsIdentifiers';
@@ -103,6 +244,9 @@ export function createClientMonitor(config?: Partial<ClientMonitorConfig> & {
         logLevel,
         collectingPeriodInMs = 2000,
         samplingTick = 3,
+        deltaSamples,
+        statsHistoryLength,
+        trackScoreThresholds,
         integrateNavigatorMediaDevices = true,
         createClientJoinedEvent = true,
         detectIssues = {
@@ -123,6 +267,9 @@ export function createClientMonitor(config?: Partial<ClientMonitorConfig> & {
     return new ClientMonitor({
         collectingPeriodInMs,
         samplingTick,
+        deltaSamples,
+        statsHistoryLength,
+        trackScoreThresholds,
         integrateNavigatorMediaDevices,
         createClientJoinedEvent,
         detectIssues,
@@ -133,6 +280,26 @@ export function integrateNavigatorMediaDevices(monitor: ClientMonitor) {
     ClientMonitor.integrateNavigatorMediaDevices(monitor);
 }
 
+export { createWebSocketSampleSink } from "./transports/WebSocketSampleSink";
+export { createHttpSampleSink } from "./transports/HttpSampleSink";
+export {
+    CLIENT_SAMPLE_CBOR_CONTENT_TYPE,
+    encodeClientSample,
+    decodeClientSample,
+    encodeClientSamples,
+    decodeClientSamples,
+} from "./transports/ClientSampleCodec";
+export { parseStatsDump, STATS_DUMP_VERSION } from "./collectors/StatsDump";
+export { TRACK_SCORES_EXTENSION_TYPE, QUALITY_LIMITATIONS_EXTENSION_TYPE } from "./Sampler";
+export { calculatePercentile, calculateMovingAverage, calculateSlope } from "./entries/StatsHistory";
+export { validateThresholdRules } from "./detectors/ThresholdRulesDetector";
+export {
+    parseWebRtcInternalsDump,
+    convertWebRtcInternalsDump,
+    createStatsStorageFromWebRtcInternalsDump,
+} from "./collectors/WebRtcInternalsDump";
+export { createClientSampleDeltaDecoder } from "./utils/sampleDelta";
+
 export { 
     createLogger, 
     addLoggerProcess, 
@@ -97,6 +97,7 @@ export type CandidatePairStats = RtcStats & RtcIceCandidatePairStats & {
 }
 export type LocalCandidateStats = RtcStats & RtcIceCandidateStats & {
     type: 'local-candidate';
+    networkType?: RtcNetworkType;
 }
 export type RemoteCandidateStats = RtcStats & RtcIceCandidateStats & {
     type: 'remote-candidate';
@@ -149,6 +150,7 @@ export type RtcTransportProtocol = "udp" | "tcp";
 export type RtcRelayProtocol = "udp" | "tcp" | "tls";
 export type RtcStatsIceCandidatePairState = "failed" | "cancelled" | "frozen" | "inprogress" | "succeeded" | "waiting";
 export type RtcIceTcpCandidateType = "active" | "passive" | "so";
+export type RtcNetworkType = "bluetooth" | "cellular" | "ethernet" | "wifi" | "wimax" | "vpn" | "unknown";
 
 // Deprecated 2022-09-21
 export type RtcCodecType = "encode" | "decode";
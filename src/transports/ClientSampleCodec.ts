@@ -0,0 +1,102 @@
+import { ClientSample, schemaVersion } from "../schema/Samples";
+import { decodeCbor, encodeCbor } from "../utils/cbor";
+
+export const CLIENT_SAMPLE_CBOR_CONTENT_TYPE = 'application/cbor';
+
+/**
+ * The field names of the ClientSample (and its nested objects) in schema 2.2.0.
+ * On the wire the keys are replaced by their index in this list,
+ * keys not listed here (e.g.: added by a newer schema) are written as text.
+ *
+ * The list is part of the wire format, it must not be reordered,
+ * new field names can only be appended to its end.
+ */
+const FIELD_NAMES: readonly string[] = [
+    'peerConnectionId', 'id', 'address', 'port', 'protocol', 'candidateType', 'priority', 'url', 'relayProtocol',
+    'ssrc', 'trackId', 'sfuStreamId', 'packetsSent', 'bytesSent', 'rid', 'headerBytesSent',
+    'retransmittedPacketsSent', 'retransmittedBytesSent', 'targetBitrate', 'totalEncodedBytesTarget',
+    'totalPacketSendDelay', 'averageRtcpInterval', 'nackCount', 'encoderImplementation', 'active', 'frameWidth',
+    'frameHeight', 'framesPerSecond', 'framesSent', 'hugeFramesSent', 'framesEncoded', 'keyFramesEncoded', 'qpSum',
+    'totalEncodeTime', 'qualityLimitationDurationNone', 'qualityLimitationDurationCPU',
+    'qualityLimitationDurationBandwidth', 'qualityLimitationDurationOther', 'qualityLimitationReason',
+    'qualityLimitationResolutionChanges', 'firCount', 'pliCount', 'packetsReceived', 'packetsLost', 'jitter',
+    'roundTripTime', 'totalRoundTripTime', 'fractionLost', 'roundTripTimeMeasurements', 'framesDropped',
+    'relayedSource', 'width', 'height', 'frames', 'audioLevel', 'totalAudioEnergy', 'totalSamplesDuration',
+    'echoReturnLoss', 'echoReturnLossEnhancement', 'droppedSamplesDuration', 'droppedSamplesEvents',
+    'totalCaptureDelay', 'totalSamplesCaptured', 'remoteClientId', 'sfuSinkId', 'lastPacketReceivedTimestamp',
+    'headerBytesReceived', 'packetsDiscarded', 'fecPacketsReceived', 'fecPacketsDiscarded', 'bytesReceived',
+    'totalProcessingDelay', 'estimatedPlayoutTimestamp', 'jitterBufferDelay', 'jitterBufferTargetDelay',
+    'jitterBufferEmittedCount', 'jitterBufferMinimumDelay', 'decoderImplementation', 'framesDecoded',
+    'keyFramesDecoded', 'totalDecodeTime', 'totalInterFrameDelay', 'totalSquaredInterFrameDelay', 'framesReceived',
+    'remoteTimestamp', 'reportsSent', 'totalSamplesReceived', 'concealedSamples', 'silentConcealedSamples',
+    'concealmentEvents', 'insertedSamplesForDeceleration', 'removedSamplesForAcceleration',
+    'synthesizedSamplesDuration', 'synthesizedSamplesEvents', 'totalPlayoutDelay', 'totalSamplesCount',
+    'fingerprint', 'fingerprintAlgorithm', 'base64Certificate', 'issuerCertificateId', 'payloadType', 'codecType',
+    'mimeType', 'clockRate', 'channels', 'sdpFmtpLine', 'trackIdentifier', 'kind', 'candidatePairId', 'label',
+    'transportId', 'localCandidateId', 'remoteCandidateId', 'state', 'nominated', 'lastPacketSentTimestamp',
+    'currentRoundTripTime', 'availableOutgoingBitrate', 'availableIncomingBitrate', 'requestsReceived',
+    'requestsSent', 'responsesReceived', 'responsesSent', 'consentRequestsSent', 'packetsDiscardedOnSend',
+    'bytesDiscardedOnSend', 'iceRole', 'iceLocalUsernameFragment', 'dtlsState', 'selectedCandidatePairId',
+    'iceState', 'localCertificateId', 'remoteCertificateId', 'tlsVersion', 'dtlsCipher', 'dtlsRole', 'srtpCipher',
+    'tlsGroup', 'selectedCandidatePairChanges', 'dataChannelIdentifier', 'messageSent', 'messageReceived', 'name',
+    'mediaTrackId', 'message', 'attachments', 'timestamp', 'value', 'type', 'payload', 'version', 'versionName',
+    'vendor', 'model', 'clientId', 'callId', 'sampleSeq', 'roomId', 'userId', 'engine', 'platform', 'browser', 'os',
+    'mediaConstraints', 'mediaDevices', 'userMediaErrors', 'extensionStats', 'customCallEvents',
+    'customObserverEvents', 'iceServers', 'localSDPs', 'dataChannels', 'pcTransports', 'iceCandidatePairs',
+    'mediaSources', 'codecs', 'certificates', 'inboundAudioTracks', 'inboundVideoTracks', 'outboundAudioTracks',
+    'outboundVideoTracks', 'iceLocalCandidates', 'iceRemoteCandidates', 'timeZoneOffsetInHours', 'marker',
+];
+
+const FIELD_INDEXES = new Map<string, number>(FIELD_NAMES.map((name, index) => [ name, index ]));
+
+const encodeOptions = {
+    mapKey: (key: string) => FIELD_INDEXES.get(key) ?? key,
+};
+
+const decodeOptions = {
+    mapKey: (key: string | number) => {
+        if (typeof key === 'string') return key;
+        const name = FIELD_NAMES[key];
+        if (name === undefined) throw new Error(`Unknown field index ${key} in encoded ClientSample`);
+        return name;
+    },
+};
+
+/**
+ * Encodes a batch of ClientSamples to CBOR.
+ * The payload is an array of the schema version and the samples,
+ * where the field names are replaced by integers.
+ */
+export function encodeClientSamples(samples: ClientSample[]): Uint8Array {
+    return encodeCbor([ schemaVersion, samples ], encodeOptions);
+}
+
+/**
+ * Decodes a batch of ClientSamples encoded by encodeClientSamples().
+ *
+ * Throws an error if the payload was encoded with a different schema version.
+ */
+export function decodeClientSamples(bytes: Uint8Array): ClientSample[] {
+    const payload = decodeCbor(bytes, decodeOptions);
+
+    if (!Array.isArray(payload) || payload.length !== 2 || !Array.isArray(payload[1])) {
+        throw new Error('Invalid encoded ClientSample payload');
+    }
+    const [ version, samples ] = payload;
+    if (version !== schemaVersion) {
+        throw new Error(`Cannot decode ClientSamples of schema version ${version}, expected ${schemaVersion}`);
+    }
+    return samples;
+}
+
+export function encodeClientSample(sample: ClientSample): Uint8Array {
+    return encodeClientSamples([ sample ]);
+}
+
+export function decodeClientSample(bytes: Uint8Array): ClientSample {
+    const [ sample ] = decodeClientSamples(bytes);
+
+    if (!sample) throw new Error('Encoded payload does not contain a ClientSample');
+
+    return sample;
+}
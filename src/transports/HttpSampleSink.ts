@@ -0,0 +1,86 @@
+import { ClientSample } from "../schema/Samples";
+import { SampleSink } from "./SampleSink";
+
+type FetchLike = (url: string, init: {
+    method: string,
+    headers: Record<string, string>,
+    body: string | Uint8Array,
+    keepalive?: boolean,
+}) => Promise<{ ok: boolean, status: number }>;
+
+export type HttpSampleSinkConfig = {
+    /**
+     * The url the samples are POSTed to
+     */
+    url: string,
+
+    /**
+     * Additional headers added to every request (e.g.: Authorization)
+     */
+    headers?: Record<string, string>,
+
+    /**
+     * The fetch implementation to use.
+     *
+     * DEFAULT: globalThis.fetch
+     */
+    fetch?: FetchLike,
+
+    /**
+     * The content type of the serialized batch
+     *
+     * DEFAULT: application/json
+     */
+    contentType?: string,
+
+    /**
+     * Serialize the batch of samples to the request body.
+     *
+     * DEFAULT: JSON.stringify({ samples })
+     */
+    serialize?: (samples: ClientSample[]) => string | Uint8Array,
+}
+
+export type HttpSampleSink = ReturnType<typeof createHttpSampleSink>;
+
+export function createHttpSampleSink(config: HttpSampleSinkConfig) {
+    const {
+        url,
+        headers = {},
+        contentType = 'application/json',
+        serialize = (samples: ClientSample[]) => JSON.stringify({ samples }),
+    } = config;
+    const fetchFn = config.fetch ?? (globalThis as { fetch?: FetchLike }).fetch;
+    let closed = false;
+
+    async function send(samples: ClientSample[]): Promise<void> {
+        if (closed) throw new Error('HttpSampleSink is closed');
+        if (!fetchFn) throw new Error('fetch is not available in this environment');
+
+        const response = await fetchFn(url, {
+            method: 'POST',
+            headers: {
+                ...headers,
+                'Content-Type': contentType,
+            },
+            body: serialize(samples),
+            // let the last batch be delivered even if the page is unloading
+            keepalive: true,
+        });
+
+        if (!response.ok) {
+            throw new Error(`Sending samples to ${url} failed with status ${response.status}`);
+        }
+    }
+
+    const result: SampleSink & { readonly closed: boolean } = {
+        send,
+        close: () => {
+            closed = true;
+        },
+        get closed() {
+            return closed;
+        },
+    };
+    return result;
+}
@@ -0,0 +1,53 @@
+import { ClientSample } from "../schema/Samples";
+
+export type SampleQueue = ReturnType<typeof createSampleQueue>;
+
+/**
+ * Creates a bounded FIFO queue for samples waiting to be sent.
+ *
+ * If the queue is full the oldest sample is dropped to make room for the new one.
+ */
+export function createSampleQueue(maxSize: number) {
+    const samples: ClientSample[] = [];
+
+    /**
+     * Adds a sample to the end of the queue and returns the samples dropped due to the size limit.
+     */
+    function push(...newSamples: ClientSample[]): ClientSample[] {
+        samples.push(...newSamples);
+        return trim();
+    }
+
+    /**
+     * Puts back samples to the front of the queue (e.g.: a batch failed to be sent)
+     * and returns the samples dropped due to the size limit.
+     */
+    function unshift(...newSamples: ClientSample[]): ClientSample[] {
+        samples.unshift(...newSamples);
+        return trim();
+    }
+
+    function take(maxNumberOfSamples: number): ClientSample[] {
+        return samples.splice(0, Math.max(0, maxNumberOfSamples));
+    }
+
+    function trim(): ClientSample[] {
+        if (samples.length <= maxSize) return [];
+        return samples.splice(0, samples.length - maxSize);
+    }
+
+    return {
+        push,
+        unshift,
+        take,
+        clear: () => {
+            samples.length = 0;
+        },
+        get size() {
+            return samples.length;
+        },
+        get maxSize() {
+            return maxSize;
+        },
+    };
+}
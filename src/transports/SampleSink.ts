@@ -0,0 +1,20 @@
+import { ClientSample } from "../schema/Samples";
+
+/**
+ * The destination the SampleTransport delivers the batched ClientSamples to.
+ *
+ * Built-in sinks are created by createWebSocketSampleSink() and createHttpSampleSink(),
+ * a custom sink only needs to implement this interface.
+ */
+export interface SampleSink {
+    /**
+     * Sends a batch of samples. The returned promise must be rejected
+     * if the samples are not delivered, so the transport can retry them later.
+     */
+    send(samples: ClientSample[]): Promise<void>;
+
+    /**
+     * Release the resources (sockets, timers) held by the sink.
+     */
+    close(): void;
+}
@@ -0,0 +1,206 @@
+import { ClientSample } from "../schema/Samples";
+import { createLogger } from "../utils/logger";
+import { TypedEventEmitter } from "../utils/TypedEmitter";
+import { SampleSink } from "./SampleSink";
+import { createSampleQueue } from "./SampleQueue";
+
+const logger = createLogger("SampleTransport");
+
+export type SampleTransportConfig = {
+    /**
+     * The destination of the samples
+     */
+    sink: SampleSink,
+
+    /**
+     * The number of queued samples triggering a send.
+     *
+     * DEFAULT: 1
+     */
+    batchSize?: number,
+
+    /**
+     * The maximum number of samples sent in one batch
+     *
+     * DEFAULT: 20
+     */
+    maxBatchSize?: number,
+
+    /**
+     * The maximum number of samples kept while they cannot be sent.
+     * If the limit is reached the oldest samples are dropped.
+     *
+     * DEFAULT: 100
+     */
+    maxQueueSize?: number,
+
+    /**
+     * Exponential backoff settings used when sending a batch fails
+     */
+    retry?: {
+        /**
+         * DEFAULT: 1000
+         */
+        initialDelayInMs?: number,
+        /**
+         * DEFAULT: 30000
+         */
+        maxDelayInMs?: number,
+        /**
+         * DEFAULT: 2
+         */
+        factor?: number,
+    },
+}
+
+export type SampleTransportEvents = {
+    'sent': {
+        samples: ClientSample[],
+    },
+    'send-failed': {
+        error: unknown,
+        failedAttempts: number,
+        retryInMs?: number,
+    },
+    'dropped': {
+        samples: ClientSample[],
+    },
+    'close': undefined,
+}
+
+/**
+ * Queues the created ClientSamples, sends them in batches to a SampleSink,
+ * and retries with exponential backoff if the sink is not available.
+ */
+export class SampleTransport {
+    private readonly _emitter = new TypedEventEmitter<SampleTransportEvents>();
+    private readonly _queue: ReturnType<typeof createSampleQueue>;
+    private _closed = false;
+    private _failedAttempts = 0;
+    private _retryTimer?: ReturnType<typeof setTimeout>;
+    private _flushing?: Promise<void>;
+
+    public constructor(
+        public readonly config: SampleTransportConfig,
+    ) {
+        this._queue = createSampleQueue(config.maxQueueSize ?? 100);
+    }
+
+    public get events(): TypedEventEmitter<SampleTransportEvents> {
+        return this._emitter;
+    }
+
+    public get closed() {
+        return this._closed;
+    }
+
+    /**
+     * The number of samples waiting to be sent
+     */
+    public get pendingSamples() {
+        return this._queue.size;
+    }
+
+    public add(sample: ClientSample): void {
+        if (this._closed) {
+            return logger.warn('Cannot add sample, because the transport is closed');
+        }
+        this._emitDropped(this._queue.push(sample));
+
+        // a scheduled retry will flush the queue
+        if (this._retryTimer) return;
+        if (this._queue.size < (this.config.batchSize ?? 1)) return;
+
+        this.flush().catch((err) => logger.error('Error occurred while flushing samples', err));
+    }
+
+    /**
+     * Sends all queued samples. Resolves when the queue is drained, or a send has failed.
+     */
+    public flush(): Promise<void> {
+        if (this._flushing) return this._flushing;
+
+        this._clearRetryTimer();
+        this._flushing = this._drain().finally(() => {
+            this._flushing = undefined;
+        });
+        return this._flushing;
+    }
+
+    /**
+     * Make a last attempt to send the queued samples and closes the sink.
+     */
+    public async close(): Promise<void> {
+        if (this._closed) return;
+        this._closed = true;
+        this._clearRetryTimer();
+
+        try {
+            await this._flushing;
+            await this.flush();
+        } catch (err) {
+            logger.warn('Error occurred while flushing samples before close', err);
+        }
+
+        if (0 < this._queue.size) {
+            logger.warn(`Transport is closed with ${this._queue.size} unsent samples`);
+        }
+        this.config.sink.close();
+        this._emitter.emit('close', undefined);
+    }
+
+    private async _drain(): Promise<void> {
+        const maxBatchSize = Math.max(1, this.config.maxBatchSize ?? 20);
+
+        while (0 < this._queue.size) {
+            const samples = this._queue.take(maxBatchSize);
+            try {
+                await this.config.sink.send(samples);
+            } catch (error) {
+                this._emitDropped(this._queue.unshift(...samples));
+                ++this._failedAttempts;
+
+                const retryInMs = this._closed ? undefined : this._scheduleRetry();
+
+                logger.debug(`Sending ${samples.length} samples failed, retry in ${retryInMs}ms`, error);
+                this._emitter.emit('send-failed', {
+                    error,
+                    failedAttempts: this._failedAttempts,
+                    retryInMs,
+                });
+                return;
+            }
+            this._failedAttempts = 0;
+            this._emitter.emit('sent', { samples });
+        }
+    }
+
+    private _scheduleRetry(): number {
+        const {
+            initialDelayInMs = 1000,
+            maxDelayInMs = 30000,
+            factor = 2,
+        } = this.config.retry ?? {};
+        const delayInMs = Math.min(maxDelayInMs, initialDelayInMs * Math.pow(factor, this._failedAttempts - 1));
+
+        this._clearRetryTimer();
+        this._retryTimer = setTimeout(() => {
+            this._retryTimer = undefined;
+            this.flush().catch((err) => logger.error('Error occurred while flushing samples', err));
+        }, delayInMs);
+
+        return delayInMs;
+    }
+
+    private _clearRetryTimer() {
+        if (!this._retryTimer) return;
+        clearTimeout(this._retryTimer);
+        this._retryTimer = undefined;
+    }
+
+    private _emitDropped(samples: ClientSample[]) {
+        if (samples.length < 1) return;
+        logger.warn(`${samples.length} samples are dropped, because the queue is full`);
+        this._emitter.emit('dropped', { samples });
+    }
+}
@@ -0,0 +1,133 @@
+import { ClientSample } from "../schema/Samples";
+import { createLogger } from "../utils/logger";
+import { SampleSink } from "./SampleSink";
+
+const logger = createLogger("WebSocketSampleSink");
+
+const WEBSOCKET_OPEN = 1;
+
+/**
+ * The subset of the browser WebSocket the sink relies on.
+ */
+export interface WebSocketLike {
+    readonly readyState: number;
+    onopen: ((event: unknown) => void) | null;
+    onclose: ((event: unknown) => void) | null;
+    onerror: ((event: unknown) => void) | null;
+    send(data: string | ArrayBufferLike | ArrayBufferView): void;
+    close(code?: number, reason?: string): void;
+}
+
+export type WebSocketSampleSinkConfig = {
+    /**
+     * The url of the websocket endpoint (e.g.: wss://observer.example.com/samples)
+     */
+    url: string,
+
+    /**
+     * Sub-protocols passed to the WebSocket constructor
+     */
+    protocols?: string | string[],
+
+    /**
+     * The maximum time to wait for the websocket to open before the send is considered failed
+     *
+     * DEFAULT: 5000
+     */
+    connectionTimeoutInMs?: number,
+
+    /**
+     * The WebSocket constructor to use. Useful in environments where WebSocket is not global (e.g.: tests, nodejs)
+     *
+     * DEFAULT: globalThis.WebSocket
+     */
+    WebSocket?: new (url: string, protocols?: string | string[]) => WebSocketLike,
+
+    /**
+     * Serialize the batch of samples to a message.
+     *
+     * DEFAULT: JSON.stringify({ samples })
+     */
+    serialize?: (samples: ClientSample[]) => string | Uint8Array,
+}
+
+export type WebSocketSampleSink = ReturnType<typeof createWebSocketSampleSink>;
+
+export function createWebSocketSampleSink(config: WebSocketSampleSinkConfig) {
+    const {
+        url,
+        protocols,
+        connectionTimeoutInMs = 5000,
+        serialize = (samples: ClientSample[]) => JSON.stringify({ samples }),
+    } = config;
+    const WebSocketConstructor = config.WebSocket ?? (globalThis as { WebSocket?: WebSocketSampleSinkConfig['WebSocket'] }).WebSocket;
+
+    let closed = false;
+    let socket: WebSocketLike | undefined;
+    let connecting: Promise<WebSocketLike> | undefined;
+
+    function connect(): Promise<WebSocketLike> {
+        if (socket && socket.readyState === WEBSOCKET_OPEN) return Promise.resolve(socket);
+        if (connecting) return connecting;
+        if (!WebSocketConstructor) {
+            return Promise.reject(new Error('WebSocket is not available in this environment'));
+        }
+        connecting = new Promise<WebSocketLike>((resolve, reject) => {
+            const newSocket = new WebSocketConstructor(url, protocols);
+            const timer = setTimeout(() => {
+                newSocket.onopen = newSocket.onerror = newSocket.onclose = null;
+                newSocket.close();
+                reject(new Error(`Connection to ${url} timed out`));
+            }, connectionTimeoutInMs);
+
+            newSocket.onopen = () => {
+                clearTimeout(timer);
+                socket = newSocket;
+                newSocket.onclose = () => {
+                    logger.debug(`Websocket to ${url} is closed`);
+                    if (socket === newSocket) socket = undefined;
+                };
+                newSocket.onerror = (event: unknown) => {
+                    logger.warn(`Websocket to ${url} reported an error`, event);
+                };
+                resolve(newSocket);
+            };
+            newSocket.onerror = newSocket.onclose = (event: unknown) => {
+                clearTimeout(timer);
+                newSocket.onopen = newSocket.onerror = newSocket.onclose = null;
+                reject(new Error(`Cannot connect to ${url}: ${event}`));
+            };
+        }).finally(() => {
+            connecting = undefined;
+        });
+
+        return connecting;
+    }
+
+    async function send(samples: ClientSample[]): Promise<void> {
+        if (closed) throw new Error('WebSocketSampleSink is closed');
+
+        const openedSocket = await connect();
+
+        openedSocket.send(serialize(samples));
+    }
+
+    function close() {
+        if (closed) return;
+        closed = true;
+        socket?.close();
+        socket = undefined;
+    }
+
+    const result: SampleSink & { readonly connected: boolean, readonly closed: boolean } = {
+        send,
+        close,
+        get connected() {
+            return socket?.readyState === WEBSOCKET_OPEN;
+        },
+        get closed() {
+            return closed;
+        },
+    };
+    return result;
+}
@@ -19,4 +19,5 @@ export enum CallEventType {
 	DATA_CHANNEL_ERROR = 'DATA_CHANNEL_ERROR',
 	NEGOTIATION_NEEDED = 'NEGOTIATION_NEEDED',
 	SIGNALING_STATE_CHANGE = 'SIGNALING_STATE_CHANGE',
+	NETWORK_CHANGED = 'NETWORK_CHANGED',
 }
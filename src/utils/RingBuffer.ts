@@ -0,0 +1,72 @@
+export type RingBuffer<T> = ReturnType<typeof createRingBuffer<T>>;
+
+/**
+ * Creates a fixed capacity buffer, the oldest item is overwritten when a new item is pushed to a full buffer.
+ */
+export function createRingBuffer<T>(initialCapacity: number) {
+    let items: (T | undefined)[] = new Array(Math.max(1, initialCapacity));
+    let start = 0;
+    let size = 0;
+
+    /**
+     * Pushes an item to the buffer
+     *
+     * @returns the oldest item if it is overwritten because the buffer is full
+     */
+    function push(item: T): T | undefined {
+        const index = (start + size) % items.length;
+        const dropped = size < items.length ? undefined : items[index];
+        items[index] = item;
+        if (size < items.length) {
+            ++size;
+        } else {
+            start = (start + 1) % items.length;
+        }
+        return dropped;
+    }
+
+    function toArray(): T[] {
+        const result: T[] = [];
+        for (let index = 0; index < size; ++index) {
+            result.push(items[(start + index) % items.length] as T);
+        }
+        return result;
+    }
+
+    function clear(): void {
+        items = new Array(items.length);
+        start = 0;
+        size = 0;
+    }
+
+    return {
+        push,
+        toArray,
+        clear,
+        /**
+         * The last pushed item
+         */
+        get last(): T | undefined {
+            return size < 1 ? undefined : items[(start + size - 1) % items.length];
+        },
+        get size() {
+            return size;
+        },
+        get capacity() {
+            return items.length;
+        },
+        /**
+         * Changes the capacity of the buffer, the oldest items are dropped if the new capacity is less than the size.
+         */
+        set capacity(value: number) {
+            const kept = toArray().slice(-Math.max(1, value));
+            items = new Array(Math.max(1, value));
+            kept.forEach((item, index) => (items[index] = item));
+            start = 0;
+            size = kept.length;
+        },
+        [Symbol.iterator](): IterableIterator<T> {
+            return toArray()[Symbol.iterator]();
+        },
+    };
+}
@@ -1,6 +1,7 @@
 import { CustomCallEvent } from "../schema/Samples";
 import { CallEventType } from "./CallEventType";
 import { RequiredBy } from "./common";
+import { NetworkChangedEvent } from "../entries/StatsEntryInterfaces";
 
 type PartialCallEvent = Omit<CustomCallEvent, 'name' | 'message'>;
 
@@ -202,3 +203,35 @@ export function createDataChannelErrorEvent(
 		timestamp: event.timestamp ?? Date.now(),
 	}
 }
+
+export function createNetworkChangedEvent(
+	event: RequiredBy<PartialCallEvent, | 'peerConnectionId'> & NetworkChangedEvent,
+): CustomCallEvent {
+	const {
+		previousNetworkType,
+		networkType,
+		previousAddress,
+		address,
+		previousCandidatePairId,
+		candidatePairId,
+		switchedAt,
+		reconnectionTimeInMs,
+		...callEvent
+	} = event;
+	return {
+		...callEvent,
+		name: CallEventType.NETWORK_CHANGED,
+		peerConnectionId: event.peerConnectionId,
+		message: `Network is changed from ${previousNetworkType ?? 'unknown'} to ${networkType ?? 'unknown'}`,
+		timestamp: event.timestamp ?? switchedAt,
+		attachments: JSON.stringify({
+			previousNetworkType,
+			networkType,
+			previousAddress,
+			address,
+			previousCandidatePairId,
+			candidatePairId,
+			reconnectionTimeInMs,
+		}),
+	}
+}
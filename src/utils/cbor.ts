@@ -0,0 +1,294 @@
+/**
+ * Minimal CBOR (RFC 8949) encoder / decoder for JSON-like values.
+ *
+ * Supported: unsigned and negative integers, floats, text strings, byte strings,
+ * arrays, maps (with text or integer keys), booleans and null.
+ * Undefined values in maps are skipped and in arrays are encoded as null, the same way JSON.stringify does.
+ */
+
+const MAJOR_UNSIGNED = 0;
+const MAJOR_NEGATIVE = 1;
+const MAJOR_BYTES = 2;
+const MAJOR_TEXT = 3;
+const MAJOR_ARRAY = 4;
+const MAJOR_MAP = 5;
+const MAJOR_SIMPLE = 7;
+
+const SIMPLE_FALSE = 20;
+const SIMPLE_TRUE = 21;
+const SIMPLE_NULL = 22;
+const SIMPLE_UNDEFINED = 23;
+const FLOAT_16 = 25;
+const FLOAT_32 = 26;
+const FLOAT_64 = 27;
+
+const POW_2_32 = 0x100000000;
+
+export type CborEncodeOptions = {
+    /**
+     * Maps an object key to the key written to the map (e.g.: an integer from a dictionary)
+     */
+    mapKey?: (key: string) => string | number,
+}
+
+export type CborDecodeOptions = {
+    /**
+     * Maps a key read from a map to the object key
+     */
+    mapKey?: (key: string | number) => string,
+}
+
+function createWriter() {
+    let buffer = new Uint8Array(256);
+    let view = new DataView(buffer.buffer);
+    let length = 0;
+
+    const ensure = (size: number) => {
+        if (length + size <= buffer.length) return;
+        let capacity = buffer.length * 2;
+        while (capacity < length + size) capacity *= 2;
+        const newBuffer = new Uint8Array(capacity);
+        newBuffer.set(buffer.subarray(0, length));
+        buffer = newBuffer;
+        view = new DataView(buffer.buffer);
+    };
+
+    return {
+        uint8: (value: number) => {
+            ensure(1);
+            buffer[length++] = value;
+        },
+        uint16: (value: number) => {
+            ensure(2);
+            view.setUint16(length, value);
+            length += 2;
+        },
+        uint32: (value: number) => {
+            ensure(4);
+            view.setUint32(length, value);
+            length += 4;
+        },
+        float32: (value: number) => {
+            ensure(4);
+            view.setFloat32(length, value);
+            length += 4;
+        },
+        float64: (value: number) => {
+            ensure(8);
+            view.setFloat64(length, value);
+            length += 8;
+        },
+        bytes: (value: Uint8Array) => {
+            ensure(value.length);
+            buffer.set(value, length);
+            length += value.length;
+        },
+        result: () => buffer.slice(0, length),
+    };
+}
+
+type Writer = ReturnType<typeof createWriter>;
+
+function writeHead(writer: Writer, major: number, value: number) {
+    const type = major << 5;
+    if (value < 24) {
+        writer.uint8(type | value);
+    } else if (value < 0x100) {
+        writer.uint8(type | 24);
+        writer.uint8(value);
+    } else if (value < 0x10000) {
+        writer.uint8(type | 25);
+        writer.uint16(value);
+    } else if (value < POW_2_32) {
+        writer.uint8(type | 26);
+        writer.uint32(value);
+    } else {
+        writer.uint8(type | 27);
+        writer.uint32(Math.floor(value / POW_2_32));
+        writer.uint32(value % POW_2_32);
+    }
+}
+
+function writeNumber(writer: Writer, value: number) {
+    if (Number.isSafeInteger(value)) {
+        if (0 <= value) writeHead(writer, MAJOR_UNSIGNED, value);
+        else writeHead(writer, MAJOR_NEGATIVE, -1 - value);
+    } else if (Math.fround(value) === value || Number.isNaN(value)) {
+        writer.uint8((MAJOR_SIMPLE << 5) | FLOAT_32);
+        writer.float32(value);
+    } else {
+        writer.uint8((MAJOR_SIMPLE << 5) | FLOAT_64);
+        writer.float64(value);
+    }
+}
+
+function writeValue(writer: Writer, value: unknown, textEncoder: TextEncoder, options: CborEncodeOptions) {
+    if (value === null || value === undefined) {
+        return writer.uint8((MAJOR_SIMPLE << 5) | SIMPLE_NULL);
+    }
+    switch (typeof value) {
+        case 'boolean':
+            return writer.uint8((MAJOR_SIMPLE << 5) | (value ? SIMPLE_TRUE : SIMPLE_FALSE));
+        case 'number':
+            return writeNumber(writer, value);
+        case 'string': {
+            const bytes = textEncoder.encode(value);
+            writeHead(writer, MAJOR_TEXT, bytes.length);
+            return writer.bytes(bytes);
+        }
+        case 'object':
+            break;
+        default:
+            throw new TypeError(`Cannot encode value of type ${typeof value} to CBOR`);
+    }
+    if (value instanceof Uint8Array) {
+        writeHead(writer, MAJOR_BYTES, value.length);
+        return writer.bytes(value);
+    }
+    if (Array.isArray(value)) {
+        writeHead(writer, MAJOR_ARRAY, value.length);
+        for (const item of value) writeValue(writer, item, textEncoder, options);
+        return;
+    }
+    const entries = value instanceof Map
+        ? [ ...value.entries() ]
+        : Object.entries(value).map(([key, item]) => [ options.mapKey ? options.mapKey(key) : key, item ]);
+    const definedEntries = entries.filter(([, item]) => item !== undefined);
+
+    writeHead(writer, MAJOR_MAP, definedEntries.length);
+    for (const [key, item] of definedEntries) {
+        writeValue(writer, key, textEncoder, options);
+        writeValue(writer, item, textEncoder, options);
+    }
+}
+
+export function encodeCbor(value: unknown, options: CborEncodeOptions = {}): Uint8Array {
+    const writer = createWriter();
+
+    writeValue(writer, value, new TextEncoder(), options);
+
+    return writer.result();
+}
+
+function decodeFloat16(half: number): number {
+    const exponent = (half >> 10) & 0x1f;
+    const fraction = half & 0x3ff;
+    const sign = half & 0x8000 ? -1 : 1;
+    if (exponent === 0) return sign * Math.pow(2, -14) * (fraction / 1024);
+    if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+    return sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+}
+
+export function decodeCbor(bytes: Uint8Array, options: CborDecodeOptions = {}): unknown {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const textDecoder = new TextDecoder();
+    let offset = 0;
+
+    const checkAvailable = (size: number) => {
+        if (bytes.length < offset + size) throw new Error('Unexpected end of CBOR data');
+    };
+    const readArgument = (info: number): number => {
+        let result: number;
+        switch (info) {
+            case 24:
+                checkAvailable(1);
+                result = view.getUint8(offset);
+                offset += 1;
+                return result;
+            case 25:
+                checkAvailable(2);
+                result = view.getUint16(offset);
+                offset += 2;
+                return result;
+            case 26:
+                checkAvailable(4);
+                result = view.getUint32(offset);
+                offset += 4;
+                return result;
+            case 27:
+                checkAvailable(8);
+                result = view.getUint32(offset) * POW_2_32 + view.getUint32(offset + 4);
+                offset += 8;
+                return result;
+            default:
+                if (info < 24) return info;
+                throw new Error(`Unsupported CBOR additional info ${info}`);
+        }
+    };
+    const readValue = (): unknown => {
+        checkAvailable(1);
+        const initial = view.getUint8(offset++);
+        const major = initial >> 5;
+        const info = initial & 0x1f;
+
+        switch (major) {
+            case MAJOR_UNSIGNED:
+                return readArgument(info);
+            case MAJOR_NEGATIVE:
+                return -1 - readArgument(info);
+            case MAJOR_BYTES: {
+                const length = readArgument(info);
+                checkAvailable(length);
+                offset += length;
+                return bytes.slice(offset - length, offset);
+            }
+            case MAJOR_TEXT: {
+                const length = readArgument(info);
+                checkAvailable(length);
+                offset += length;
+                return textDecoder.decode(bytes.subarray(offset - length, offset));
+            }
+            case MAJOR_ARRAY: {
+                const length = readArgument(info);
+                const result: unknown[] = [];
+                for (let i = 0; i < length; ++i) result.push(readValue());
+                return result;
+            }
+            case MAJOR_MAP: {
+                const length = readArgument(info);
+                const result: Record<string, unknown> = {};
+                for (let i = 0; i < length; ++i) {
+                    const key = readValue();
+                    if (typeof key !== 'string' && typeof key !== 'number') {
+                        throw new Error(`Unsupported CBOR map key type ${typeof key}`);
+                    }
+                    result[options.mapKey ? options.mapKey(key) : `${key}`] = readValue();
+                }
+                return result;
+            }
+            case MAJOR_SIMPLE: {
+                let result: unknown;
+                switch (info) {
+                    case SIMPLE_FALSE: return false;
+                    case SIMPLE_TRUE: return true;
+                    case SIMPLE_NULL: return null;
+                    case SIMPLE_UNDEFINED: return undefined;
+                    case FLOAT_16:
+                        checkAvailable(2);
+                        result = decodeFloat16(view.getUint16(offset));
+                        offset += 2;
+                        return result;
+                    case FLOAT_32:
+                        checkAvailable(4);
+                        result = view.getFloat32(offset);
+                        offset += 4;
+                        return result;
+                    case FLOAT_64:
+                        checkAvailable(8);
+                        result = view.getFloat64(offset);
+                        offset += 8;
+                        return result;
+                }
+                throw new Error(`Unsupported CBOR simple value ${info}`);
+            }
+        }
+        throw new Error(`Unsupported CBOR major type ${major}`);
+    };
+
+    const result = readValue();
+
+    if (offset !== bytes.length) {
+        throw new Error(`Unexpected ${bytes.length - offset} bytes after the CBOR data`);
+    }
+    return result;
+}
@@ -0,0 +1,190 @@
+import { ClientSample } from "../schema/Samples";
+import { createLogger } from "./logger";
+
+const logger = createLogger('SampleDelta');
+
+/**
+ * A ClientSample containing only the fields changed since the sample referred by deltaOf.
+ *
+ * - Fields describing the client (userId, marker, etc.) are present only if they changed.
+ * - The items of the tracks, pcTransports, iceCandidatePairs and dataChannels arrays always carry their identity fields
+ *   (e.g.: peerConnectionId and ssrc) and the fields changed since the previous sample.
+ *   An item missing from the array is not reported anymore.
+ * - A field set to null became undefined since the previous sample.
+ * - Events, and stats reported only once (codecs, certificates, candidates, etc.) are kept as they are.
+ *
+ * A sample without deltaOf is a keyframe containing every field.
+ */
+export type ClientSampleDelta = ClientSample & {
+    deltaOf?: number,
+};
+
+type Item = Record<string, unknown>;
+
+const CLIENT_FIELDS = [
+    'callId',
+    'roomId',
+    'userId',
+    'marker',
+    'timeZoneOffsetInHours',
+] as const;
+
+const IDENTITY_FIELDS: Partial<Record<keyof ClientSample, string[]>> = {
+    inboundAudioTracks: [ 'peerConnectionId', 'ssrc' ],
+    inboundVideoTracks: [ 'peerConnectionId', 'ssrc' ],
+    outboundAudioTracks: [ 'peerConnectionId', 'ssrc' ],
+    outboundVideoTracks: [ 'peerConnectionId', 'ssrc' ],
+    pcTransports: [ 'peerConnectionId', 'transportId' ],
+    iceCandidatePairs: [ 'peerConnectionId', 'candidatePairId' ],
+    dataChannels: [ 'peerConnectionId', 'dataChannelIdentifier', 'label' ],
+};
+
+function getItemKey(item: Item, identityFields: string[]): string {
+    return identityFields.map((field) => `${item[field]}`).join(':');
+}
+
+function indexItems(items: unknown, identityFields: string[]): Map<string, Item> {
+    const result = new Map<string, Item>();
+    if (!Array.isArray(items)) return result;
+    for (const item of items as Item[]) {
+        result.set(getItemKey(item, identityFields), item);
+    }
+    return result;
+}
+
+function diffItem(item: Item, baseItem: Item | undefined, identityFields: string[]): Item {
+    if (!baseItem) return { ...item };
+    const result: Item = {};
+    for (const field of identityFields) {
+        if (item[field] !== undefined) result[field] = item[field];
+    }
+    for (const field of new Set([ ...Object.keys(item), ...Object.keys(baseItem) ])) {
+        if (item[field] === baseItem[field]) continue;
+        result[field] = item[field] ?? null;
+    }
+    return result;
+}
+
+function mergeItem(delta: Item, baseItem: Item | undefined): Item {
+    const result: Item = { ...baseItem, ...delta };
+    for (const [field, value] of Object.entries(result)) {
+        if (value === null) delete result[field];
+    }
+    return result;
+}
+
+export type ClientSampleDeltaEncoderConfig = {
+    /**
+     * A full sample (keyframe) is created in every keyframeInterval number of samples
+     */
+    keyframeInterval: number,
+}
+
+export type ClientSampleDeltaEncoder = ReturnType<typeof createClientSampleDeltaEncoder>;
+
+/**
+ * Creates an encoder turning consecutive ClientSamples to deltas of the previously encoded sample.
+ */
+export function createClientSampleDeltaEncoder(config: ClientSampleDeltaEncoderConfig) {
+    let previous: ClientSample | undefined;
+    let encodedSinceKeyframe = 0;
+
+    function encode(sample: ClientSample): ClientSampleDelta {
+        const base = previous;
+        previous = sample;
+
+        if (!base || base.sampleSeq === undefined || config.keyframeInterval <= encodedSinceKeyframe) {
+            encodedSinceKeyframe = 1;
+            return sample;
+        }
+        ++encodedSinceKeyframe;
+
+        const result: Item = {
+            ...sample,
+            deltaOf: base.sampleSeq,
+        };
+        for (const field of CLIENT_FIELDS) {
+            if (sample[field] === base[field]) delete result[field];
+            else result[field] = sample[field] ?? null;
+        }
+        for (const [ field, identityFields ] of Object.entries(IDENTITY_FIELDS)) {
+            const items = result[field];
+            if (!Array.isArray(items) || !identityFields) continue;
+            const baseItems = indexItems((base as Item)[field], identityFields);
+
+            result[field] = (items as Item[]).map((item) => {
+                const baseItem = baseItems.get(getItemKey(item, identityFields));
+
+                return diffItem(item, baseItem, identityFields);
+            });
+        }
+        return result as ClientSampleDelta;
+    }
+
+    return {
+        encode,
+        /**
+         * The next encoded sample will be a keyframe
+         */
+        reset: () => {
+            previous = undefined;
+            encodedSinceKeyframe = 0;
+        },
+    };
+}
+
+export type ClientSampleDeltaDecoder = ReturnType<typeof createClientSampleDeltaDecoder>;
+
+/**
+ * Creates a decoder rebuilding the full ClientSamples from the samples created by a ClientSampleDeltaEncoder.
+ * The samples must be decoded in the order they were created.
+ */
+export function createClientSampleDeltaDecoder() {
+    let previous: ClientSample | undefined;
+
+    /**
+     * Returns the full sample, or undefined if the sample the delta refers to was not decoded
+     * (e.g.: a sample is lost). In that case the samples cannot be decoded until the next keyframe.
+     */
+    function decode(sample: ClientSampleDelta): ClientSample | undefined {
+        const { deltaOf, ...fields } = sample;
+
+        if (deltaOf === undefined) {
+            previous = fields;
+            return fields;
+        }
+        if (!previous || previous.sampleSeq !== deltaOf) {
+            logger.warn(`Cannot decode sample ${sample.sampleSeq}, the sample ${deltaOf} it refers to is missing. Waiting for the next keyframe.`);
+            previous = undefined;
+            return;
+        }
+        const base = previous as Item;
+        const result: Item = { ...fields };
+
+        for (const field of CLIENT_FIELDS) {
+            if (result[field] === null) delete result[field];
+            else if (!(field in result) && base[field] !== undefined) result[field] = base[field];
+        }
+        for (const [ field, identityFields ] of Object.entries(IDENTITY_FIELDS)) {
+            const items = result[field];
+            if (!Array.isArray(items) || !identityFields) continue;
+            const baseItems = indexItems(base[field], identityFields);
+
+            result[field] = (items as Item[]).map((item) => {
+                const baseItem = baseItems.get(getItemKey(item, identityFields));
+
+                return mergeItem(item, baseItem);
+            });
+        }
+
+        previous = result as ClientSample;
+        return previous;
+    }
+
+    return {
+        decode,
+        reset: () => {
+            previous = undefined;
+        },
+    };
+}
@@ -0,0 +1,452 @@
+import { ClientMonitor, ClientMonitorEvents } from "../src/ClientMonitor";
+import { CallSummary } from "../src/CallSummary";
+import { CustomDetector, DetectorContext } from "../src/detectors/Detector";
+import { ClientIssue } from "../src/ClientMonitor";
+import { StatsDumpStatsRecord } from "../src/collectors/StatsDump";
+import { QUALITY_LIMITATIONS_EXTENSION_TYPE, TRACK_SCORES_EXTENSION_TYPE } from "../src/Sampler";
+import { ClientSample } from "../src/schema/Samples";
+import * as Generator from "./helpers/StatsGenerator";
+
+const PEER_CONNECTION_ID = 'monitored-pc';
+const TRACK_ID = 'inbound-audio-track';
+
+function createInboundAudioRecord(timestamp: number, bytesReceived: number, data?: Record<string, unknown>): StatsDumpStatsRecord {
+    return {
+        type: 'stats',
+        timestamp,
+        peerConnections: [{
+            peerConnectionId: PEER_CONNECTION_ID,
+            stats: [
+                Generator.createInboundRtpStats({
+                    kind: 'audio',
+                    timestamp,
+                    trackIdentifier: TRACK_ID,
+                    packetsReceived: timestamp / 20,
+                    packetsLost: 0,
+                    bytesReceived,
+                    ...(data ?? {}),
+                }),
+            ],
+        }],
+    };
+}
+
+describe("ClientMonitor", () => {
+    let monitor: ClientMonitor;
+
+    afterEach(() => {
+        monitor.close();
+    });
+
+    describe("Track scores", () => {
+        it("When the score of a track crosses a threshold Then track-score-threshold-crossed is emitted", async () => {
+            monitor = new ClientMonitor({ collectingPeriodInMs: 0, trackScoreThresholds: [ 4 ] });
+            const events: ClientMonitorEvents['track-score-threshold-crossed'][] = [];
+            monitor.on('track-score-threshold-crossed', (event) => events.push(event));
+
+            await monitor.replayStatsDump([
+                createInboundAudioRecord(1000, 0),
+                // 32kbps
+                createInboundAudioRecord(2000, 4000),
+                createInboundAudioRecord(3000, 8000),
+                // 1kbps
+                createInboundAudioRecord(4000, 8125),
+            ]);
+
+            expect(events).toEqual([{
+                peerConnectionId: PEER_CONNECTION_ID,
+                trackId: TRACK_ID,
+                direction: 'inbound',
+                kind: 'audio',
+                score: expect.any(Number),
+                previousScore: expect.any(Number),
+                thresholds: [ 4 ],
+                trend: 'degraded',
+            }]);
+            expect(events[0].score).toBeLessThan(4);
+            expect(events[0].previousScore).toBeGreaterThanOrEqual(4);
+        });
+
+        it("When a sample is created Then it contains the scores of the tracks as extension stats", async () => {
+            monitor = new ClientMonitor({ collectingPeriodInMs: 0, samplingTick: 1 });
+            const samples: ClientSample[] = [];
+            monitor.on('sample-created', ({ clientSample }) => samples.push(clientSample));
+
+            await monitor.replayStatsDump([
+                createInboundAudioRecord(1000, 0),
+                createInboundAudioRecord(2000, 4000),
+            ]);
+
+            const extensionStats = samples[1].extensionStats?.find((stats) => stats.type === TRACK_SCORES_EXTENSION_TYPE);
+            expect(JSON.parse(extensionStats!.payload)).toEqual([{
+                trackId: TRACK_ID,
+                peerConnectionId: PEER_CONNECTION_ID,
+                direction: 'inbound',
+                kind: 'audio',
+                score: monitor.getTrackStats(TRACK_ID)?.score,
+            }]);
+        });
+    });
+
+    describe("Quality limitation", () => {
+        const OUTBOUND_TRACK_ID = 'outbound-video-track';
+        const createOutboundVideoRecord = (timestamp: number, qualityLimitationReason: string): StatsDumpStatsRecord => ({
+            type: 'stats',
+            timestamp,
+            peerConnections: [{
+                peerConnectionId: PEER_CONNECTION_ID,
+                stats: [
+                    Generator.createMediaSourceStats({
+                        kind: 'video',
+                        timestamp,
+                        trackIdentifier: OUTBOUND_TRACK_ID,
+                    }),
+                    Generator.createOutboundRtpStats({
+                        kind: 'video',
+                        timestamp,
+                        qualityLimitationReason,
+                    }),
+                ],
+            }],
+        });
+
+        it("When an outbound video track is limited Then the track and the sample contain the limitation episodes", async () => {
+            monitor = new ClientMonitor({ collectingPeriodInMs: 0, samplingTick: 1 });
+            const samples: ClientSample[] = [];
+            monitor.on('sample-created', ({ clientSample }) => samples.push(clientSample));
+
+            await monitor.replayStatsDump([
+                createOutboundVideoRecord(1000, 'none'),
+                createOutboundVideoRecord(2000, 'cpu'),
+                createOutboundVideoRecord(4000, 'cpu'),
+            ]);
+
+            const track = monitor.getTrackStats(OUTBOUND_TRACK_ID);
+            expect(track?.direction === 'outbound' && track.qualityLimitation?.episodes).toEqual([{
+                reason: 'cpu',
+                startedAt: 2000,
+                durationInMs: 2000,
+                resolutionChanges: 0,
+            }]);
+
+            const extensionStats = samples[samples.length - 1].extensionStats?.find((stats) => stats.type === QUALITY_LIMITATIONS_EXTENSION_TYPE);
+            expect(JSON.parse(extensionStats!.payload)).toEqual([{
+                trackId: OUTBOUND_TRACK_ID,
+                peerConnectionId: PEER_CONNECTION_ID,
+                ...(track?.direction === 'outbound' ? track.qualityLimitation : {}),
+            }]);
+        });
+    });
+
+    describe("Network changes", () => {
+        const createNetworkRecord = (timestamp: number, iceState: string, local: { id: string, networkType: string, address: string }): StatsDumpStatsRecord => ({
+            type: 'stats',
+            timestamp,
+            peerConnections: [{
+                peerConnectionId: PEER_CONNECTION_ID,
+                stats: [
+                    Generator.createTransportStats({ timestamp, iceState, selectedCandidatePairId: `pair-${local.id}` }),
+                    Generator.createIceCandidatePairStats({ timestamp, id: `pair-${local.id}`, localCandidateId: local.id, state: 'succeeded' }),
+                    Generator.createIceLocalCandidateStats({ timestamp, id: local.id, candidateType: 'host', networkType: local.networkType, address: local.address }),
+                    Generator.createIceRemoteCandidateStats({ timestamp }),
+                ],
+            }],
+        });
+
+        it("When the network interface of the selected candidate pair changes Then network-changed and a call event are emitted", async () => {
+            monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+            const events: ClientMonitorEvents['network-changed'][] = [];
+            const callEvents: ClientMonitorEvents['call-event'][] = [];
+            monitor.on('network-changed', (event) => events.push(event));
+            monitor.on('call-event', (event) => callEvents.push(event));
+            const wifi = { id: 'wifi-candidate', networkType: 'wifi', address: '192.168.1.2' };
+            const cellular = { id: 'cellular-candidate', networkType: 'cellular', address: '10.0.0.2' };
+
+            await monitor.replayStatsDump([
+                createNetworkRecord(1000, 'connected', wifi),
+                createNetworkRecord(2000, 'disconnected', wifi),
+                createNetworkRecord(3000, 'disconnected', wifi),
+                createNetworkRecord(4000, 'connected', cellular),
+                createNetworkRecord(5000, 'connected', cellular),
+            ]);
+
+            expect(events).toEqual([{
+                peerConnectionId: PEER_CONNECTION_ID,
+                previousNetworkType: 'wifi',
+                networkType: 'cellular',
+                previousAddress: '192.168.1.2',
+                address: '10.0.0.2',
+                previousCandidatePairId: 'pair-wifi-candidate',
+                candidatePairId: 'pair-cellular-candidate',
+                switchedAt: 4000,
+                reconnectionTimeInMs: 2000,
+            }]);
+            expect(callEvents.filter((event) => event.name === 'NETWORK_CHANGED')).toEqual([ expect.objectContaining({
+                peerConnectionId: PEER_CONNECTION_ID,
+                timestamp: 4000,
+            }) ]);
+        });
+    });
+
+    describe("Call summary", () => {
+        it("When the monitor is closed Then the close event contains the summary of the call", async () => {
+            monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+            let callSummary: CallSummary | undefined;
+            monitor.once('close', (event) => (callSummary = event.callSummary));
+
+            await monitor.replayStatsDump([
+                createInboundAudioRecord(1000, 0, { totalSamplesReceived: 48000, concealedSamples: 0 }),
+                createInboundAudioRecord(2000, 4000, { totalSamplesReceived: 96000, concealedSamples: 480 }),
+                createInboundAudioRecord(3000, 12000, { totalSamplesReceived: 144000, concealedSamples: 1440 }),
+            ]);
+            monitor.addIssue({ severity: 'major', description: 'something' });
+            monitor.addIssue({ severity: 'minor', description: 'something else' });
+            monitor.close();
+
+            expect(callSummary?.startedAt).toBe(1000);
+            expect(callSummary?.endedAt).toBe(3000);
+            expect(callSummary?.durationInMs).toBe(2000);
+            expect(callSummary?.usingTurnInMs).toBe(0);
+            expect(callSummary?.issues.critical).toHaveLength(0);
+            expect(callSummary?.issues.major.map((issue) => issue.description)).toEqual([ 'something' ]);
+            expect(callSummary?.issues.minor).toHaveLength(1);
+            expect(callSummary?.tracks).toHaveLength(1);
+            expect(callSummary?.tracks[0]).toMatchObject({
+                trackId: TRACK_ID,
+                peerConnectionId: PEER_CONNECTION_ID,
+                direction: 'inbound',
+                kind: 'audio',
+                startedAt: 1000,
+                endedAt: 3000,
+                concealmentRatio: 0.01,
+            });
+            expect(callSummary?.tracks[0].bitrate).toEqual({ min: 32000, avg: 48000, max: 64000 });
+            expect(callSummary?.score).toBeGreaterThan(1);
+        });
+    });
+
+    describe("Issues", () => {
+        it("When an issue with the same type is added while open Then it is not added again", () => {
+            monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+            const issues: ClientIssue[] = [];
+            monitor.on('issue', (issue) => issues.push(issue));
+
+            const issueId = monitor.addIssue({ type: 'my-issue', severity: 'major', mediaTrackId: 'my-track', timestamp: 1000 });
+            const sameIssueId = monitor.addIssue({ type: 'my-issue', severity: 'major', mediaTrackId: 'my-track', timestamp: 2000 });
+            const otherTrackIssueId = monitor.addIssue({ type: 'my-issue', severity: 'major', mediaTrackId: 'other-track' });
+
+            expect(sameIssueId).toBe(issueId);
+            expect(otherTrackIssueId).not.toBe(issueId);
+            expect(issues).toHaveLength(2);
+            expect(monitor.issues.get(issueId)).toMatchObject({ state: 'open', timestamp: 1000, occurrences: 2 });
+            expect(monitor.issues.active().map((issue) => issue.mediaTrackId)).toEqual([ 'my-track', 'other-track' ]);
+        });
+
+        it("When an issue is resolved Then issue-resolved is emitted with its duration", () => {
+            monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+            const resolvedIssues: ClientIssue[] = [];
+            monitor.on('issue-resolved', (issue) => resolvedIssues.push(issue));
+
+            const issueId = monitor.addIssue({ type: 'my-issue', severity: 'minor', timestamp: Date.now() - 3000 });
+            monitor.resolveIssue(issueId);
+            monitor.resolveIssue(issueId);
+            const newIssueId = monitor.addIssue({ type: 'my-issue', severity: 'minor' });
+
+            expect(resolvedIssues).toEqual([ expect.objectContaining({
+                id: issueId,
+                state: 'resolved',
+                resolvedAt: expect.any(Number),
+            }) ]);
+            expect(resolvedIssues[0].durationInMs).toBeGreaterThanOrEqual(3000);
+            expect(newIssueId).not.toBe(issueId);
+            expect(monitor.issues.resolved().map((issue) => issue.id)).toEqual([ issueId ]);
+            expect(monitor.issues.active().map((issue) => issue.id)).toEqual([ newIssueId ]);
+        });
+
+        it("When more issues are resolved than maxResolvedIssues Then the oldest resolved issues are dropped", () => {
+            monitor = new ClientMonitor({ collectingPeriodInMs: 0, maxResolvedIssues: 2 });
+
+            const openIssueId = monitor.addIssue({ type: 'open-issue', severity: 'minor' });
+            const issueIds = [ 1, 2, 3 ].map((index) => monitor.addIssue({ type: `my-issue-${index}`, severity: 'minor' }));
+            issueIds.forEach((issueId) => monitor.resolveIssue(issueId));
+
+            expect(monitor.issues.resolved().map((issue) => issue.id)).toEqual(issueIds.slice(1));
+            expect(monitor.issues.get(issueIds[0])).toBeUndefined();
+            expect(monitor.issues.active().map((issue) => issue.id)).toEqual([ openIssueId ]);
+        });
+
+        it("When a stucked inbound track starts receiving Then the issue of the detector is resolved", async () => {
+            monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+            monitor.createStuckedInboundTrackDetector({
+                minStuckedDurationInMs: 2000,
+                createIssueOnDetection: { severity: 'major' },
+            });
+
+            await monitor.replayStatsDump([
+                createInboundAudioRecord(1000, 0),
+                createInboundAudioRecord(2000, 0),
+                createInboundAudioRecord(3000, 0),
+                createInboundAudioRecord(4000, 0),
+            ]);
+            expect(monitor.issues.active()).toEqual([ expect.objectContaining({
+                type: 'stucked-inbound-track',
+                peerConnectionId: PEER_CONNECTION_ID,
+                mediaTrackId: TRACK_ID,
+                timestamp: 3000,
+                occurrences: 1,
+            }) ]);
+
+            await monitor.replayStatsDump([
+                createInboundAudioRecord(5000, 4000),
+            ]);
+            expect(monitor.issues.active()).toHaveLength(0);
+            expect(monitor.issues.resolved()).toEqual([ expect.objectContaining({
+                type: 'stucked-inbound-track',
+                resolvedAt: 5000,
+                durationInMs: 2000,
+            }) ]);
+        });
+
+        it("When one of two stucked inbound tracks starts receiving Then only the issue of that track is resolved", async () => {
+            monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+            monitor.createStuckedInboundTrackDetector({
+                minStuckedDurationInMs: 2000,
+                createIssueOnDetection: { severity: 'major' },
+            });
+            const createRecord = (timestamp: number, bytesReceived: number): StatsDumpStatsRecord => {
+                const record = createInboundAudioRecord(timestamp, bytesReceived);
+                record.peerConnections[0].stats.push(Generator.createInboundRtpStats({
+                    id: 'other-inbound-rtp',
+                    kind: 'audio',
+                    ssrc: 2000,
+                    timestamp,
+                    trackIdentifier: 'other-track',
+                    packetsReceived: 0,
+                    bytesReceived: 0,
+                }));
+                return record;
+            };
+
+            await monitor.replayStatsDump([
+                createRecord(1000, 0),
+                createRecord(2000, 0),
+                createRecord(3000, 0),
+                createRecord(4000, 4000),
+            ]);
+
+            expect(monitor.issues.active()).toEqual([ expect.objectContaining({
+                type: 'stucked-inbound-track',
+                mediaTrackId: 'other-track',
+            }) ]);
+            expect(monitor.issues.resolved()).toEqual([ expect.objectContaining({
+                type: 'stucked-inbound-track',
+                mediaTrackId: TRACK_ID,
+                resolvedAt: 4000,
+            }) ]);
+        });
+    });
+
+    describe("Custom detectors", () => {
+        const createDetector = (name: string, onUpdate?: (context: DetectorContext) => void) => {
+            const detector = {
+                name,
+                updates: 0,
+                closed: false,
+                update: (context: DetectorContext) => {
+                    ++detector.updates;
+                    onUpdate?.(context);
+                },
+                close: () => {
+                    detector.closed = true;
+                },
+            };
+            return detector;
+        };
+
+        beforeEach(() => {
+            monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        });
+
+        it("When a detector is added Then it is updated after every collection with the storage", async () => {
+            let storage: unknown;
+            const detector = createDetector('my-detector', (context) => (storage = context.storage));
+            monitor.addDetector(detector);
+
+            await monitor.collect();
+            await monitor.collect();
+
+            expect(detector.updates).toBe(2);
+            expect(storage).toBe(monitor.storage);
+        });
+
+        it("When a detector is removed Then it is closed and not updated anymore", async () => {
+            const detector = createDetector('my-detector');
+            monitor.addDetector(detector);
+
+            expect(monitor.removeDetector('my-detector')).toBe(true);
+            await monitor.collect();
+
+            expect(detector.closed).toBe(true);
+            expect(detector.updates).toBe(0);
+            expect(monitor.removeDetector('my-detector')).toBe(false);
+        });
+
+        it("When a detector is added with an existing name Then the existing one is replaced", () => {
+            const existingDetector = createDetector('my-detector');
+            monitor.addDetector(existingDetector);
+            monitor.addDetector(createDetector('my-detector'));
+
+            expect(existingDetector.closed).toBe(true);
+        });
+
+        it("When the monitor is closed Then the detectors are closed", () => {
+            const detector = createDetector('my-detector');
+            const builtInDetector = monitor.createStuckedInboundTrackDetector();
+            monitor.addDetector(detector);
+
+            monitor.close();
+
+            expect(detector.closed).toBe(true);
+            expect(builtInDetector.closed).toBe(true);
+        });
+
+        it("When a detector creates an issue Then it is added according to createIssueOnDetection", async () => {
+            const issues: ClientIssue[] = [];
+            const results: boolean[] = [];
+            const detect = (context: DetectorContext) => results.push(context.createIssue({
+                description: 'Something detected',
+                mediaTrackId: 'my-track',
+                attachments: { value: 1 },
+            }));
+            monitor.on('issue', (issue) => issues.push(issue));
+            monitor.addDetector(createDetector('silent-detector', detect));
+            monitor.addDetector(createDetector('reporting-detector', detect), {
+                createIssueOnDetection: {
+                    severity: 'major',
+                    attachments: () => ({ customField: 'custom' }),
+                },
+            });
+
+            await monitor.collect();
+
+            expect(results).toEqual([ false, true ]);
+            expect(issues).toEqual([{
+                id: expect.any(String),
+                state: 'open',
+                occurrences: 1,
+                severity: 'major',
+                description: 'Something detected',
+                mediaTrackId: 'my-track',
+                timestamp: expect.any(Number),
+                attachments: { value: 1, customField: 'custom' },
+            }]);
+        });
+
+        it("When a built-in detector is removed by its name Then it is closed", () => {
+            const detector = monitor.createStuckedOutboundTrackDetector();
+
+            expect(monitor.removeDetector('StuckedOutboundTrackDetector')).toBe(true);
+            expect(detector.closed).toBe(true);
+        });
+    });
+});
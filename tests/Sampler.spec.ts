@@ -2,8 +2,10 @@ import { Sampler } from "../src/Sampler";
 import { StatsStorage } from "../src/entries/StatsStorage";
 import * as W3CStats from '../src/schema/W3cStatsIdentifiers';
 import { createStatsMap } from "../src/utils/Stats";
+import { ClientSampleDelta } from "../src/utils/sampleDelta";
 import { 
     createCodecStats, 
+    createInboundRtpStats,
 } from "./helpers/StatsGenerator";
 
 const PEER_CONNECTION_ID = "peerConnectionId";
@@ -42,4 +44,25 @@ describe("Sampler", () => {
             expect(trimObj(statsValue)).toMatchObject(trimObj(clientSample.codecs![0]));
         });
     });
+
+    describe("Delta Mode", () => {
+        afterEach(() => {
+            sampler.setDeltaMode(undefined);
+        });
+
+        it('When delta mode is set Then unchanged tracks are sampled by their identity', async () => {
+            sampler.setDeltaMode(5);
+            addStatsToStorage(createInboundRtpStats({ kind: 'video', packetsReceived: 10 }));
+            const keyframe = sampler.createClientSample() as ClientSampleDelta;
+            const delta = sampler.createClientSample() as ClientSampleDelta;
+
+            expect(keyframe.deltaOf).toBeUndefined();
+            expect(keyframe.inboundVideoTracks?.[0]?.packetsReceived).not.toBeUndefined();
+            expect(delta.deltaOf).toBe(keyframe.sampleSeq);
+            expect(delta.inboundVideoTracks).toEqual([{
+                ssrc: keyframe.inboundVideoTracks?.[0]?.ssrc,
+                peerConnectionId: PEER_CONNECTION_ID,
+            }]);
+        });
+    });
 });
@@ -0,0 +1,121 @@
+import { ClientMonitor } from "../src/ClientMonitor";
+import { parseStatsDump, StatsDumpRecord, StatsDumpStatsRecord } from "../src/collectors/StatsDump";
+import * as Generator from "./helpers/StatsGenerator";
+
+const PEER_CONNECTION_ID = 'recorded-pc';
+
+function createStatsRecord(timestamp: number, bytesSent: number): StatsDumpStatsRecord {
+    return {
+        type: 'stats',
+        timestamp,
+        peerConnections: [{
+            peerConnectionId: PEER_CONNECTION_ID,
+            label: 'recorded',
+            stats: [
+                Generator.createOutboundRtpStats({ kind: 'audio', timestamp, bytesSent }),
+                Generator.createCodecStats({ timestamp }),
+            ],
+        }],
+    };
+}
+
+describe("StatsRecorder", () => {
+    let monitor: ClientMonitor;
+
+    beforeEach(() => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0, samplingTick: 1 });
+    });
+
+    afterEach(() => {
+        monitor.close();
+    });
+
+    it("When stats are collected Then they are recorded with the label of the peer connection", async () => {
+        const recorder = monitor.createStatsRecorder();
+
+        await monitor.replayStatsDump([ createStatsRecord(1000, 0), createStatsRecord(2000, 1000) ]);
+
+        const records = parseStatsDump(recorder.toJsonLines());
+        const statsRecords = records.filter((record): record is StatsDumpStatsRecord => record.type === 'stats');
+        expect(records[0]).toMatchObject({ type: 'header', version: 1 });
+        expect(statsRecords.map((record) => record.timestamp)).toEqual([1000, 2000]);
+        expect(statsRecords[1].peerConnections[0]).toMatchObject({
+            peerConnectionId: PEER_CONNECTION_ID,
+            label: 'recorded',
+        });
+        expect(statsRecords[1].peerConnections[0].stats.find((stats) => stats.type === 'outbound-rtp')).toMatchObject({ bytesSent: 1000 });
+    });
+
+    it("When call events and issues are added Then they are recorded", async () => {
+        const recorder = monitor.createStatsRecorder();
+
+        monitor.addCustomCallEvent({ name: 'MY_EVENT', timestamp: 1500 });
+        const issueId = monitor.addIssue({ severity: 'minor', description: 'something', timestamp: 1600 });
+        monitor.resolveIssue(issueId);
+
+        const records = parseStatsDump(recorder.toJsonLines());
+        expect(records.map((record) => record.type)).toEqual([ 'header', 'call-event', 'issue', 'issue' ]);
+        expect(records.slice(2)).toEqual([
+            expect.objectContaining({ timestamp: 1600, issue: expect.objectContaining({ id: issueId, state: 'open' }) }),
+            expect.objectContaining({ issue: expect.objectContaining({ id: issueId, state: 'resolved' }) }),
+        ]);
+    });
+
+    it("When the recording contains multi-byte characters Then its size is measured in bytes", () => {
+        const recorder = monitor.createStatsRecorder();
+
+        monitor.addCustomCallEvent({ name: 'MY_EVENT', message: 'árvíztűrő tükörfúrógép' });
+
+        expect(recorder.sizeInBytes).toBeGreaterThan(recorder.toJsonLines().split('\n')[1].length + 1);
+    });
+
+    it("When allow-lists are given Then only the allowed types and fields are recorded", async () => {
+        const recorder = monitor.createStatsRecorder({
+            statsTypes: [ 'outbound-rtp' ],
+            statsFields: { 'outbound-rtp': [ 'bytesSent' ] },
+        });
+
+        await monitor.replayStatsDump([ createStatsRecord(1000, 500) ]);
+
+        const [ , record ] = parseStatsDump(recorder.toJsonLines()) as StatsDumpStatsRecord[];
+        expect(record.peerConnections[0].stats).toEqual([{
+            id: expect.any(String),
+            type: 'outbound-rtp',
+            timestamp: 1000,
+            bytesSent: 500,
+        }]);
+    });
+
+    it("When the recording exceeds its limits Then the oldest records are dropped", async () => {
+        const recorder = monitor.createStatsRecorder({ maxRecords: 2 });
+
+        await monitor.replayStatsDump([ createStatsRecord(1000, 0), createStatsRecord(2000, 1000), createStatsRecord(3000, 2000) ]);
+
+        const records = parseStatsDump(recorder.toJsonLines());
+        expect(recorder.droppedRecords).toBe(1);
+        expect(records[0]).toMatchObject({ type: 'header', droppedRecords: 1 });
+        expect(records.slice(1).map((record) => (record as StatsDumpStatsRecord).timestamp)).toEqual([2000, 3000]);
+    });
+
+    it("When the monitor is closed Then the recorder stops recording", () => {
+        const recorder = monitor.createStatsRecorder();
+
+        monitor.close();
+        monitor.addCustomCallEvent({ name: 'MY_EVENT' });
+
+        expect(recorder.closed).toBe(true);
+        expect(recorder.numberOfRecords).toBe(0);
+    });
+
+    it("When a recording is replayed Then the replaying monitor collects the recorded stats", async () => {
+        const recorder = monitor.createStatsRecorder();
+        const records: StatsDumpRecord[] = [ createStatsRecord(1000, 0), createStatsRecord(2000, 1000) ];
+        await monitor.replayStatsDump(records);
+
+        const replayingMonitor = new ClientMonitor({ collectingPeriodInMs: 0, samplingTick: 1 });
+        await replayingMonitor.replayStatsDump(parseStatsDump(recorder.toJsonLines()));
+
+        expect(replayingMonitor.sendingAudioBitrate).toBe(8000);
+        replayingMonitor.close();
+    });
+});
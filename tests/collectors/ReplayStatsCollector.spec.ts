@@ -0,0 +1,118 @@
+import { ClientMonitor } from "../../src/ClientMonitor";
+import { ClientSample } from "../../src/schema/Samples";
+import { parseStatsDump, StatsDumpRecord } from "../../src/collectors/StatsDump";
+import * as Generator from "../helpers/StatsGenerator";
+
+const PEER_CONNECTION_ID = 'recorded-pc';
+
+function createStatsRecord(timestamp: number, bytesSent: number): StatsDumpRecord {
+    return {
+        type: 'stats',
+        timestamp,
+        peerConnections: [{
+            peerConnectionId: PEER_CONNECTION_ID,
+            label: 'recorded',
+            stats: [
+                Generator.createOutboundRtpStats({ kind: 'audio', timestamp, bytesSent }),
+            ],
+        }],
+    };
+}
+
+function createDump(records: StatsDumpRecord[]): string {
+    return records.map((record) => JSON.stringify(record)).join('\n');
+}
+
+describe("ReplayStatsCollector", () => {
+    let monitor: ClientMonitor;
+
+    beforeEach(() => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0, samplingTick: 1 });
+    });
+
+    afterEach(() => {
+        monitor.close();
+    });
+
+    it("When a dump is replayed Then the stats are collected at the recorded time", async () => {
+        const records = parseStatsDump(createDump([
+            { type: 'header', version: 1, createdAt: 1000 },
+            createStatsRecord(1000, 0),
+            createStatsRecord(2000, 1000),
+            createStatsRecord(3000, 3000),
+        ]));
+        const samples: ClientSample[] = [];
+        const bitrates: (number | undefined)[] = [];
+        monitor.on('sample-created', ({ clientSample }) => samples.push(clientSample));
+        monitor.on('stats-collected', () => bitrates.push(monitor.sendingAudioBitrate));
+
+        await monitor.replayStatsDump(records);
+
+        expect(samples.map((sample) => sample.timestamp)).toEqual([1000, 2000, 3000]);
+        expect(bitrates.slice(1)).toEqual([8000, 16000]);
+        expect(monitor.getPeerConnectionStats(PEER_CONNECTION_ID)?.label).toBe('recorded');
+    });
+
+    it("When a dump is replayed Then the recorded time is given to the listeners without changing the global clock", async () => {
+        const records = [ createStatsRecord(1000, 0), createStatsRecord(2000, 1000) ];
+        const timestamps: number[] = [];
+        const clock: number[] = [];
+        monitor.on('stats-collected', ({ timestamp }) => {
+            timestamps.push(timestamp);
+            clock.push(Date.now());
+        });
+
+        const startedAt = Date.now();
+        await monitor.replayStatsDump(records);
+
+        expect(timestamps).toEqual([1000, 2000]);
+        expect(clock.every((now) => startedAt <= now)).toBe(true);
+    });
+
+    it("When a dump is replayed Then the time elapsed since the previous collection and sample is measured on the recorded time", async () => {
+        const records = [ createStatsRecord(1000, 0), createStatsRecord(2000, 1000), createStatsRecord(4000, 3000) ];
+        const collectionElapsed: number[] = [];
+        const samplingElapsed: number[] = [];
+        monitor.on('stats-collected', ({ elapsedSinceLastCollectedInMs }) => collectionElapsed.push(elapsedSinceLastCollectedInMs));
+        monitor.on('sample-created', ({ elapsedSinceLastSampleInMs }) => samplingElapsed.push(elapsedSinceLastSampleInMs));
+
+        await monitor.replayStatsDump(records);
+
+        expect(collectionElapsed).toEqual([0, 1000, 2000]);
+        expect(samplingElapsed).toEqual([0, 1000, 2000]);
+    });
+
+    it("When the dump contains call events Then they are added to the samples of their time", async () => {
+        const records = parseStatsDump(createDump([
+            createStatsRecord(1000, 0),
+            createStatsRecord(2000, 1000),
+            { type: 'call-event', timestamp: 1500, event: { name: 'MY_EVENT', timestamp: 1500 } },
+        ]));
+        const samples: ClientSample[] = [];
+        monitor.on('sample-created', ({ clientSample }) => samples.push(clientSample));
+
+        await monitor.replayStatsDump(records);
+
+        expect(samples[0].customCallEvents?.some((event) => event.name === 'MY_EVENT')).toBeFalsy();
+        expect(samples[1].customCallEvents?.map((event) => event.name)).toContain('MY_EVENT');
+    });
+
+    it("When a peer connection disappears from the dump Then it is removed from the storage", async () => {
+        const records: StatsDumpRecord[] = [
+            createStatsRecord(1000, 0),
+            { type: 'stats', timestamp: 2000, peerConnections: [] },
+        ];
+
+        const collector = await monitor.replayStatsDump(records);
+
+        expect(monitor.getPeerConnectionStats(PEER_CONNECTION_ID)).toBeUndefined();
+        expect(collector.hasNext).toBe(false);
+        expect(collector.timestamp).toBe(2000);
+    });
+
+    it("When the dump is created by a newer version Then parsing fails", () => {
+        const dump = createDump([ { type: 'header', version: 2, createdAt: 1000 } ]);
+
+        expect(() => parseStatsDump(dump)).toThrow('version');
+    });
+});
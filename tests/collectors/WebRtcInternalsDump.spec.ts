@@ -0,0 +1,122 @@
+import {
+    convertWebRtcInternalsDump,
+    createStatsStorageFromWebRtcInternalsDump,
+    parseWebRtcInternalsDump,
+    WebRtcInternalsDump,
+} from "../../src/collectors/WebRtcInternalsDump";
+
+const START_TIME = '2024-01-01T10:00:00.000Z';
+const END_TIME = '2024-01-01T10:00:02.000Z';
+const T0 = Date.parse(START_TIME);
+
+function createSeries(statsType: string, values: unknown[]) {
+    return {
+        statsType,
+        startTime: START_TIME,
+        endTime: END_TIME,
+        values: JSON.stringify(values),
+    };
+}
+
+function createDump(): WebRtcInternalsDump {
+    return {
+        UserAgent: 'Mozilla/5.0',
+        getUserMedia: [],
+        PeerConnections: {
+            '1234-1': {
+                url: 'https://example.com',
+                stats: {
+                    'IT01A1-timestamp': createSeries('inbound-rtp', [T0, T0 + 1000, T0 + 2000]),
+                    'IT01A1-ssrc': createSeries('inbound-rtp', [1, 1, 1]),
+                    'IT01A1-kind': createSeries('inbound-rtp', ['audio', 'audio', 'audio']),
+                    'IT01A1-transportId': createSeries('inbound-rtp', ['T01', 'T01', 'T01']),
+                    'IT01A1-bytesReceived': createSeries('inbound-rtp', [0, 1000, 3000]),
+                    // appeared later, therefore shorter
+                    'IT01A1-jitter': createSeries('inbound-rtp', [0.01, 0.02]),
+                    'IT01A1-[bytesReceived_in_bits/s]': createSeries('inbound-rtp', [0, 8000, 16000]),
+                    'OT01V2-timestamp': createSeries('outbound-rtp', [T0 + 2, T0 + 1002, T0 + 2002]),
+                    'OT01V2-ssrc': createSeries('outbound-rtp', [2, 2, 2]),
+                    'OT01V2-kind': createSeries('outbound-rtp', ['video', 'video', 'video']),
+                    'OT01V2-qualityLimitationDurations': createSeries('outbound-rtp', [
+                        '{"bandwidth":0,"cpu":0,"none":1,"other":0}',
+                        '{"bandwidth":1,"cpu":0,"none":1,"other":0}',
+                        '{"bandwidth":2,"cpu":0,"none":1,"other":0}',
+                    ]),
+                },
+            },
+            '1234-2': {
+                stats: {
+                    'IT01A3-timestamp': createSeries('inbound-rtp', [T0 + 1000, T0 + 2000]),
+                    'IT01A3-ssrc': createSeries('inbound-rtp', [3, 3]),
+                    'IT01A3-kind': createSeries('inbound-rtp', ['audio', 'audio']),
+                },
+            },
+            '1234-3': {
+                stats: {},
+            },
+        },
+    };
+}
+
+describe("WebRtcInternalsDump", () => {
+    it("When a dump is parsed Then every peer connection with stats has snapshots", () => {
+        const peerConnections = parseWebRtcInternalsDump(JSON.stringify(createDump()));
+
+        expect(peerConnections.map((pc) => pc.peerConnectionId)).toEqual(['1234-1', '1234-2']);
+        expect(peerConnections[0].snapshots.map((snapshot) => snapshot.timestamp)).toEqual([T0, T0 + 1000, T0 + 2000]);
+        expect(peerConnections[0].snapshots[0].stats.map((stats) => stats.id).sort()).toEqual(['IT01A1', 'OT01V2']);
+    });
+
+    it("When a series is shorter than the others Then its values are aligned to the end", () => {
+        const [ peerConnection ] = parseWebRtcInternalsDump(createDump());
+        const jitters = peerConnection.snapshots.map((snapshot) => {
+            const stats = snapshot.stats.find((s) => s.id === 'IT01A1') as Record<string, unknown>;
+            return stats.jitter;
+        });
+
+        expect(jitters).toEqual([undefined, 0.01, 0.02]);
+    });
+
+    it("When a metric is calculated by webrtc-internals Then it is not added to the stats, and objects are parsed", () => {
+        const [ peerConnection ] = parseWebRtcInternalsDump(createDump());
+        const [ inboundRtp, outboundRtp ] = [ 'IT01A1', 'OT01V2' ]
+            .map((id) => peerConnection.snapshots[2].stats.find((s) => s.id === id) as Record<string, unknown>);
+
+        expect(Object.keys(inboundRtp).some((key) => key.startsWith('['))).toBe(false);
+        expect(outboundRtp.qualityLimitationDurations).toEqual({ bandwidth: 2, cpu: 0, none: 1, other: 0 });
+    });
+
+    it("When a dump is converted to stats records Then the records contain the peer connections having stats", () => {
+        const records = convertWebRtcInternalsDump(createDump());
+
+        expect(records.map((record) => record.peerConnections.map((pc) => pc.peerConnectionId))).toEqual([
+            ['1234-1'],
+            ['1234-1', '1234-2'],
+            ['1234-1', '1234-2'],
+        ]);
+    });
+
+    it("When a StatsStorage is created from a dump Then each peer connection is an entry updated by the stats", () => {
+        const storage = createStatsStorageFromWebRtcInternalsDump(createDump());
+
+        expect([ ...storage.peerConnections() ].map((pc) => pc.peerConnectionId)).toEqual(['1234-1', '1234-2']);
+        expect([ ...storage.inboundRtps() ].find((inboundRtp) => inboundRtp.stats.ssrc === 1)?.receivingBitrate).toBe(16000);
+
+        storage.clear();
+    });
+
+    it("When a StatsStorage is created from a dump Then the history is stamped with the time the stats were collected", () => {
+        const storage = createStatsStorageFromWebRtcInternalsDump(createDump());
+
+        expect(storage.getPeerConnectionHistory('1234-1', 'receivingBitrate')).toEqual([
+            { timestamp: T0 + 1000, value: 8000 },
+            { timestamp: T0 + 2000, value: 16000 },
+        ]);
+
+        storage.clear();
+    });
+
+    it("When the dump has no PeerConnections Then parsing fails", () => {
+        expect(() => parseWebRtcInternalsDump('{}')).toThrow();
+    });
+});
@@ -0,0 +1,138 @@
+import { ClientIssue, ClientMonitor, ClientMonitorEvents } from "../../src/ClientMonitor";
+import { StatsDumpRecord } from "../../src/collectors/StatsDump";
+import * as Generator from "../helpers/StatsGenerator";
+
+const PEER_CONNECTION_ID = 'estimated-pc';
+
+// every collection represents 1s, the available outgoing bitrate (kbps) of the selected candidate pair is given in every collection
+function createRecords(availableOutgoingKbps: number[], qualityLimitationReason = 'none'): StatsDumpRecord[] {
+    return availableOutgoingKbps.map((kbps, index) => {
+        const timestamp = (index + 1) * 1000;
+        return {
+            type: 'stats',
+            timestamp,
+            peerConnections: [{
+                peerConnectionId: PEER_CONNECTION_ID,
+                stats: [
+                    Generator.createTransportStats({ timestamp }),
+                    Generator.createIceCandidatePairStats({
+                        timestamp,
+                        state: 'succeeded',
+                        availableOutgoingBitrate: kbps * 1000,
+                        availableIncomingBitrate: 1000000,
+                    }),
+                    Generator.createIceLocalCandidateStats({ timestamp }),
+                    Generator.createIceRemoteCandidateStats({ timestamp }),
+                    Generator.createOutboundRtpStats({
+                        timestamp,
+                        kind: 'video',
+                        trackIdentifier: 'outbound-video-track',
+                        qualityLimitationReason,
+                    }),
+                ],
+            }],
+        };
+    });
+}
+
+describe("BandwidthTrendDetector", () => {
+    let monitor: ClientMonitor;
+
+    afterEach(() => {
+        monitor.close();
+    });
+
+    it("When the available outgoing bitrate steadily decreases Then bandwidth-degrading is emitted and a minor issue is created", async () => {
+        monitor = new ClientMonitor({
+            collectingPeriodInMs: 0,
+            detectIssues: {
+                bandwidthDegrading: true,
+            },
+        });
+        const events: ClientMonitorEvents['bandwidth-degrading'][] = [];
+        const issues: ClientIssue[] = [];
+        monitor.on('bandwidth-degrading', (event) => events.push(event));
+        monitor.on('issue', (issue) => issues.push(issue));
+
+        await monitor.replayStatsDump(createRecords([ 2000, 2000, 2000, 2000, 2000, 1700, 1400, 1100 ]));
+
+        expect(events).toEqual([ expect.objectContaining({
+            state: 'started',
+            peerConnectionId: PEER_CONNECTION_ID,
+            direction: 'outgoing',
+            availableBitrate: expect.any(Number),
+            highestSeenAvailableBitrate: expect.any(Number),
+        }) ]);
+        expect(events[0].slope).toBeLessThan(0);
+        expect(events[0].decreaseRatio).toBeGreaterThanOrEqual(0.3);
+        expect(issues).toEqual([ expect.objectContaining({
+            type: 'outgoing-bandwidth-degrading',
+            severity: 'minor',
+            peerConnectionId: PEER_CONNECTION_ID,
+        }) ]);
+    });
+
+    it("When the bandwidth estimation recovers Then the warning ends and the issue is resolved", async () => {
+        monitor = new ClientMonitor({
+            collectingPeriodInMs: 0,
+            detectIssues: {
+                bandwidthDegrading: true,
+            },
+        });
+        const events: ClientMonitorEvents['bandwidth-degrading'][] = [];
+        monitor.on('bandwidth-degrading', (event) => events.push(event));
+
+        await monitor.replayStatsDump(createRecords([
+            2000, 2000, 2000, 2000, 2000, 1700, 1400, 1100,
+            ...new Array(12).fill(1100),
+        ]));
+
+        expect(events.map((event) => event.state)).toEqual([ 'started', 'ended' ]);
+        expect(events[1].durationInS).toBeGreaterThan(0);
+        expect(monitor.issues.active()).toHaveLength(0);
+        expect(monitor.issues.resolved()).toEqual([ expect.objectContaining({
+            type: 'outgoing-bandwidth-degrading',
+            state: 'resolved',
+        }) ]);
+    });
+
+    it("When the available bitrate is not reported anymore Then the warning ends and the issue is resolved", async () => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const events: ClientMonitorEvents['bandwidth-degrading'][] = [];
+        const alertStates: string[] = [];
+        const detector = monitor.createBandwidthTrendDetector({
+            createIssueOnDetection: { severity: 'minor' },
+        });
+        monitor.on('bandwidth-degrading', (event) => events.push(event));
+        detector.on('alert-state', (state) => alertStates.push(state));
+
+        await monitor.replayStatsDump(createRecords([
+            2000, 2000, 2000, 2000, 2000, 1700, 1400, 1100,
+            // the trend cannot be fitted once the reported available bitrates leave the window
+            ...new Array(12).fill(NaN),
+        ]));
+
+        expect(events.map((event) => event.state)).toEqual([ 'started', 'ended' ]);
+        expect(alertStates).toEqual([ 'on', 'off' ]);
+        expect(monitor.issues.active()).toHaveLength(0);
+        expect(monitor.issues.resolved()).toEqual([ expect.objectContaining({ type: 'outgoing-bandwidth-degrading' }) ]);
+    });
+
+    it("When the encoder is already limited by the bandwidth Then no early warning is emitted", async () => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const events: ClientMonitorEvents['bandwidth-degrading'][] = [];
+        monitor.on('bandwidth-degrading', (event) => events.push(event));
+        const detector = monitor.createBandwidthTrendDetector();
+
+        await monitor.replayStatsDump(createRecords([ 2000, 2000, 2000, 2000, 2000, 1700, 1400, 1100 ], 'bandwidth'));
+
+        expect(events).toHaveLength(0);
+        expect(detector.getTrend(PEER_CONNECTION_ID, 'outgoing')).toMatchObject({
+            direction: 'outgoing',
+            availableBitrate: 1100000,
+            slope: expect.any(Number),
+        });
+        expect(detector.getTrend(PEER_CONNECTION_ID, 'outgoing')?.slope).toBeLessThan(0);
+        expect(detector.getTrend(PEER_CONNECTION_ID, 'incoming')).toMatchObject({ slope: 0, decreaseRatio: 0 });
+    });
+});
@@ -0,0 +1,157 @@
+import { ClientIssue, ClientMonitor } from "../../src/ClientMonitor";
+import { ConnectionFlappingDetector, ConnectionFlappingStats, IceRestartEvent } from "../../src/detectors/ConnectionFlappingDetector";
+import { PeerConnectionEntry } from "../../src/entries/StatsEntryInterfaces";
+import { createStatsMap } from "../../src/utils/Stats";
+import * as Generator from "../helpers/StatsGenerator";
+
+const PEER_CONNECTION_ID = 'flapping-pc';
+
+describe("ConnectionFlappingDetector", () => {
+    let monitor: ClientMonitor;
+    let peerConnection: PeerConnectionEntry;
+    let now: number;
+
+    // the transitions of the connection state are recorded at the time of the next update
+    const flap = (detector: ConnectionFlappingDetector, disconnectedInMs: number) => {
+        now += 1000;
+        peerConnection.connectionState = 'disconnected';
+        detector.update(monitor.storage.peerConnections(), now);
+        now += disconnectedInMs;
+        peerConnection.connectionState = 'connected';
+        detector.update(monitor.storage.peerConnections(), now);
+    };
+
+    beforeEach(() => {
+        now = 0;
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        monitor.storage.addPeerConnection(PEER_CONNECTION_ID);
+        peerConnection = monitor.storage.getPeerConnection(PEER_CONNECTION_ID) as PeerConnectionEntry;
+        peerConnection.connectionState = 'connecting';
+        peerConnection.connectionState = 'connected';
+    });
+
+    afterEach(() => {
+        monitor.close();
+    });
+
+    it("When the connection flaps above the threshold Then flapping is reported and an issue is added", () => {
+        const issues: ClientIssue[] = [];
+        const started: ConnectionFlappingStats[] = [];
+        monitor.on('issue', (issue) => issues.push(issue));
+        const detector = monitor.createConnectionFlappingDetector({
+            windowInMs: 60000,
+            maxCycles: 3,
+            createIssueOnDetection: { severity: 'major' },
+        });
+        detector.on('flapping-started', (stats) => started.push(stats));
+
+        flap(detector, 2000);
+        flap(detector, 3000);
+        expect(started).toHaveLength(0);
+
+        flap(detector, 1000);
+
+        expect(started).toEqual([{
+            peerConnectionId: PEER_CONNECTION_ID,
+            cycles: 3,
+            iceRestarts: 0,
+            candidatePairChanges: 0,
+            disconnectedInMs: 6000,
+            windowInMs: 60000,
+        }]);
+        expect(issues).toEqual([ expect.objectContaining({
+            severity: 'major',
+            peerConnectionId: PEER_CONNECTION_ID,
+            attachments: expect.objectContaining({ cycles: 3, disconnectedInMs: 6000 }),
+        }) ]);
+    });
+
+    it("When the cycles leave the sliding window Then the flapping ends", () => {
+        const ended: ConnectionFlappingStats[] = [];
+        const detector = new ConnectionFlappingDetector({ windowInMs: 10000, maxCycles: 2, maxIceRestarts: 3 }, monitor.storage);
+        detector.on('flapping-ended', (stats) => ended.push(stats));
+
+        flap(detector, 1000);
+        flap(detector, 1000);
+        expect(detector.getStats(PEER_CONNECTION_ID, now)?.cycles).toBe(2);
+
+        now += 10000;
+        detector.update(monitor.storage.peerConnections(), now);
+
+        expect(ended).toEqual([ expect.objectContaining({ cycles: 0, disconnectedInMs: 0 }) ]);
+        detector.close();
+    });
+
+    it("When the flapping peer connection is removed Then the flapping ends", () => {
+        const ended: ConnectionFlappingStats[] = [];
+        const alertStates: string[] = [];
+        const detector = new ConnectionFlappingDetector({ windowInMs: 10000, maxCycles: 2, maxIceRestarts: 3 }, monitor.storage);
+        detector.on('flapping-ended', (stats) => ended.push(stats));
+        detector.on('alert-state', (state) => alertStates.push(state));
+
+        flap(detector, 1000);
+        flap(detector, 1000);
+        monitor.storage.removePeerConnection(PEER_CONNECTION_ID);
+        now += 1000;
+        detector.update(monitor.storage.peerConnections(), now);
+
+        expect(ended).toEqual([ expect.objectContaining({ peerConnectionId: PEER_CONNECTION_ID, cycles: 2 }) ]);
+        expect(alertStates).toEqual([ 'on', 'off' ]);
+        expect(detector.getStats(PEER_CONNECTION_ID, now)).toBeUndefined();
+        detector.close();
+    });
+
+    it("When the selected candidate pair or the ICE username fragment changes Then an ICE restart is counted", () => {
+        const iceRestarts: IceRestartEvent[] = [];
+        const detector = new ConnectionFlappingDetector({ windowInMs: 60000, maxCycles: 3, maxIceRestarts: 3 }, monitor.storage);
+        detector.on('ice-restart', (event) => iceRestarts.push(event));
+        const updateTransport = (usernameFragment: string, candidatePairId = 'candidate-pair-1') => {
+            monitor.storage.update([{
+                peerConnectionId: PEER_CONNECTION_ID,
+                statsMap: createStatsMap([
+                    Generator.createTransportStats({ timestamp: now, iceLocalUsernameFragment: usernameFragment, selectedCandidatePairId: candidatePairId }),
+                    Generator.createIceCandidatePairStats({ timestamp: now, id: candidatePairId }),
+                ]),
+            }], now);
+            detector.update(monitor.storage.peerConnections(), now);
+        };
+
+        updateTransport('ufrag1');
+        updateTransport('ufrag1');
+        updateTransport('ufrag1', 'candidate-pair-2');
+        updateTransport('ufrag2', 'candidate-pair-2');
+
+        expect(iceRestarts).toEqual([ expect.objectContaining({
+            peerConnectionId: PEER_CONNECTION_ID,
+            previousCandidatePairId: 'candidate-pair-1',
+            candidatePairId: 'candidate-pair-2',
+        }), expect.objectContaining({
+            peerConnectionId: PEER_CONNECTION_ID,
+            previousUsernameFragment: 'ufrag1',
+            usernameFragment: 'ufrag2',
+        }) ]);
+        expect(detector.getStats(PEER_CONNECTION_ID, now)).toMatchObject({ iceRestarts: 2, candidatePairChanges: 1 });
+        detector.close();
+    });
+
+    it("When the selected candidate pair changes above its own threshold Then flapping is reported", () => {
+        const started: ConnectionFlappingStats[] = [];
+        const detector = new ConnectionFlappingDetector({ windowInMs: 60000, maxCycles: 3, maxIceRestarts: 10, maxCandidatePairChanges: 2 }, monitor.storage);
+        detector.on('flapping-started', (stats) => started.push(stats));
+
+        for (const candidatePairId of [ 'candidate-pair-1', 'candidate-pair-2', 'candidate-pair-1' ]) {
+            now += 1000;
+            monitor.storage.update([{
+                peerConnectionId: PEER_CONNECTION_ID,
+                statsMap: createStatsMap([
+                    Generator.createTransportStats({ timestamp: now, iceLocalUsernameFragment: 'ufrag1', selectedCandidatePairId: candidatePairId }),
+                    Generator.createIceCandidatePairStats({ timestamp: now, id: candidatePairId }),
+                ]),
+            }], now);
+            detector.update(monitor.storage.peerConnections(), now);
+        }
+
+        expect(started).toEqual([ expect.objectContaining({ iceRestarts: 2, candidatePairChanges: 2 }) ]);
+        detector.close();
+    });
+});
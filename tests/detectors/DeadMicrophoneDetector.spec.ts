@@ -0,0 +1,132 @@
+import { ClientIssue, ClientMonitor, ClientMonitorEvents } from "../../src/ClientMonitor";
+import { StatsDumpRecord } from "../../src/collectors/StatsDump";
+import { CallEventType } from "../../src/utils/CallEventType";
+import * as Generator from "../helpers/StatsGenerator";
+
+const PEER_CONNECTION_ID = 'microphone-pc';
+const TRACK_ID = 'microphone-track';
+
+// every collection represents 1s, the totalAudioEnergy of the audio source is given in every collection
+function createRecords(totalAudioEnergies: number[]): StatsDumpRecord[] {
+    return totalAudioEnergies.map((totalAudioEnergy, index) => {
+        const timestamp = (index + 1) * 1000;
+        const audioLevel = 0 < index && totalAudioEnergies[index - 1] < totalAudioEnergy ? 0.1 : 0;
+        return {
+            type: 'stats',
+            timestamp,
+            peerConnections: [{
+                peerConnectionId: PEER_CONNECTION_ID,
+                stats: [
+                    Generator.createMediaSourceStats({
+                        kind: 'audio',
+                        timestamp,
+                        trackIdentifier: TRACK_ID,
+                        audioLevel,
+                        totalAudioEnergy,
+                    }),
+                ],
+            }],
+        };
+    });
+}
+
+function createMediaDevices(track: Partial<MediaStreamTrack>): MediaDevices {
+    return {
+        getUserMedia: async () => ({ getAudioTracks: () => [ track ] }),
+        getSupportedConstraints: () => ({}),
+        enumerateDevices: async () => [],
+        addEventListener: () => void 0,
+        removeEventListener: () => void 0,
+    } as unknown as MediaDevices;
+}
+
+describe("DeadMicrophoneDetector", () => {
+    let monitor: ClientMonitor;
+
+    afterEach(() => {
+        monitor.close();
+    });
+
+    it("When the audio source stays silent for long enough Then the dead microphone is reported until audio is captured", async () => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const events: ClientMonitorEvents['dead-microphone'][] = [];
+        monitor.on('dead-microphone', (event) => events.push(event));
+        monitor.createDeadMicrophoneDetector({ minDurationInMs: 2000 });
+
+        await monitor.replayStatsDump(createRecords([ 0, 0, 0, 0, 0, 1 ]));
+
+        expect(events.map(({ state, cause }) => ({ state, cause }))).toEqual([
+            { state: 'started', cause: 'silent-input' },
+            { state: 'ended', cause: 'silent-input' },
+        ]);
+        expect(events[0]).toEqual(expect.objectContaining({
+            peerConnectionId: PEER_CONNECTION_ID,
+            trackId: TRACK_ID,
+        }));
+    });
+
+    it("When the track is muted Then the dead microphone is reported even though the level is not zero", async () => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const events: ClientMonitorEvents['dead-microphone'][] = [];
+        monitor.on('dead-microphone', (event) => events.push(event));
+        monitor.createDeadMicrophoneDetector({ minDurationInMs: 0 });
+
+        monitor.addCustomCallEvent({
+            name: CallEventType.MEDIA_TRACK_MUTED,
+            peerConnectionId: PEER_CONNECTION_ID,
+            mediaTrackId: TRACK_ID,
+        });
+        await monitor.replayStatsDump(createRecords([ 0, 1, 2 ]));
+
+        expect(events.map(({ state, cause }) => ({ state, cause }))).toEqual([
+            { state: 'started', cause: 'muted-track' },
+        ]);
+    });
+
+    it("When the microphone is captured through the integrated getUserMedia Then a critical issue with the device label is created", async () => {
+        const track = {
+            id: TRACK_ID,
+            kind: 'audio',
+            label: 'Built-in Microphone',
+            muted: false,
+            enabled: true,
+            readyState: 'live',
+            getSettings: () => ({ deviceId: 'built-in' }),
+        } as Partial<MediaStreamTrack>;
+        const mediaDevices = createMediaDevices(track);
+        monitor = new ClientMonitor({
+            collectingPeriodInMs: 0,
+            integrateNavigatorMediaDevices: mediaDevices,
+            detectIssues: {
+                deadMicrophone: true,
+            },
+        });
+        const issues: ClientIssue[] = [];
+        monitor.on('issue', (issue) => issues.push(issue));
+
+        await mediaDevices.getUserMedia({ audio: true });
+        await monitor.replayStatsDump(createRecords(new Array(12).fill(0)));
+
+        expect(issues).toEqual([ expect.objectContaining({
+            severity: 'critical',
+            mediaTrackId: TRACK_ID,
+            attachments: {
+                cause: 'silent-input',
+                deviceId: 'built-in',
+                deviceLabel: 'Built-in Microphone',
+            },
+        }) ]);
+    });
+
+    it("When the track is disabled by the application Then the silence is not reported", async () => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const events: ClientMonitorEvents['dead-microphone'][] = [];
+        monitor.on('dead-microphone', (event) => events.push(event));
+        const detector = monitor.createDeadMicrophoneDetector({ minDurationInMs: 0 });
+
+        detector.setLocalTrackState(TRACK_ID, { enabled: false });
+        await monitor.replayStatsDump(createRecords([ 0, 0, 0 ]));
+
+        expect(events).toEqual([]);
+    });
+});
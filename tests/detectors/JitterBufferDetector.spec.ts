@@ -0,0 +1,116 @@
+import { ClientIssue, ClientMonitor, ClientMonitorEvents } from "../../src/ClientMonitor";
+import { StatsDumpRecord } from "../../src/collectors/StatsDump";
+import * as Generator from "../helpers/StatsGenerator";
+
+const PEER_CONNECTION_ID = 'jitter-buffer-pc';
+const TRACK_ID = 'jitter-buffer-track';
+
+// every collection represents 1s, 50 frames are emitted from the jitter buffer in every collection (none if the delay is undefined)
+function createRecords(delaysInMs: (number | undefined)[]): StatsDumpRecord[] {
+    let jitterBufferDelay = 0;
+    let jitterBufferTargetDelay = 0;
+    let jitterBufferMinimumDelay = 0;
+    let jitterBufferEmittedCount = 0;
+    return delaysInMs.map((delayInMs, index) => {
+        const timestamp = (index + 1) * 1000;
+        if (delayInMs !== undefined) {
+            jitterBufferDelay += (delayInMs / 1000) * 50;
+            jitterBufferTargetDelay += (delayInMs / 1000) * 50;
+            jitterBufferMinimumDelay += (20 / 1000) * 50;
+            jitterBufferEmittedCount += 50;
+        }
+        return {
+            type: 'stats',
+            timestamp,
+            peerConnections: [{
+                peerConnectionId: PEER_CONNECTION_ID,
+                stats: [
+                    Generator.createInboundRtpStats({
+                        kind: 'audio',
+                        timestamp,
+                        trackIdentifier: TRACK_ID,
+                        packetsReceived: (index + 1) * 50,
+                        jitterBufferDelay,
+                        jitterBufferTargetDelay,
+                        jitterBufferMinimumDelay,
+                        jitterBufferEmittedCount,
+                    }),
+                    Generator.createRemoteOutboundRtpStats({ kind: 'audio', timestamp, roundTripTime: 0.1 }),
+                ],
+            }],
+        };
+    });
+}
+
+describe("JitterBufferDetector", () => {
+    let monitor: ClientMonitor;
+    let events: ClientMonitorEvents['jitter-buffer'][];
+    let issues: ClientIssue[];
+
+    beforeEach(() => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        events = [];
+        issues = [];
+        monitor.on('jitter-buffer', (event) => events.push(event));
+        monitor.on('issue', (issue) => issues.push(issue));
+    });
+
+    it("When the jitter buffer is updated Then the delays and the estimated latency are exposed on the track", async () => {
+        await monitor.replayStatsDump(createRecords([ 40, 40, 60 ]));
+
+        const track = monitor.storage.getTrack(TRACK_ID);
+        expect(track?.direction === 'inbound' && track.jitterBufferDelayInMs).toBeCloseTo(60);
+        expect(track?.direction === 'inbound' && track.jitterBufferMinimumDelayInMs).toBeCloseTo(20);
+        expect(track?.estimatedLatencyInMs).toBeCloseTo(110);
+    });
+
+    it("When the jitter buffer delay grows beyond the threshold Then a high delay problem is reported", async () => {
+        monitor.createJitterBufferDetector({
+            maxJitterBufferDelayInMs: 150,
+            createIssueOnDetection: { severity: 'major' },
+        });
+
+        await monitor.replayStatsDump(createRecords([ 40, 40, 100, 200, 250, 100 ]));
+
+        expect(events.map(({ state, problem }) => ({ state, problem }))).toEqual([
+            { state: 'started', problem: 'high-delay' },
+            { state: 'ended', problem: 'high-delay' },
+        ]);
+        expect(issues).toEqual([ expect.objectContaining({
+            severity: 'major',
+            mediaTrackId: TRACK_ID,
+            attachments: expect.objectContaining({ problem: 'high-delay', kind: 'audio' }),
+        }) ]);
+        expect(issues[0].attachments?.jitterBufferDelayInMs).toBeCloseTo(200);
+    });
+
+    it("When the jitter buffer delay oscillates Then an oscillation problem is reported", async () => {
+        monitor.createJitterBufferDetector({
+            minOscillationAmplitudeInMs: 20,
+            minOscillations: 3,
+        });
+
+        await monitor.replayStatsDump(createRecords([ 40, 40, 40, 100, 40, 100, 40, 100 ]));
+
+        expect(events.map(({ state, problem }) => ({ state, problem }))).toEqual([
+            { state: 'started', problem: 'oscillation' },
+        ]);
+    });
+
+    it("When no frames are emitted for a collection Then the problem is kept until the track is removed", async () => {
+        monitor.createJitterBufferDetector({
+            maxJitterBufferDelayInMs: 150,
+        });
+
+        await monitor.replayStatsDump([
+            ...createRecords([ 40, 40, 200, undefined, 200 ]),
+            { type: 'stats', timestamp: 6000, peerConnections: [{ peerConnectionId: PEER_CONNECTION_ID, stats: [] }] },
+        ]);
+
+        expect(events.map(({ state, problem }) => ({ state, problem }))).toEqual([
+            { state: 'started', problem: 'high-delay' },
+            { state: 'ended', problem: 'high-delay' },
+        ]);
+        expect(events[1]).toMatchObject({ trackId: TRACK_ID, jitterBufferDelayInMs: expect.any(Number) });
+    });
+});
@@ -0,0 +1,139 @@
+import { ClientIssue, ClientMonitor } from "../../src/ClientMonitor";
+import { TrackLayersChangedEvent } from "../../src/detectors/LayersChanged";
+import { StatsDumpRecord } from "../../src/collectors/StatsDump";
+import * as Generator from "../helpers/StatsGenerator";
+
+const PEER_CONNECTION_ID = 'layers-pc';
+const TRACK_ID = 'layers-track';
+const RIDS = [ 'q', 'h', 'f' ];
+
+// every collection represents 1s, the bytesSent of the layers are given in every collection
+function createRecords(bytesSentOfLayers: number[][]): StatsDumpRecord[] {
+    return bytesSentOfLayers.map((bytesSent, index) => {
+        const timestamp = (index + 1) * 1000;
+        return {
+            type: 'stats',
+            timestamp,
+            peerConnections: [{
+                peerConnectionId: PEER_CONNECTION_ID,
+                stats: [
+                    Generator.createMediaSourceStats({ kind: 'video', timestamp, trackIdentifier: TRACK_ID }),
+                    ...RIDS.map((rid, layerIndex) => Generator.createOutboundRtpStats({
+                        id: `outbound-rtp-${rid}`,
+                        kind: 'video',
+                        timestamp,
+                        rid,
+                        ssrc: 1000 + layerIndex,
+                        bytesSent: bytesSent[layerIndex],
+                        packetsSent: bytesSent[layerIndex] / 100,
+                        active: true,
+                    })),
+                ],
+            }],
+        };
+    });
+}
+
+describe("LayersChangedDetector", () => {
+    it("When a layer stops sending Then the layer is reported turned off and an issue is added", async () => {
+        const monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const events: TrackLayersChangedEvent[] = [];
+        const issues: ClientIssue[] = [];
+        monitor.on('track-layers-changed', (event) => events.push(event));
+        monitor.on('issue', (issue) => issues.push(issue));
+        const detector = monitor.createLayersChangedDetector({
+            createIssueOnDetection: { severity: 'minor' },
+        });
+
+        await monitor.replayStatsDump(createRecords([
+            [ 0, 0, 0 ],
+            [ 10000, 20000, 40000 ],
+            [ 20000, 40000, 80000 ],
+            [ 30000, 60000, 80000 ],
+        ]));
+
+        expect(events).toHaveLength(2);
+        expect(events[0].activatedLayers.map(layer => layer.rid)).toEqual(RIDS);
+        expect(events[1]).toEqual({
+            trackId: TRACK_ID,
+            peerConnectionId: PEER_CONNECTION_ID,
+            layers: [
+                expect.objectContaining({ rid: 'q', ssrc: 1000, active: true, bitrate: 80000 }),
+                expect.objectContaining({ rid: 'h', ssrc: 1001, active: true, bitrate: 160000 }),
+                expect.objectContaining({ rid: 'f', ssrc: 1002, active: false, bitrate: 0 }),
+            ],
+            activatedLayers: [],
+            deactivatedLayers: [ expect.objectContaining({ rid: 'f' }) ],
+        });
+        expect(detector.getLayers(TRACK_ID).filter(layer => layer.active)).toHaveLength(2);
+        expect(issues).toEqual([ expect.objectContaining({
+            severity: 'minor',
+            mediaTrackId: TRACK_ID,
+            attachments: expect.objectContaining({ deactivatedLayers: [ expect.objectContaining({ rid: 'f' }) ] }),
+        }) ]);
+        monitor.close();
+    });
+
+    it("When detectIssues has layersChanged Then the detector is created", async () => {
+        const monitor = new ClientMonitor({ collectingPeriodInMs: 0, detectIssues: { layersChanged: 'minor' } });
+        const events: TrackLayersChangedEvent[] = [];
+        monitor.on('track-layers-changed', (event) => events.push(event));
+
+        await monitor.replayStatsDump(createRecords([
+            [ 0, 0, 0 ],
+            [ 10000, 20000, 40000 ],
+        ]));
+
+        expect(events).toHaveLength(1);
+        monitor.close();
+    });
+});
+
+describe("LayersChangedDetector alert", () => {
+    it("When the layers of a track are collected the first time Then the alert is not turned on", async () => {
+        const monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const alertStates: string[] = [];
+        const detector = monitor.createLayersChangedDetector();
+        detector.on('alert-state', (state) => alertStates.push(state));
+
+        await monitor.replayStatsDump(createRecords([
+            [ 0, 0, 0 ],
+        ]));
+
+        expect(alertStates).toEqual([]);
+        expect(detector.getLayers(TRACK_ID)).toEqual([]);
+        monitor.close();
+    });
+
+    it("When a track with a layer turned off is removed Then the alert goes off and the issue is resolved", async () => {
+        const monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const alertStates: string[] = [];
+        const resolvedIssues: ClientIssue[] = [];
+        monitor.on('issue-resolved', (issue) => resolvedIssues.push(issue));
+        const detector = monitor.createLayersChangedDetector({
+            createIssueOnDetection: { severity: 'minor' },
+        });
+        detector.on('alert-state', (state) => alertStates.push(state));
+
+        await monitor.replayStatsDump([
+            ...createRecords([
+                [ 0, 0, 0 ],
+                [ 10000, 20000, 40000 ],
+                [ 20000, 40000, 40000 ],
+            ]),
+            {
+                type: 'stats',
+                timestamp: 4000,
+                peerConnections: [{ peerConnectionId: PEER_CONNECTION_ID, stats: [] }],
+            },
+        ]);
+
+        expect(alertStates).toEqual([ 'on', 'off' ]);
+        expect(resolvedIssues).toEqual([ expect.objectContaining({
+            type: 'outbound-video-layers-off',
+            mediaTrackId: TRACK_ID,
+            resolvedAt: 4000,
+        }) ]);
+        monitor.close();
+    });
+});
@@ -0,0 +1,127 @@
+import { StatsStorage } from "../../src/entries/StatsStorage";
+import { OneWayOutboundMediaDetector, OneWayOutboundMediaEndedEvent, OneWayOutboundMediaStartedEvent } from "../../src/detectors/OneWayOutboundMediaDetector";
+import { ClientIssue, ClientMonitor } from "../../src/ClientMonitor";
+import { createStatsMap } from "../../src/utils/Stats";
+import * as Generator from "../helpers/StatsGenerator";
+
+const PEER_CONNECTION_ID = 'one-way-pc';
+const TRACK_ID = 'one-way-track';
+
+type RemoteReport = {
+    packetsReceived: number,
+    fractionLost?: number,
+}
+
+describe("OneWayOutboundMediaDetector", () => {
+    let storage: StatsStorage;
+    let detector: OneWayOutboundMediaDetector;
+    let now: number;
+    let packetsSent: number;
+    let started: OneWayOutboundMediaStartedEvent[];
+    let ended: OneWayOutboundMediaEndedEvent[];
+
+    // every collection represents 1s, 50 packets are sent in every collection
+    const collect = (report?: RemoteReport) => {
+        now += 1000;
+        packetsSent += 50;
+        jest.spyOn(Date, 'now').mockReturnValue(now);
+        storage.update([{
+            peerConnectionId: PEER_CONNECTION_ID,
+            statsMap: createStatsMap([
+                Generator.createMediaSourceStats({ kind: 'audio', timestamp: now, trackIdentifier: TRACK_ID }),
+                Generator.createOutboundRtpStats({ kind: 'audio', timestamp: now, packetsSent, bytesSent: packetsSent * 100 }),
+                ...(report ? [ Generator.createRemoteInboundRtpStats({ kind: 'audio', timestamp: now, packetsLost: 0, ...report }) ] : []),
+            ]),
+        }]);
+        detector.update(storage.outboundRtps());
+    };
+
+    beforeEach(() => {
+        now = 0;
+        packetsSent = 0;
+        storage = new StatsStorage();
+        storage.addPeerConnection(PEER_CONNECTION_ID);
+        detector = new OneWayOutboundMediaDetector({
+            fractionLostThreshold: 0.5,
+            staleReportTimeoutInMs: 5000,
+            minDurationInMs: 3000,
+        });
+        started = [];
+        ended = [];
+        detector.on('one-way-media-started', (event) => started.push(event));
+        detector.on('one-way-media-ended', (event) => ended.push(event));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("When the remote side reports no received packets for the minimum duration Then it is reported", () => {
+        const alertStates: string[] = [];
+        detector.on('alert-state', (state) => alertStates.push(state));
+
+        collect({ packetsReceived: 10 });
+        collect({ packetsReceived: 60 });
+        for (let i = 0; i < 3; ++i) collect({ packetsReceived: 60 });
+        expect(started).toHaveLength(0);
+
+        collect({ packetsReceived: 60 });
+        expect(started).toEqual([{
+            peerConnectionId: PEER_CONNECTION_ID,
+            trackId: TRACK_ID,
+            ssrc: expect.any(Number),
+            cause: 'no-packets-received',
+            fractionLost: undefined,
+            lastReportElapsedInMs: 0,
+        }]);
+
+        collect({ packetsReceived: 110 });
+        expect(ended).toEqual([ expect.objectContaining({ cause: 'no-packets-received', durationInS: 4 }) ]);
+        expect(alertStates).toEqual([ 'on', 'off' ]);
+    });
+
+    it("When the remote side reports high fraction lost Then it is reported", () => {
+        let packetsReceived = 0;
+        collect({ packetsReceived });
+        for (let i = 0; i < 4; ++i) collect({ packetsReceived: packetsReceived += 10, fractionLost: 0.8 });
+
+        expect(started).toEqual([ expect.objectContaining({ cause: 'high-loss', fractionLost: 0.8 }) ]);
+    });
+
+    it("When the remote side does not report while packets are sent Then a stale report is reported", () => {
+        for (let i = 0; i < 5; ++i) collect();
+        expect(started).toHaveLength(0);
+
+        collect();
+        expect(started).toEqual([ expect.objectContaining({ cause: 'stale-report', lastReportElapsedInMs: 5000 }) ]);
+    });
+
+    it("When the detector is created by the monitor Then an issue is added", async () => {
+        const monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const issues: ClientIssue[] = [];
+        monitor.on('issue', (issue) => issues.push(issue));
+        monitor.createOneWayOutboundMediaDetector({
+            staleReportTimeoutInMs: 3000,
+            createIssueOnDetection: { severity: 'critical' },
+        });
+
+        await monitor.replayStatsDump([ 1000, 2000, 3000, 4000, 5000 ].map((timestamp, index) => ({
+            type: 'stats',
+            timestamp,
+            peerConnections: [{
+                peerConnectionId: PEER_CONNECTION_ID,
+                stats: [
+                    Generator.createMediaSourceStats({ kind: 'video', timestamp, trackIdentifier: TRACK_ID }),
+                    Generator.createOutboundRtpStats({ kind: 'video', timestamp, packetsSent: (index + 1) * 100 }),
+                ],
+            }],
+        })));
+        monitor.close();
+
+        expect(issues).toEqual([ expect.objectContaining({
+            severity: 'critical',
+            mediaTrackId: TRACK_ID,
+            attachments: expect.objectContaining({ cause: 'stale-report', lastReportElapsedInMs: 3000 }),
+        }) ]);
+    });
+});
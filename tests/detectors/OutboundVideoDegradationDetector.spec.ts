@@ -0,0 +1,128 @@
+import { ClientIssue, ClientMonitor, ClientMonitorEvents } from "../../src/ClientMonitor";
+import { StatsDumpRecord } from "../../src/collectors/StatsDump";
+import * as Generator from "../helpers/StatsGenerator";
+
+const PEER_CONNECTION_ID = 'degradation-pc';
+const TRACK_ID = 'degradation-track';
+
+type VideoState = {
+    captured: [number, number, number],
+    sent: [number, number, number],
+    qualityLimitationReason?: string,
+}
+
+// every collection represents 1s
+function createRecords(states: VideoState[]): StatsDumpRecord[] {
+    return states.map(({ captured, sent, qualityLimitationReason }, index) => {
+        const timestamp = (index + 1) * 1000;
+        return {
+            type: 'stats',
+            timestamp,
+            peerConnections: [{
+                peerConnectionId: PEER_CONNECTION_ID,
+                stats: [
+                    Generator.createMediaSourceStats({
+                        kind: 'video',
+                        timestamp,
+                        trackIdentifier: TRACK_ID,
+                        width: captured[0],
+                        height: captured[1],
+                        framesPerSecond: captured[2],
+                    }),
+                    Generator.createOutboundRtpStats({
+                        kind: 'video',
+                        timestamp,
+                        frameWidth: sent[0],
+                        frameHeight: sent[1],
+                        framesPerSecond: sent[2],
+                        qualityLimitationReason: qualityLimitationReason ?? 'none',
+                    }),
+                ],
+            }],
+        };
+    });
+}
+
+describe("OutboundVideoDegradationDetector", () => {
+    let monitor: ClientMonitor;
+
+    afterEach(() => {
+        monitor.close();
+    });
+
+    it("When the sent resolution is well below the captured one for long enough Then the degradation is reported with the limitation reason", async () => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const events: ClientMonitorEvents['outbound-video-degradation'][] = [];
+        const issues: ClientIssue[] = [];
+        monitor.on('outbound-video-degradation', (event) => events.push(event));
+        monitor.on('issue', (issue) => issues.push(issue));
+        monitor.createOutboundVideoDegradationDetector({
+            minDurationInMs: 2000,
+            createIssueOnDetection: { severity: 'minor' },
+        });
+
+        const normal: VideoState = { captured: [ 1280, 720, 30 ], sent: [ 1280, 720, 30 ] };
+        const degraded: VideoState = { captured: [ 1280, 720, 30 ], sent: [ 320, 180, 30 ], qualityLimitationReason: 'bandwidth' };
+        await monitor.replayStatsDump(createRecords([ normal, normal, degraded, degraded, degraded, degraded, normal ]));
+
+        expect(events.map(({ state, degradation, cause }) => ({ state, degradation, cause }))).toEqual([
+            { state: 'started', degradation: 'resolution', cause: 'bandwidth' },
+            { state: 'ended', degradation: 'resolution', cause: 'bandwidth' },
+        ]);
+        expect(events[0].sent).toEqual({ width: 320, height: 180, framesPerSecond: 30 });
+        expect(issues).toEqual([ expect.objectContaining({
+            severity: 'minor',
+            mediaTrackId: TRACK_ID,
+            attachments: expect.objectContaining({ degradation: 'resolution', cause: 'bandwidth' }),
+        }) ]);
+    });
+
+    it("When the limitation reason changes before the degradation is reported Then the reported cause is the last one", async () => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const events: ClientMonitorEvents['outbound-video-degradation'][] = [];
+        monitor.on('outbound-video-degradation', (event) => events.push(event));
+        monitor.createOutboundVideoDegradationDetector({ minDurationInMs: 2000 });
+
+        const unlimited: VideoState = { captured: [ 1280, 720, 30 ], sent: [ 320, 180, 30 ] };
+        const limited: VideoState = { ...unlimited, qualityLimitationReason: 'cpu' };
+        await monitor.replayStatsDump(createRecords([ unlimited, unlimited, limited ]));
+
+        expect(events).toEqual([ expect.objectContaining({
+            state: 'started',
+            degradation: 'resolution',
+            cause: 'cpu',
+        }) ]);
+    });
+
+    it("When the captured video is already below the requested constraints Then the cause is capture", async () => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const events: ClientMonitorEvents['outbound-video-degradation'][] = [];
+        monitor.on('outbound-video-degradation', (event) => events.push(event));
+        monitor.setMediaConstraints({ video: { width: { ideal: 1280 }, height: { ideal: 720 } } });
+        monitor.createOutboundVideoDegradationDetector({ minDurationInMs: 0 });
+
+        const state: VideoState = { captured: [ 320, 240, 30 ], sent: [ 320, 240, 30 ] };
+        await monitor.replayStatsDump(createRecords([ state, state ]));
+
+        expect(events).toEqual([ expect.objectContaining({
+            state: 'started',
+            degradation: 'resolution',
+            cause: 'capture',
+            requested: { width: 1280, height: 720, framesPerSecond: undefined },
+        }) ]);
+    });
+
+    it("When the sent framerate is well below the captured one Then the framerate degradation is reported", async () => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const events: ClientMonitorEvents['outbound-video-degradation'][] = [];
+        monitor.on('outbound-video-degradation', (event) => events.push(event));
+        monitor.createOutboundVideoDegradationDetector({ minDurationInMs: 0 });
+
+        const state: VideoState = { captured: [ 1280, 720, 30 ], sent: [ 1280, 720, 7 ], qualityLimitationReason: 'cpu' };
+        await monitor.replayStatsDump(createRecords([ state, state ]));
+
+        expect(events.map(({ state, degradation, cause }) => ({ state, degradation, cause }))).toEqual([
+            { state: 'started', degradation: 'framerate', cause: 'cpu' },
+        ]);
+    });
+});
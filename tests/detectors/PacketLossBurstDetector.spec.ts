@@ -0,0 +1,86 @@
+import { ClientIssue, ClientMonitor, ClientMonitorEvents } from "../../src/ClientMonitor";
+import * as Generator from "../helpers/StatsGenerator";
+
+const PEER_CONNECTION_ID = 'loss-burst-pc';
+const TRACK_ID = 'loss-burst-track';
+
+describe("PacketLossBurstDetector", () => {
+    // every collection represents 1s, 50 packets are expected in every collection, undefined means the track is removed
+    const replay = async (monitor: ClientMonitor, lostPacketsInCollections: (number | undefined)[]) => {
+        let packetsReceived = 0;
+        let packetsLost = 0;
+        await monitor.replayStatsDump(lostPacketsInCollections.map((lostPackets, index) => {
+            const timestamp = (index + 1) * 1000;
+            if (lostPackets === undefined) {
+                return { type: 'stats', timestamp, peerConnections: [{ peerConnectionId: PEER_CONNECTION_ID, stats: [] }] };
+            }
+            packetsReceived += 50 - lostPackets;
+            packetsLost += lostPackets;
+            return {
+                type: 'stats',
+                timestamp,
+                peerConnections: [{
+                    peerConnectionId: PEER_CONNECTION_ID,
+                    stats: [ Generator.createInboundRtpStats({ kind: 'audio', timestamp, trackIdentifier: TRACK_ID, packetsReceived, packetsLost }) ],
+                }],
+            };
+        }));
+    };
+
+    it("When a loss burst appears and ends Then the events and an issue with the episodes are emitted", async () => {
+        const monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const events: ClientMonitorEvents['packet-loss-burst'][] = [];
+        const issues: ClientIssue[] = [];
+        monitor.on('packet-loss-burst', (event) => events.push(event));
+        monitor.on('issue', (issue) => issues.push(issue));
+        monitor.createPacketLossBurstDetector({
+            createIssueOnDetection: { severity: 'minor' },
+        });
+
+        await replay(monitor, [ 0, 0, 10, 0, 0, 20, 10, 0 ]);
+        // the issue is resolved when the burst ends, therefore the next burst of the track is a new issue
+        expect(monitor.issues.active()).toHaveLength(0);
+        expect(monitor.issues.resolved().map((issue) => issue.type)).toEqual([ 'packet-loss-burst', 'packet-loss-burst' ]);
+        monitor.close();
+
+        expect(events).toEqual([
+            { state: 'started', peerConnectionId: PEER_CONNECTION_ID, trackId: TRACK_ID, kind: 'audio', episode: expect.objectContaining({ startedAt: 3000 }) },
+            { state: 'ended', peerConnectionId: PEER_CONNECTION_ID, trackId: TRACK_ID, kind: 'audio', episode: expect.objectContaining({ startedAt: 3000, endedAt: 4000 }) },
+            { state: 'started', peerConnectionId: PEER_CONNECTION_ID, trackId: TRACK_ID, kind: 'audio', episode: expect.objectContaining({ startedAt: 6000 }) },
+            { state: 'ended', peerConnectionId: PEER_CONNECTION_ID, trackId: TRACK_ID, kind: 'audio', episode: expect.objectContaining({ startedAt: 6000, endedAt: 8000, lostPackets: 30 }) },
+        ]);
+        expect(issues).toHaveLength(2);
+        expect(issues[1].attachments?.episodes).toEqual([
+            expect.objectContaining({ startedAt: 3000, endedAt: 4000, lostPackets: 10 }),
+            expect.objectContaining({ startedAt: 6000, lostPackets: 20 }),
+        ]);
+    });
+
+    it("When the track is removed during a loss burst Then the burst is ended and the issue is resolved", async () => {
+        const monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const events: ClientMonitorEvents['packet-loss-burst'][] = [];
+        monitor.on('packet-loss-burst', (event) => events.push(event));
+        monitor.createPacketLossBurstDetector({
+            createIssueOnDetection: { severity: 'minor' },
+        });
+
+        await replay(monitor, [ 0, 0, 10, 10, undefined ]);
+
+        expect(events.map(({ state }) => state)).toEqual([ 'started', 'ended' ]);
+        expect(events[1]).toMatchObject({ trackId: TRACK_ID, episode: expect.objectContaining({ startedAt: 3000 }) });
+        expect(monitor.issues.active()).toHaveLength(0);
+        monitor.close();
+    });
+
+    it("When the episode has fewer lost packets than the minimum Then it is not reported", async () => {
+        const monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const events: ClientMonitorEvents['packet-loss-burst'][] = [];
+        monitor.on('packet-loss-burst', (event) => events.push(event));
+        monitor.createPacketLossBurstDetector({ minEpisodeLostPackets: 10 });
+
+        await replay(monitor, [ 0, 5, 0, 0 ]);
+        monitor.close();
+
+        expect(events).toHaveLength(0);
+    });
+});
@@ -0,0 +1,196 @@
+import { StatsStorage } from "../../src/entries/StatsStorage";
+import { SilentInboundAudioDetector, SilentInboundAudioEndedEvent, SilentInboundAudioStartedEvent } from "../../src/detectors/SilentInboundAudioDetector";
+import { ClientIssue, ClientMonitor, ClientMonitorEvents } from "../../src/ClientMonitor";
+import { StatsDumpRecord } from "../../src/collectors/StatsDump";
+import { createStatsMap } from "../../src/utils/Stats";
+import * as Generator from "../helpers/StatsGenerator";
+
+const PEER_CONNECTION_ID = 'silent-audio-pc';
+const TRACK_ID = 'silent-audio-track';
+
+type AudioSnapshot = {
+    audioLevel: number,
+    concealmentRatio?: number,
+}
+
+// every collection represents 1s of received audio at 48kHz
+function createStatsGenerator(trackId = TRACK_ID) {
+    let index = 0;
+    let totalSamplesReceived = 0;
+    let concealedSamples = 0;
+    let totalAudioEnergy = 0;
+
+    return ({ audioLevel, concealmentRatio = 0 }: AudioSnapshot) => {
+        ++index;
+        totalSamplesReceived += 48000;
+        concealedSamples += 48000 * concealmentRatio;
+        totalAudioEnergy += audioLevel * audioLevel;
+
+        return Generator.createInboundRtpStats({
+            kind: 'audio',
+            timestamp: index * 1000,
+            trackIdentifier: trackId,
+            packetsReceived: index * 50,
+            packetsLost: 0,
+            totalSamplesReceived,
+            concealedSamples,
+            silentConcealedSamples: 0,
+            totalAudioEnergy,
+            totalSamplesDuration: index,
+            audioLevel,
+        });
+    };
+}
+
+describe("SilentInboundAudioDetector", () => {
+    let storage: StatsStorage;
+    let detector: SilentInboundAudioDetector;
+    let now: number;
+    let generate: ReturnType<typeof createStatsGenerator>;
+    let started: SilentInboundAudioStartedEvent[];
+    let ended: SilentInboundAudioEndedEvent[];
+
+    const collect = (snapshot: AudioSnapshot) => {
+        now += 1000;
+        storage.update([{
+            peerConnectionId: PEER_CONNECTION_ID,
+            statsMap: createStatsMap([ generate(snapshot) ]),
+        }], now);
+        detector.update(storage.inboundRtps(), now);
+    };
+
+    beforeEach(() => {
+        now = 0;
+        generate = createStatsGenerator();
+        storage = new StatsStorage();
+        storage.addPeerConnection(PEER_CONNECTION_ID);
+        detector = new SilentInboundAudioDetector({
+            silentAudioLevelThreshold: 0.001,
+            concealedSamplesThreshold: 0.5,
+            minSilentDurationInMs: 3000,
+        });
+        started = [];
+        ended = [];
+        detector.on('silent-audio-started', (event) => started.push(event));
+        detector.on('silent-audio-ended', (event) => ended.push(event));
+    });
+
+    it("When the received audio is silent for the minimum duration Then the remote side is reported silent", () => {
+        const alertStates: string[] = [];
+        detector.on('alert-state', (state) => alertStates.push(state));
+
+        collect({ audioLevel: 0.1 });
+        collect({ audioLevel: 0.1 });
+        for (let i = 0; i < 3; ++i) collect({ audioLevel: 0 });
+        expect(started).toHaveLength(0);
+
+        collect({ audioLevel: 0 });
+        expect(started).toEqual([{
+            peerConnectionId: PEER_CONNECTION_ID,
+            trackId: TRACK_ID,
+            ssrc: expect.any(Number),
+            cause: 'remote-silent',
+        }]);
+
+        collect({ audioLevel: 0.1 });
+        expect(ended).toEqual([ expect.objectContaining({ cause: 'remote-silent', durationInS: 4 }) ]);
+        expect(alertStates).toEqual([ 'on', 'off' ]);
+    });
+
+    it("When the received samples are concealed Then a playout failure is reported", () => {
+        collect({ audioLevel: 0.1 });
+        for (let i = 0; i < 4; ++i) collect({ audioLevel: 0, concealmentRatio: 0.9 });
+
+        expect(started).toEqual([ expect.objectContaining({ cause: 'playout-failure' }) ]);
+    });
+
+    it("When the remote media source is muted Then a muted sender is reported", () => {
+        detector.setRemoteMediaSourceState(TRACK_ID, { muted: true });
+
+        collect({ audioLevel: 0.1 });
+        for (let i = 0; i < 4; ++i) collect({ audioLevel: 0 });
+
+        expect(started).toEqual([ expect.objectContaining({ cause: 'remote-muted' }) ]);
+    });
+
+    it("When the remote media source captures sound that is not heard Then a playout failure is reported", () => {
+        detector.setRemoteMediaSourceState(TRACK_ID, { audioLevel: 0.2 });
+
+        collect({ audioLevel: 0.1 });
+        for (let i = 0; i < 4; ++i) collect({ audioLevel: 0 });
+
+        expect(started).toEqual([ expect.objectContaining({ cause: 'playout-failure' }) ]);
+    });
+
+    it("When the silent track is removed Then the silent audio is ended", () => {
+        const alertStates: string[] = [];
+        detector.on('alert-state', (state) => alertStates.push(state));
+
+        collect({ audioLevel: 0.1 });
+        for (let i = 0; i < 5; ++i) collect({ audioLevel: 0 });
+        expect(started).toHaveLength(1);
+
+        now += 1000;
+        detector.update([].values(), now);
+        expect(ended).toEqual([{
+            peerConnectionId: PEER_CONNECTION_ID,
+            trackId: TRACK_ID,
+            ssrc: expect.any(Number),
+            cause: 'remote-silent',
+            durationInS: 5,
+        }]);
+        expect(alertStates).toEqual([ 'on', 'off' ]);
+    });
+
+    it("When two peer connections receive the same ssrc Then their audio is traced separately", () => {
+        const OTHER_PEER_CONNECTION_ID = 'other-silent-audio-pc';
+        const generateOther = createStatsGenerator('other-silent-audio-track');
+        storage.addPeerConnection(OTHER_PEER_CONNECTION_ID);
+
+        for (let i = 0; i < 6; ++i) {
+            now += 1000;
+            storage.update([
+                { peerConnectionId: PEER_CONNECTION_ID, statsMap: createStatsMap([ generate({ audioLevel: i < 1 ? 0.1 : 0 }) ]) },
+                { peerConnectionId: OTHER_PEER_CONNECTION_ID, statsMap: createStatsMap([ generateOther({ audioLevel: 0.1 }) ]) },
+            ], now);
+            detector.update(storage.inboundRtps(), now);
+        }
+
+        expect(started).toEqual([ expect.objectContaining({
+            peerConnectionId: PEER_CONNECTION_ID,
+            trackId: TRACK_ID,
+            cause: 'remote-silent',
+        }) ]);
+    });
+
+    it("When the audio is silent in the monitor Then an event and an issue is created", async () => {
+        const monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const events: ClientMonitorEvents['silent-inbound-audio'][] = [];
+        const issues: ClientIssue[] = [];
+        const generateStats = createStatsGenerator();
+        const records: StatsDumpRecord[] = [];
+        for (let i = 0; i < 8; ++i) {
+            const stats = generateStats({ audioLevel: i < 1 ? 0.1 : 0 });
+            records.push({
+                type: 'stats',
+                timestamp: stats.timestamp,
+                peerConnections: [{ peerConnectionId: PEER_CONNECTION_ID, stats: [ stats ] }],
+            });
+        }
+        monitor.on('silent-inbound-audio', (event) => events.push(event));
+        monitor.on('issue', (issue) => issues.push(issue));
+        monitor.createSilentInboundAudioDetector({
+            createIssueOnDetection: { severity: 'major' },
+        });
+
+        await monitor.replayStatsDump(records);
+        monitor.close();
+
+        expect(events).toEqual([ expect.objectContaining({ state: 'started', trackId: TRACK_ID, cause: 'remote-silent' }) ]);
+        expect(issues).toEqual([ expect.objectContaining({
+            severity: 'major',
+            mediaTrackId: TRACK_ID,
+            attachments: expect.objectContaining({ cause: 'remote-silent' }),
+        }) ]);
+    });
+});
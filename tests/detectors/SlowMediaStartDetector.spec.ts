@@ -0,0 +1,158 @@
+import { ClientIssue, ClientMonitor, ClientMonitorEvents } from "../../src/ClientMonitor";
+import { StatsDumpRecord } from "../../src/collectors/StatsDump";
+import { createMediaTrackAddedEvent } from "../../src/utils/callEvents";
+import * as Generator from "../helpers/StatsGenerator";
+
+const PEER_CONNECTION_ID = 'receiving-pc';
+const TRACK_ID = 'inbound-video-track';
+
+// every collection represents 1s, the number of decoded frames of the track is given in every collection
+function createRecords(framesDecoded: number[]): StatsDumpRecord[] {
+    return framesDecoded.map((frames, index) => {
+        const timestamp = (index + 1) * 1000;
+        return {
+            type: 'stats',
+            timestamp,
+            peerConnections: [{
+                peerConnectionId: PEER_CONNECTION_ID,
+                stats: [
+                    Generator.createInboundRtpStats({
+                        kind: 'video',
+                        timestamp,
+                        trackIdentifier: TRACK_ID,
+                        packetsReceived: frames * 10,
+                        framesDecoded: frames,
+                        framesRendered: undefined,
+                    }),
+                ],
+            }],
+        };
+    });
+}
+
+describe("SlowMediaStartDetector", () => {
+    let monitor: ClientMonitor;
+
+    afterEach(() => {
+        monitor.close();
+    });
+
+    it("When a track is added Then the media setup is measured from the MEDIA_TRACK_ADDED event", async () => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+
+        await monitor.replayStatsDump([
+            {
+                type: 'call-event',
+                timestamp: 500,
+                event: createMediaTrackAddedEvent({ peerConnectionId: PEER_CONNECTION_ID, mediaTrackId: TRACK_ID, timestamp: 500 }),
+            },
+            ...createRecords([ 0, 0, 30 ]),
+        ]);
+
+        const track = monitor.storage.getTrack(TRACK_ID);
+        expect(track?.direction === 'inbound' && track.mediaSetup).toMatchObject({
+            addedAt: 500,
+            firstPacketReceivedAt: 3000,
+            firstFrameDecodedAt: 3000,
+            timeToFirstPacketInMs: 2500,
+            timeToFirstFrameInMs: 2500,
+        });
+    });
+
+    it("When a track does not appear in the stats for 60s after it is added Then its added time is dropped", async () => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+
+        await monitor.replayStatsDump([
+            {
+                type: 'call-event',
+                timestamp: 500,
+                event: createMediaTrackAddedEvent({ peerConnectionId: PEER_CONNECTION_ID, mediaTrackId: TRACK_ID, timestamp: 500 }),
+            },
+            {
+                type: 'stats',
+                timestamp: 61000,
+                peerConnections: [{ peerConnectionId: PEER_CONNECTION_ID, stats: [] }],
+            },
+            {
+                type: 'stats',
+                timestamp: 62000,
+                peerConnections: [{
+                    peerConnectionId: PEER_CONNECTION_ID,
+                    stats: [
+                        Generator.createInboundRtpStats({ kind: 'video', timestamp: 62000, trackIdentifier: TRACK_ID, packetsReceived: 0 }),
+                    ],
+                }],
+            },
+        ]);
+
+        const track = monitor.storage.getTrack(TRACK_ID);
+        expect(track?.direction === 'inbound' && track.mediaSetup?.addedAt).toBe(62000);
+    });
+
+    it("When the first frame is not decoded within the threshold Then a major issue is created until the media starts", async () => {
+        monitor = new ClientMonitor({
+            collectingPeriodInMs: 0,
+            detectIssues: {
+                slowMediaStart: true,
+            },
+        });
+        const events: ClientMonitorEvents['slow-media-start'][] = [];
+        const issues: ClientIssue[] = [];
+        monitor.on('slow-media-start', (event) => events.push(event));
+        monitor.on('issue', (issue) => issues.push(issue));
+
+        await monitor.replayStatsDump(createRecords([ 0, 0, 0, 0, 0, 0, 0, 30 ]));
+
+        expect(events).toEqual([
+            expect.objectContaining({ state: 'started', peerConnectionId: PEER_CONNECTION_ID, trackId: TRACK_ID, kind: 'video' }),
+            expect.objectContaining({ state: 'ended', trackId: TRACK_ID, timeToMediaStartInMs: 7000 }),
+        ]);
+        expect(issues).toEqual([ expect.objectContaining({
+            type: 'slow-media-start',
+            severity: 'major',
+            mediaTrackId: TRACK_ID,
+        }) ]);
+        expect(monitor.issues.active()).toHaveLength(0);
+    });
+
+    it("When a slow starting track is removed before its media starts Then the slow start is reported removed and the issue is resolved", async () => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const events: ClientMonitorEvents['slow-media-start'][] = [];
+        monitor.on('slow-media-start', (event) => events.push(event));
+        monitor.createSlowMediaStartDetector({
+            thresholdInMs: 2000,
+            createIssueOnDetection: { severity: 'major' },
+        });
+
+        await monitor.replayStatsDump([
+            ...createRecords([ 0, 0, 0 ]),
+            {
+                type: 'stats',
+                timestamp: 4000,
+                peerConnections: [{ peerConnectionId: PEER_CONNECTION_ID, stats: [] }],
+            },
+        ]);
+
+        expect(events).toEqual([
+            expect.objectContaining({ state: 'started', trackId: TRACK_ID }),
+            expect.objectContaining({ state: 'removed', trackId: TRACK_ID }),
+        ]);
+        expect(events[1].timeToMediaStartInMs).toBeUndefined();
+        expect(monitor.issues.resolved()).toEqual([ expect.objectContaining({
+            type: 'slow-media-start',
+            mediaTrackId: TRACK_ID,
+            resolvedAt: 4000,
+        }) ]);
+    });
+
+    it("When the media starts within the threshold Then no slow start is reported", async () => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const events: ClientMonitorEvents['slow-media-start'][] = [];
+        monitor.on('slow-media-start', (event) => events.push(event));
+        monitor.createSlowMediaStartDetector({ thresholdInMs: 3000 });
+
+        await monitor.replayStatsDump(createRecords([ 0, 30, 60, 90, 120 ]));
+
+        expect(events).toHaveLength(0);
+    });
+});
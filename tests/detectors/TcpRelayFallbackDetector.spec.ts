@@ -0,0 +1,88 @@
+import { ClientIssue, ClientMonitor, ClientMonitorEvents } from "../../src/ClientMonitor";
+import { StatsDumpRecord } from "../../src/collectors/StatsDump";
+import * as Generator from "../helpers/StatsGenerator";
+
+const PEER_CONNECTION_ID = 'relayed-pc';
+
+// every collection represents 1s, the relay protocol of the selected candidate pair is given in every collection
+function createRecords(relayProtocols: (string | undefined)[]): StatsDumpRecord[] {
+    return relayProtocols.map((relayProtocol, index) => {
+        const timestamp = (index + 1) * 1000;
+        return {
+            type: 'stats',
+            timestamp,
+            peerConnections: [{
+                peerConnectionId: PEER_CONNECTION_ID,
+                stats: [
+                    Generator.createTransportStats({ timestamp }),
+                    Generator.createIceCandidatePairStats({ timestamp, state: 'succeeded' }),
+                    Generator.createIceLocalCandidateStats({
+                        timestamp,
+                        candidateType: relayProtocol ? 'relay' : 'host',
+                        relayProtocol,
+                    }),
+                    Generator.createIceRemoteCandidateStats({ timestamp }),
+                ],
+            }],
+        };
+    });
+}
+
+describe("TcpRelayFallbackDetector", () => {
+    let monitor: ClientMonitor;
+
+    afterEach(() => {
+        monitor.close();
+    });
+
+    it("When the relay protocol changes Then relay-protocol-changed is emitted and the time spent on each protocol is measured", async () => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const events: ClientMonitorEvents['relay-protocol-changed'][] = [];
+        monitor.on('relay-protocol-changed', (event) => events.push(event));
+
+        await monitor.replayStatsDump(createRecords([ undefined, 'udp', 'tcp', 'tcp', 'udp' ]));
+
+        expect(events).toEqual([
+            { peerConnectionId: PEER_CONNECTION_ID, relayProtocol: 'udp', previousRelayProtocol: undefined },
+            { peerConnectionId: PEER_CONNECTION_ID, relayProtocol: 'tcp', previousRelayProtocol: 'udp' },
+            { peerConnectionId: PEER_CONNECTION_ID, relayProtocol: 'udp', previousRelayProtocol: 'tcp' },
+        ]);
+    });
+
+    it("When the time spent on each relay protocol is queried Then the durations of the previous collections are given", async () => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        let durations: Record<string, number> | undefined;
+        monitor.on('stats-collected', () => {
+            durations = { ...monitor.storage.getPeerConnection(PEER_CONNECTION_ID)?.relayProtocolDurationsInMs };
+        });
+
+        await monitor.replayStatsDump(createRecords([ undefined, 'udp', 'tcp', 'tcp', 'tls' ]));
+
+        expect(durations).toEqual({ none: 1000, udp: 1000, tcp: 2000, tls: 0 });
+    });
+
+    it("When the media falls back to TCP or TLS relay Then a major issue is created until the fallback ends", async () => {
+        monitor = new ClientMonitor({
+            collectingPeriodInMs: 0,
+            detectIssues: {
+                tcpRelayFallback: true,
+            },
+        });
+        const events: ClientMonitorEvents['tcp-relay-fallback'][] = [];
+        const issues: ClientIssue[] = [];
+        monitor.on('tcp-relay-fallback', (event) => events.push(event));
+        monitor.on('issue', (issue) => issues.push(issue));
+
+        await monitor.replayStatsDump(createRecords([ 'udp', 'tls', 'tls', 'tls', 'udp' ]));
+
+        expect(events).toEqual([
+            { state: 'started', peerConnectionId: PEER_CONNECTION_ID, relayProtocol: 'tls' },
+            { state: 'ended', peerConnectionId: PEER_CONNECTION_ID, relayProtocol: 'tls', durationInS: 3 },
+        ]);
+        expect(issues).toEqual([ expect.objectContaining({
+            severity: 'major',
+            peerConnectionId: PEER_CONNECTION_ID,
+            attachments: expect.objectContaining({ relayProtocol: 'tls' }),
+        }) ]);
+    });
+});
@@ -0,0 +1,210 @@
+import { StatsStorage } from "../../src/entries/StatsStorage";
+import { ThresholdRule, ThresholdRuleEvent, ThresholdRulesDetector, validateThresholdRules } from "../../src/detectors/ThresholdRulesDetector";
+import { ClientIssue, ClientMonitor } from "../../src/ClientMonitor";
+import { createStatsMap } from "../../src/utils/Stats";
+import * as Generator from "../helpers/StatsGenerator";
+
+const PEER_CONNECTION_ID = 'rules-pc';
+
+const HIGH_VIDEO_LOSS_RULE: ThresholdRule = {
+    name: 'high-video-loss',
+    metric: 'inboundRtp.fractionLoss',
+    operator: '>',
+    value: 0.05,
+    consecutiveCollections: 3,
+    kind: 'video',
+    severity: 'major',
+};
+
+function createInboundRtpStats(timestamp: number, packetsReceived: number, packetsLost: number, kind: 'audio' | 'video' = 'video') {
+    return Generator.createInboundRtpStats({
+        kind,
+        timestamp,
+        trackIdentifier: 'rules-track',
+        packetsReceived,
+        packetsLost,
+    });
+}
+
+describe("ThresholdRulesDetector", () => {
+    let storage: StatsStorage;
+    let packetsReceived: number;
+    let packetsLost: number;
+
+    const collect = (lostPackets: number, kind: 'audio' | 'video' = 'video') => {
+        packetsReceived += 100 - lostPackets;
+        packetsLost += lostPackets;
+        storage.update([{
+            peerConnectionId: PEER_CONNECTION_ID,
+            statsMap: createStatsMap([ createInboundRtpStats(packetsReceived * 10, packetsReceived, packetsLost, kind) ]),
+        }]);
+    };
+
+    beforeEach(() => {
+        storage = new StatsStorage();
+        storage.addPeerConnection(PEER_CONNECTION_ID);
+        packetsReceived = 0;
+        packetsLost = 0;
+    });
+
+    it("When the condition holds for the consecutive collections Then the rule is triggered once", () => {
+        const detector = new ThresholdRulesDetector({ rules: [ HIGH_VIDEO_LOSS_RULE ] });
+        const triggered: ThresholdRuleEvent[] = [];
+        detector.on('rule-triggered', (event) => triggered.push(event));
+
+        collect(0);
+        for (const lostPackets of [ 10, 10, 0, 10, 10 ]) {
+            collect(lostPackets);
+            detector.update(storage);
+        }
+        expect(triggered).toHaveLength(0);
+
+        collect(10);
+        detector.update(storage);
+        collect(10);
+        detector.update(storage);
+
+        expect(triggered).toEqual([{
+            rule: HIGH_VIDEO_LOSS_RULE,
+            peerConnectionId: PEER_CONNECTION_ID,
+            trackId: 'rules-track',
+            ssrc: expect.any(Number),
+            value: 0.1,
+        }]);
+    });
+
+    it("When the condition does not hold anymore Then the rule is resolved and the alert is turned off", () => {
+        const detector = new ThresholdRulesDetector({ rules: [{ ...HIGH_VIDEO_LOSS_RULE, consecutiveCollections: 1 }] });
+        const alertStates: string[] = [];
+        const resolved: ThresholdRuleEvent[] = [];
+        detector.on('alert-state', (state) => alertStates.push(state));
+        detector.on('rule-resolved', (event) => resolved.push(event));
+
+        collect(0);
+        collect(10);
+        detector.update(storage);
+        collect(0);
+        detector.update(storage);
+
+        expect(alertStates).toEqual([ 'on', 'off' ]);
+        expect(resolved.map((event) => event.value)).toEqual([ 0 ]);
+    });
+
+    it("When the entry of a triggered rule is removed Then the rule is resolved with the last value", () => {
+        const detector = new ThresholdRulesDetector({ rules: [{ ...HIGH_VIDEO_LOSS_RULE, consecutiveCollections: 1 }] });
+        const alertStates: string[] = [];
+        const resolved: ThresholdRuleEvent[] = [];
+        detector.on('alert-state', (state) => alertStates.push(state));
+        detector.on('rule-resolved', (event) => resolved.push(event));
+
+        collect(0);
+        collect(10);
+        detector.update(storage);
+        storage.update([{ peerConnectionId: PEER_CONNECTION_ID, statsMap: createStatsMap([]) }]);
+        detector.update(storage);
+
+        expect(alertStates).toEqual([ 'on', 'off' ]);
+        expect(resolved).toEqual([ expect.objectContaining({ trackId: 'rules-track', value: 0.1 }) ]);
+    });
+
+    it("When the kind of the entry does not match Then the rule is not evaluated", () => {
+        const detector = new ThresholdRulesDetector({ rules: [{ ...HIGH_VIDEO_LOSS_RULE, consecutiveCollections: 1 }] });
+        const triggered: ThresholdRuleEvent[] = [];
+        detector.on('rule-triggered', (event) => triggered.push(event));
+
+        collect(0, 'audio');
+        collect(50, 'audio');
+        detector.update(storage);
+
+        expect(triggered).toHaveLength(0);
+    });
+
+    it("When a rule is invalid Then the validation throws an error", () => {
+        expect(() => validateThresholdRules([{ ...HIGH_VIDEO_LOSS_RULE, metric: 'unknown.fractionLoss' }])).toThrow();
+        expect(() => validateThresholdRules([{ ...HIGH_VIDEO_LOSS_RULE, operator: '=>' }])).toThrow();
+        expect(() => validateThresholdRules([ HIGH_VIDEO_LOSS_RULE, HIGH_VIDEO_LOSS_RULE ])).toThrow();
+        expect(validateThresholdRules(JSON.parse(JSON.stringify([ HIGH_VIDEO_LOSS_RULE ])))).toEqual([ HIGH_VIDEO_LOSS_RULE ]);
+    });
+
+    it("When the rules are configured on the monitor Then the triggered rules raise issues", async () => {
+        const monitor = new ClientMonitor({
+            collectingPeriodInMs: 0,
+            detectIssues: {
+                thresholdRules: [{ ...HIGH_VIDEO_LOSS_RULE, consecutiveCollections: 1 }],
+            },
+        });
+        const issues: ClientIssue[] = [];
+        monitor.on('issue', (issue) => issues.push(issue));
+
+        await monitor.replayStatsDump([ 1000, 2000 ].map((timestamp, index) => ({
+            type: 'stats',
+            timestamp,
+            peerConnections: [{
+                peerConnectionId: PEER_CONNECTION_ID,
+                stats: [ createInboundRtpStats(timestamp, (index + 1) * 90, index * 10) ],
+            }],
+        })));
+        monitor.close();
+
+        expect(issues).toEqual([ expect.objectContaining({
+            severity: 'major',
+            peerConnectionId: PEER_CONNECTION_ID,
+            mediaTrackId: 'rules-track',
+            attachments: expect.objectContaining({ rule: 'high-video-loss', value: 0.1 }),
+        }) ]);
+    });
+
+    it("When a layer of a simulcast track recovers while the other is triggered Then the issue of the track is resolved only when both recovered", async () => {
+        const monitor = new ClientMonitor({
+            collectingPeriodInMs: 0,
+            detectIssues: {
+                thresholdRules: [{
+                    name: 'low-layer-fps',
+                    metric: 'outboundRtp.stats.framesPerSecond',
+                    operator: '<',
+                    value: 10,
+                    consecutiveCollections: 1,
+                    kind: 'video',
+                    severity: 'minor',
+                }],
+            },
+        });
+        const issues: ClientIssue[] = [];
+        const resolvedIssues: ClientIssue[] = [];
+        monitor.on('issue', (issue) => issues.push(issue));
+        monitor.on('issue-resolved', (issue) => resolvedIssues.push(issue));
+
+        // the frames per second of the two layers in every collection
+        await monitor.replayStatsDump([ [ 5, 5 ], [ 15, 5 ], [ 15, 5 ], [ 15, 15 ] ].map((framesPerSecond, index) => {
+            const timestamp = (index + 1) * 1000;
+            return {
+                type: 'stats',
+                timestamp,
+                peerConnections: [{
+                    peerConnectionId: PEER_CONNECTION_ID,
+                    stats: [
+                        Generator.createMediaSourceStats({ kind: 'video', timestamp, trackIdentifier: 'rules-track' }),
+                        ...[ 'h', 'f' ].map((rid, layerIndex) => Generator.createOutboundRtpStats({
+                            id: `outbound-rtp-${rid}`,
+                            kind: 'video',
+                            timestamp,
+                            rid,
+                            ssrc: 1000 + layerIndex,
+                            framesPerSecond: framesPerSecond[layerIndex],
+                        })),
+                    ],
+                }],
+            };
+        }));
+
+        expect(issues).toEqual([ expect.objectContaining({
+            type: 'threshold-rule-low-layer-fps',
+            mediaTrackId: 'rules-track',
+        }) ]);
+        expect(resolvedIssues).toEqual([ expect.objectContaining({
+            type: 'threshold-rule-low-layer-fps',
+            resolvedAt: 4000,
+        }) ]);
+        monitor.close();
+    });
+});
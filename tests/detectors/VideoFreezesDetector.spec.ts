@@ -0,0 +1,76 @@
+import { ClientIssue, ClientMonitor, ClientMonitorEvents } from "../../src/ClientMonitor";
+import { StatsDumpRecord } from "../../src/collectors/StatsDump";
+import * as Generator from "../helpers/StatsGenerator";
+
+const PEER_CONNECTION_ID = 'freeze-pc';
+const TRACK_ID = 'freeze-track';
+
+// every collection represents 1s, the freezeCount and the totalFreezesDuration of the track are given in every collection
+function createRecords(freezes: [number, number][]): StatsDumpRecord[] {
+    return freezes.map(([ freezeCount, totalFreezesDuration ], index) => {
+        const timestamp = (index + 1) * 1000;
+        return {
+            type: 'stats',
+            timestamp,
+            peerConnections: [{
+                peerConnectionId: PEER_CONNECTION_ID,
+                stats: [
+                    Generator.createInboundRtpStats({
+                        kind: 'video',
+                        timestamp,
+                        trackIdentifier: TRACK_ID,
+                        packetsReceived: timestamp / 10,
+                        bytesReceived: timestamp * 100,
+                        freezeCount,
+                        totalFreezesDuration,
+                    }),
+                ],
+            }],
+        };
+    });
+}
+
+describe("VideoFreezesDetector", () => {
+    let monitor: ClientMonitor;
+
+    afterEach(() => {
+        monitor.close();
+    });
+
+    it("When a video freezes Then the issue is added when the freeze starts and resolved with its duration when it ends", async () => {
+        monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+        const events: ClientMonitorEvents['freezed-video'][] = [];
+        const issues: ClientIssue[] = [];
+        const resolvedIssues: ClientIssue[] = [];
+        monitor.on('freezed-video', (event) => events.push(event));
+        monitor.on('issue', (issue) => issues.push(issue));
+        monitor.on('issue-resolved', (issue) => resolvedIssues.push(issue));
+        monitor.createVideoFreezesDetector({
+            createIssueOnDetection: { severity: 'minor' },
+        });
+
+        await monitor.replayStatsDump(createRecords([
+            [ 0, 0 ],
+            [ 1, 0 ],
+            [ 1, 1.5 ],
+        ]));
+
+        expect(events).toEqual([
+            expect.objectContaining({ state: 'started', trackId: TRACK_ID }),
+            expect.objectContaining({ state: 'ended', trackId: TRACK_ID, durationInS: 1.5 }),
+        ]);
+        expect(issues).toEqual([ expect.objectContaining({
+            type: 'freezed-video',
+            peerConnectionId: PEER_CONNECTION_ID,
+            mediaTrackId: TRACK_ID,
+            timestamp: 2000,
+        }) ]);
+        expect(resolvedIssues).toEqual([ expect.objectContaining({
+            type: 'freezed-video',
+            mediaTrackId: TRACK_ID,
+            resolvedAt: 3000,
+            durationInMs: 1000,
+            attachments: expect.objectContaining({ durationInS: 1.5 }),
+        }) ]);
+    });
+});
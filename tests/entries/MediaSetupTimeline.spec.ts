@@ -0,0 +1,47 @@
+import { createMediaSetupTimeline } from "../../src/entries/MediaSetupTimeline";
+import * as Generator from "../helpers/StatsGenerator";
+
+function createInboundRtp(timestamp: number, data: Record<string, unknown>) {
+    return Generator.createInboundRtpStats({
+        kind: 'video',
+        timestamp,
+        framesRendered: undefined,
+        ...data,
+    });
+}
+
+describe("MediaSetupTimeline", () => {
+    it("When the first packet and frame are received Then the times are measured from the time the track is added", () => {
+        const timeline = createMediaSetupTimeline(2000);
+
+        timeline.setAddedAt(500);
+        timeline.update([ createInboundRtp(2000, { packetsReceived: 0, framesDecoded: 0 }) ]);
+        timeline.update([ createInboundRtp(3000, { packetsReceived: 10, framesDecoded: 0 }) ]);
+        timeline.update([ createInboundRtp(4000, { packetsReceived: 100, framesDecoded: 5 }) ]);
+
+        expect(timeline.getState()).toEqual({
+            addedAt: 500,
+            firstPacketReceivedAt: 3000,
+            firstFrameDecodedAt: 4000,
+            firstFrameRenderedAt: undefined,
+            timeToFirstPacketInMs: 2500,
+            timeToFirstFrameInMs: 3500,
+        });
+    });
+
+    it("When the time the track is added is not set Then the times are measured from the time the track is first seen", () => {
+        const timeline = createMediaSetupTimeline(1000);
+
+        timeline.update([ createInboundRtp(1000, { packetsReceived: 0, framesDecoded: 0 }) ]);
+        timeline.update([ createInboundRtp(2000, { packetsReceived: 10, framesDecoded: 1, framesRendered: 0 }) ]);
+        timeline.update([ createInboundRtp(3000, { packetsReceived: 20, framesDecoded: 2, framesRendered: 1 }) ]);
+
+        expect(timeline.getState()).toMatchObject({
+            addedAt: 1000,
+            timeToFirstPacketInMs: 1000,
+            firstFrameDecodedAt: 2000,
+            firstFrameRenderedAt: 3000,
+            timeToFirstFrameInMs: 2000,
+        });
+    });
+});
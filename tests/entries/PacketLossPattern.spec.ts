@@ -0,0 +1,63 @@
+import { createPacketLossAnalyzer } from "../../src/entries/PacketLossPattern";
+
+describe("PacketLossAnalyzer", () => {
+    it("When the loss is above the threshold in consecutive collections Then an episode is created", () => {
+        const analyzer = createPacketLossAnalyzer({ burstFractionLossThreshold: 0.05 });
+
+        analyzer.update(0, 100, 1000);
+        analyzer.update(20, 80, 2000);
+        analyzer.update(10, 90, 3000);
+
+        expect(analyzer.getPattern().activeEpisode).toEqual({
+            startedAt: 2000,
+            lostPackets: 30,
+            expectedPackets: 200,
+            fractionLoss: 0.15,
+        });
+
+        analyzer.update(1, 99, 4000);
+        const pattern = analyzer.getPattern();
+
+        expect(pattern.activeEpisode).toBeUndefined();
+        expect(pattern.episodes).toEqual([{
+            startedAt: 2000,
+            endedAt: 4000,
+            lostPackets: 30,
+            expectedPackets: 200,
+            fractionLoss: 0.15,
+        }]);
+        expect(pattern.meanBurstLength).toBe(200);
+        expect(pattern.meanBurstDurationInMs).toBe(2000);
+        expect(pattern.burstDensity).toBe(0.15);
+        expect(pattern.gapDensity).toBe(0.005);
+    });
+
+    it("When a collection is added more than once Then it is analyzed once", () => {
+        const analyzer = createPacketLossAnalyzer();
+
+        analyzer.update(20, 80, 1000);
+        analyzer.update(20, 80, 1000);
+
+        expect(analyzer.getPattern().activeEpisode?.lostPackets).toBe(20);
+    });
+
+    it("When nothing is received or lost Then the episode is not ended", () => {
+        const analyzer = createPacketLossAnalyzer();
+
+        analyzer.update(20, 80, 1000);
+        analyzer.update(0, 0, 2000);
+
+        expect(analyzer.getPattern().activeEpisode?.startedAt).toBe(1000);
+    });
+
+    it("When there are more episodes than the maximum Then the oldest ones are dropped", () => {
+        const analyzer = createPacketLossAnalyzer({ maxEpisodes: 2 });
+
+        for (let i = 0; i < 3; ++i) {
+            analyzer.update(50, 50, i * 2000 + 1000);
+            analyzer.update(0, 100, i * 2000 + 2000);
+        }
+
+        expect(analyzer.getPattern().episodes.map(episode => episode.startedAt)).toEqual([ 3000, 5000 ]);
+    });
+});
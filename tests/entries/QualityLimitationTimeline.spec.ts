@@ -0,0 +1,80 @@
+import { createQualityLimitationTimeline } from "../../src/entries/QualityLimitationTimeline";
+import * as Generator from "../helpers/StatsGenerator";
+
+function createOutboundRtp(timestamp: number, data: Record<string, unknown>) {
+    return Generator.createOutboundRtpStats({
+        kind: 'video',
+        timestamp,
+        ...data,
+    });
+}
+
+describe("QualityLimitationTimeline", () => {
+    it("When the limitation reason changes Then an episode is closed and a new one is started", () => {
+        const timeline = createQualityLimitationTimeline();
+
+        timeline.update([ createOutboundRtp(1000, { qualityLimitationReason: 'none', qualityLimitationResolutionChanges: 0 }) ]);
+        timeline.update([ createOutboundRtp(2000, { qualityLimitationReason: 'cpu', qualityLimitationResolutionChanges: 1 }) ]);
+        timeline.update([ createOutboundRtp(4000, { qualityLimitationReason: 'cpu', qualityLimitationResolutionChanges: 3 }) ]);
+        timeline.update([ createOutboundRtp(5000, {
+            qualityLimitationReason: 'bandwidth',
+            qualityLimitationResolutionChanges: 4,
+            qualityLimitationDurations: { none: 1, cpu: 3, bandwidth: 0, other: 0 },
+        }) ]);
+
+        expect(timeline.getState()).toEqual({
+            reason: 'bandwidth',
+            durationsInS: { none: 1, cpu: 3, bandwidth: 0, other: 0 },
+            resolutionChanges: 4,
+            episodes: [{
+                reason: 'cpu',
+                startedAt: 2000,
+                endedAt: 5000,
+                durationInMs: 3000,
+                resolutionChanges: 3,
+            }, {
+                reason: 'bandwidth',
+                startedAt: 5000,
+                durationInMs: 0,
+                resolutionChanges: 0,
+            }],
+        });
+    });
+
+    it("When the limitation is gone Then the episode is ended", () => {
+        const timeline = createQualityLimitationTimeline();
+
+        timeline.update([ createOutboundRtp(1000, { qualityLimitationReason: 'bandwidth' }) ]);
+        timeline.update([ createOutboundRtp(3000, { qualityLimitationReason: 'none' }) ]);
+
+        const { reason, episodes } = timeline.getState();
+        expect(reason).toBe('none');
+        expect(episodes).toEqual([{
+            reason: 'bandwidth',
+            startedAt: 1000,
+            endedAt: 3000,
+            durationInMs: 2000,
+            resolutionChanges: 0,
+        }]);
+    });
+
+    it("When a collection is added more than once Then it is added once", () => {
+        const timeline = createQualityLimitationTimeline();
+
+        timeline.update([ createOutboundRtp(1000, { qualityLimitationReason: 'cpu' }) ]);
+        timeline.update([ createOutboundRtp(1000, { qualityLimitationReason: 'none' }) ]);
+
+        expect(timeline.getState().reason).toBe('cpu');
+        expect(timeline.getState().episodes.length).toBe(1);
+    });
+
+    it("When more episodes happened than the maximum Then the oldest ones are dropped", () => {
+        const timeline = createQualityLimitationTimeline(2);
+
+        for (let index = 0; index < 6; ++index) {
+            timeline.update([ createOutboundRtp(1000 * (index + 1), { qualityLimitationReason: index % 2 === 0 ? 'cpu' : 'none' }) ]);
+        }
+
+        expect(timeline.getState().episodes.map(({ startedAt }) => startedAt)).toEqual([ 3000, 5000 ]);
+    });
+});
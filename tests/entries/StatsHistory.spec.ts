@@ -0,0 +1,66 @@
+import { StatsHistory, calculateMovingAverage, calculatePercentile, calculateSlope, HistoryPoint } from "../../src/entries/StatsHistory";
+
+function createPoints(...values: number[]): HistoryPoint[] {
+    return values.map((value, index) => ({ timestamp: (index + 1) * 1000, value }));
+}
+
+describe("StatsHistory", () => {
+    it("When more values are added than the maxLength Then the oldest values are dropped", () => {
+        const history = new StatsHistory<'bitrate'>(3);
+        [ 1, 2, 3, 4, 5 ].forEach((value) => history.add('track', 'bitrate', value * 1000, value));
+
+        expect(history.get('track', 'bitrate').map((point) => point.value)).toEqual([3, 4, 5]);
+    });
+
+    it("When sinceMs is given Then only the values added at or after it are returned", () => {
+        const history = new StatsHistory<'bitrate'>();
+        [ 1, 2, 3, 4 ].forEach((value) => history.add('track', 'bitrate', value * 1000, value));
+
+        expect(history.get('track', 'bitrate', 3000)).toEqual([
+            { timestamp: 3000, value: 3 },
+            { timestamp: 4000, value: 4 },
+        ]);
+    });
+
+    it("When the maxLength is decreased Then the newest values are kept", () => {
+        const history = new StatsHistory<'bitrate'>(5);
+        [ 1, 2, 3, 4, 5 ].forEach((value) => history.add('track', 'bitrate', value * 1000, value));
+
+        history.maxLength = 2;
+        history.add('track', 'bitrate', 6000, 6);
+
+        expect(history.get('track', 'bitrate').map((point) => point.value)).toEqual([5, 6]);
+    });
+
+    it("When a value is not a finite number Then it is not added", () => {
+        const history = new StatsHistory<'bitrate'>();
+        history.add('track', 'bitrate', 1000, NaN);
+        history.add('track', 'bitrate', 2000, undefined);
+
+        expect(history.get('track', 'bitrate')).toEqual([]);
+    });
+
+    it("When percentiles are calculated Then the values are interpolated", () => {
+        const points = createPoints(40, 10, 30, 20, 50);
+
+        expect(calculatePercentile(points, 0)).toBe(10);
+        expect(calculatePercentile(points, 50)).toBe(30);
+        expect(calculatePercentile(points, 95)).toBeCloseTo(48);
+        expect(calculatePercentile(points, 100)).toBe(50);
+        expect(calculatePercentile([], 50)).toBeUndefined();
+    });
+
+    it("When the moving average is calculated Then every point averages the last windowLength values", () => {
+        const result = calculateMovingAverage(createPoints(1, 2, 3, 4, 5), 3);
+
+        expect(result.map((point) => point.value)).toEqual([1, 1.5, 2, 3, 4]);
+        expect(result.map((point) => point.timestamp)).toEqual([1000, 2000, 3000, 4000, 5000]);
+    });
+
+    it("When the slope is calculated Then it is the change of the fitted line per second", () => {
+        expect(calculateSlope(createPoints(100, 90, 80, 70))).toBeCloseTo(-10);
+        expect(calculateSlope(createPoints(10, 30, 10, 30))).toBeCloseTo(4);
+        expect(calculateSlope(createPoints(10))).toBeUndefined();
+        expect(calculateSlope([{ timestamp: 1000, value: 1 }, { timestamp: 1000, value: 2 }])).toBeUndefined();
+    });
+});
@@ -398,4 +398,94 @@ describe("StatsStorage", () => {
             });
         });
     });
-});
\ No newline at end of file
+    describe("Given tracks with quality scores", () => {
+        const peerConnectionId = "scoredPeerConnection";
+        const createStats = (timestamp: number, packetsLost: number) => createStatsMap([
+            Generator.createInboundRtpStats({
+                kind: 'audio',
+                timestamp,
+                trackIdentifier: 'inbound-track',
+                packetsReceived: timestamp / 20,
+                packetsLost,
+                bytesReceived: timestamp * 4,
+            }),
+            Generator.createOutboundRtpStats({
+                kind: 'audio',
+                timestamp,
+                bytesSent: timestamp * 4,
+            }),
+            Generator.createMediaSourceStats({
+                kind: 'audio',
+                timestamp,
+                trackIdentifier: 'outbound-track',
+            }),
+            Generator.createRemoteInboundRtpStats({
+                kind: 'audio',
+                timestamp,
+                fractionLost: 0,
+                roundTripTime: 0.05,
+            }),
+        ]);
+
+        it("When the stats are updated Then the tracks have scores and the storage aggregates them", () => {
+            const storage = new StatsStorage();
+            storage.addPeerConnection(peerConnectionId);
+            storage.update([{ peerConnectionId, statsMap: createStats(1000, 0) }]);
+            storage.update([{ peerConnectionId, statsMap: createStats(2000, 0) }]);
+
+            const inboundScore = storage.getTrack('inbound-track')?.score;
+            const outboundScore = storage.getTrack('outbound-track')?.score;
+            expect(inboundScore).toBeGreaterThanOrEqual(1);
+            expect(inboundScore).toBeLessThanOrEqual(5);
+            expect(outboundScore).toBeGreaterThanOrEqual(1);
+            expect(outboundScore).toBeLessThanOrEqual(5);
+
+            const scores = [ inboundScore!, outboundScore! ];
+            expect(storage.minScore).toBe(Math.min(...scores));
+            expect(storage.avgScore).toBeCloseTo((inboundScore! + outboundScore!) / 2, 1);
+            expect(storage.getPeerConnection(peerConnectionId)?.minScore).toBe(storage.minScore);
+        });
+
+        it("When the inbound packet loss increases Then the score of the inbound track decreases", () => {
+            const storage = new StatsStorage();
+            storage.addPeerConnection(peerConnectionId);
+            storage.update([{ peerConnectionId, statsMap: createStats(1000, 0) }]);
+            storage.update([{ peerConnectionId, statsMap: createStats(2000, 0) }]);
+            const scoreWithoutLoss = storage.getTrack('inbound-track')!.score!;
+
+            storage.update([{ peerConnectionId, statsMap: createStats(3000, 20) }]);
+
+            expect(storage.getTrack('inbound-track')!.score).toBeLessThan(scoreWithoutLoss);
+        });
+    });
+    describe("Given a StatsStorage updated multiple times", () => {
+        const peerConnectionId = "historyPeerConnection";
+        const createStats = (timestamp: number, bytesReceived: number) => createStatsMap([
+            Generator.createInboundRtpStats({
+                kind: 'audio',
+                timestamp,
+                trackIdentifier: 'history-track',
+                bytesReceived,
+            }),
+        ]);
+
+        it("When getHistory() is called Then the values of the metric are returned with the time of the updates", async () => {
+            const storage = new StatsStorage();
+            storage.setHistoryLength(2);
+            storage.addPeerConnection(peerConnectionId);
+
+            for (const [ timestamp, bytesReceived ] of [ [1000, 0], [2000, 1000], [3000, 3000], [4000, 6000] ]) {
+                storage.update([{ peerConnectionId, statsMap: createStats(timestamp, bytesReceived) }], timestamp);
+            }
+
+            expect(storage.getHistory('history-track', 'bitrate')).toEqual([
+                { timestamp: 3000, value: 16000 },
+                { timestamp: 4000, value: 24000 },
+            ]);
+            expect(storage.getPercentile('history-track', 'bitrate', 50)).toBe(20000);
+            expect(storage.getPeerConnectionHistory(peerConnectionId, 'receivingBitrate', 4000)).toEqual([
+                { timestamp: 4000, value: 24000 },
+            ]);
+        });
+    });
+});
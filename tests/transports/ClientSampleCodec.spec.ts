@@ -0,0 +1,104 @@
+import { Sampler } from "../../src/Sampler";
+import { StatsStorage } from "../../src/entries/StatsStorage";
+import { ClientSample } from "../../src/schema/Samples";
+import { decodeClientSample, decodeClientSamples, encodeClientSample, encodeClientSamples } from "../../src/transports/ClientSampleCodec";
+import { encodeCbor } from "../../src/utils/cbor";
+import { createStatsMap } from "../../src/utils/Stats";
+import * as Generator from "../helpers/StatsGenerator";
+
+const PEER_CONNECTION_ID = "peerConnectionId";
+
+function createClientSample(): ClientSample {
+    const storage = new StatsStorage();
+    const sampler = new Sampler(storage);
+    storage.addPeerConnection(PEER_CONNECTION_ID, "label");
+    storage.update([{
+        peerConnectionId: PEER_CONNECTION_ID,
+        statsMap: createStatsMap([
+            Generator.createCodecStats(),
+            Generator.createInboundRtpStats(),
+            Generator.createOutboundRtpStats(),
+            Generator.createRemoteInboundRtpStats(),
+            Generator.createRemoteOutboundRtpStats(),
+            Generator.createMediaSourceStats(),
+            Generator.createDataChannelStats(),
+            Generator.createTransportStats(),
+            Generator.createIceCandidatePairStats(),
+            Generator.createIceLocalCandidateStats(),
+            Generator.createIceRemoteCandidateStats(),
+            Generator.createCertificateStats(),
+        ]),
+    }]);
+    const result = sampler.createClientSample();
+    storage.clear();
+    return result;
+}
+
+// the encoding omits undefined fields, the same way JSON does
+const withoutUndefined = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+describe("ClientSampleCodec", () => {
+    it("When a sample created by the Sampler is encoded Then the decoded sample equals to the original", () => {
+        const sample = createClientSample();
+
+        const decoded = decodeClientSample(encodeClientSample(sample));
+
+        expect(decoded).toEqual(withoutUndefined(sample));
+    });
+
+    it("When a sample with various value types is encoded Then the values are preserved", () => {
+        const sample: ClientSample = {
+            clientId: 'árvíztűrő-tükörfúrógép-🚀',
+            timestamp: 1700000000123,
+            sampleSeq: 0,
+            timeZoneOffsetInHours: -5.5,
+            mediaConstraints: [ '{"audio":true}' ],
+            customCallEvents: [{ name: 'event', value: '' }],
+            inboundAudioTracks: [{
+                ssrc: 4294967295,
+                jitter: 0.1234567,
+                audioLevel: 0.5,
+                packetsLost: -3,
+            }],
+            outboundVideoTracks: [{
+                ssrc: 1,
+                active: false,
+                totalEncodeTime: 1e-9,
+            }],
+        };
+
+        expect(decodeClientSample(encodeClientSample(sample))).toEqual(sample);
+    });
+
+    it("When a sample has fields unknown to the schema Then they are kept", () => {
+        const sample = {
+            clientId: 'clientId',
+            timestamp: 1,
+            notInTheSchema: { nested: [ 1, 'a', null ] },
+        } as ClientSample;
+
+        expect(decodeClientSample(encodeClientSample(sample))).toEqual(sample);
+    });
+
+    it("When a batch is encoded Then it is smaller than the JSON and decoded in order", () => {
+        const samples = [ createClientSample(), createClientSample(), createClientSample() ]
+            .map((sample, index) => ({ ...sample, sampleSeq: index }));
+
+        const encoded = encodeClientSamples(samples);
+
+        expect(encoded.length).toBeLessThan(JSON.stringify(samples).length / 2);
+        expect(decodeClientSamples(encoded).map((sample) => sample.sampleSeq)).toEqual([0, 1, 2]);
+    });
+
+    it("When the payload has a different schema version Then decoding fails", () => {
+        const encoded = encodeCbor([ '1.0.0', [] ]);
+
+        expect(() => decodeClientSamples(encoded)).toThrow('1.0.0');
+    });
+
+    it("When the payload is truncated Then decoding fails", () => {
+        const encoded = encodeClientSample(createClientSample());
+
+        expect(() => decodeClientSamples(encoded.subarray(0, encoded.length - 1))).toThrow();
+    });
+});
@@ -0,0 +1,262 @@
+import { ClientMonitor } from "../../src/ClientMonitor";
+import { ClientSample } from "../../src/schema/Samples";
+import { SampleSink } from "../../src/transports/SampleSink";
+import { SampleTransport } from "../../src/transports/SampleTransport";
+import { createHttpSampleSink } from "../../src/transports/HttpSampleSink";
+import { createWebSocketSampleSink, WebSocketLike } from "../../src/transports/WebSocketSampleSink";
+
+function createSample(sampleSeq: number): ClientSample {
+    return {
+        clientId: 'clientId',
+        timestamp: sampleSeq,
+        sampleSeq,
+    };
+}
+
+function createFakeSink() {
+    const batches: ClientSample[][] = [];
+    let available = true;
+    let closed = false;
+    const sink: SampleSink = {
+        send: async (samples) => {
+            if (!available) throw new Error('Sink is not available');
+            batches.push(samples);
+        },
+        close: () => {
+            closed = true;
+        },
+    };
+    return {
+        sink,
+        batches,
+        setAvailable: (value: boolean) => {
+            available = value;
+        },
+        get closed() {
+            return closed;
+        },
+    };
+}
+
+const flushPromises = () => new Promise((resolve) => jest.requireActual('timers').setImmediate(resolve));
+
+describe("SampleTransport", () => {
+    describe("Given an available sink", () => {
+        it("When samples are added Then they are sent in batches of batchSize", async () => {
+            const fake = createFakeSink();
+            const transport = new SampleTransport({ sink: fake.sink, batchSize: 2 });
+
+            transport.add(createSample(1));
+            await flushPromises();
+            expect(fake.batches.length).toBe(0);
+
+            transport.add(createSample(2));
+            await flushPromises();
+            expect(fake.batches.map((batch) => batch.map((s) => s.sampleSeq))).toEqual([ [1, 2] ]);
+        });
+
+        it("When more samples are queued than maxBatchSize Then the queue is drained in multiple batches", async () => {
+            const fake = createFakeSink();
+            const transport = new SampleTransport({ sink: fake.sink, batchSize: 5, maxBatchSize: 2 });
+
+            for (let i = 1; i <= 5; ++i) transport.add(createSample(i));
+            await transport.flush();
+
+            expect(fake.batches.map((batch) => batch.length)).toEqual([2, 2, 1]);
+        });
+
+        it("When the transport is closed Then queued samples are flushed and the sink is closed", async () => {
+            const fake = createFakeSink();
+            const transport = new SampleTransport({ sink: fake.sink, batchSize: 10 });
+
+            transport.add(createSample(1));
+            await transport.close();
+
+            expect(fake.batches).toEqual([ [createSample(1)] ]);
+            expect(fake.closed).toBe(true);
+            expect(transport.closed).toBe(true);
+        });
+    });
+
+    describe("Given an unavailable sink", () => {
+        beforeEach(() => {
+            jest.useFakeTimers();
+        });
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it("When sending fails Then it retries with exponential backoff", async () => {
+            const fake = createFakeSink();
+            const transport = new SampleTransport({ sink: fake.sink, retry: { initialDelayInMs: 100, maxDelayInMs: 250 } });
+            const retries: (number | undefined)[] = [];
+            transport.events.on('send-failed', (event) => retries.push(event.retryInMs));
+
+            fake.setAvailable(false);
+            transport.add(createSample(1));
+            await flushPromises();
+            jest.advanceTimersByTime(100);
+            await flushPromises();
+            jest.advanceTimersByTime(200);
+            await flushPromises();
+
+            expect(retries).toEqual([100, 200, 250]);
+            expect(transport.pendingSamples).toBe(1);
+            transport.events.removeAllListeners('send-failed');
+        });
+
+        it("When the sink becomes available Then the buffered samples are sent in order", async () => {
+            const fake = createFakeSink();
+            const transport = new SampleTransport({ sink: fake.sink, retry: { initialDelayInMs: 100 } });
+
+            fake.setAvailable(false);
+            transport.add(createSample(1));
+            await flushPromises();
+            transport.add(createSample(2));
+            await flushPromises();
+
+            fake.setAvailable(true);
+            jest.advanceTimersByTime(100);
+            await flushPromises();
+
+            expect(fake.batches.flat().map((s) => s.sampleSeq)).toEqual([1, 2]);
+            expect(transport.pendingSamples).toBe(0);
+        });
+
+        it("When the queue is full Then the oldest samples are dropped", async () => {
+            const fake = createFakeSink();
+            const transport = new SampleTransport({ sink: fake.sink, maxQueueSize: 2 });
+            const dropped: (number | undefined)[] = [];
+            transport.events.on('dropped', (event) => dropped.push(...event.samples.map((s) => s.sampleSeq)));
+
+            fake.setAvailable(false);
+            for (let i = 1; i <= 4; ++i) {
+                transport.add(createSample(i));
+                await flushPromises();
+            }
+
+            expect(dropped).toEqual([1, 2]);
+            expect(transport.pendingSamples).toBe(2);
+        });
+    });
+
+    describe("Given a ClientMonitor", () => {
+        it("When the monitor creates a sample Then the transport sends it", async () => {
+            const monitor = new ClientMonitor({ collectingPeriodInMs: 0 });
+            const fake = createFakeSink();
+            const transport = monitor.createSampleTransport({ sink: fake.sink });
+
+            const sample = monitor.sample();
+            await flushPromises();
+
+            expect(fake.batches).toEqual([ [sample] ]);
+
+            monitor.close();
+            await flushPromises();
+            expect(transport.closed).toBe(true);
+            expect(fake.closed).toBe(true);
+        });
+    });
+});
+
+describe("WebSocketSampleSink", () => {
+    class FakeWebSocket implements WebSocketLike {
+        public static instances: FakeWebSocket[] = [];
+        public readyState = 0;
+        public onopen: ((event: unknown) => void) | null = null;
+        public onclose: ((event: unknown) => void) | null = null;
+        public onerror: ((event: unknown) => void) | null = null;
+        public readonly messages: unknown[] = [];
+
+        public constructor(public readonly url: string) {
+            FakeWebSocket.instances.push(this);
+        }
+
+        public open() {
+            this.readyState = 1;
+            this.onopen?.({});
+        }
+
+        public send(data: unknown) {
+            this.messages.push(data);
+        }
+
+        public close() {
+            this.readyState = 3;
+            this.onclose?.({});
+        }
+    }
+
+    beforeEach(() => {
+        FakeWebSocket.instances = [];
+    });
+
+    it("When the socket opens Then the batch is sent and the socket is reused", async () => {
+        const sink = createWebSocketSampleSink({ url: 'ws://localhost', WebSocket: FakeWebSocket });
+
+        const sending = sink.send([ createSample(1) ]);
+        FakeWebSocket.instances[0].open();
+        await sending;
+        await sink.send([ createSample(2) ]);
+
+        expect(FakeWebSocket.instances.length).toBe(1);
+        expect(FakeWebSocket.instances[0].messages).toEqual([
+            JSON.stringify({ samples: [ createSample(1) ] }),
+            JSON.stringify({ samples: [ createSample(2) ] }),
+        ]);
+        sink.close();
+    });
+
+    it("When the socket is closed by the remote Then the next send reconnects", async () => {
+        const sink = createWebSocketSampleSink({ url: 'ws://localhost', WebSocket: FakeWebSocket });
+
+        const sending = sink.send([ createSample(1) ]);
+        FakeWebSocket.instances[0].open();
+        await sending;
+        FakeWebSocket.instances[0].close();
+        expect(sink.connected).toBe(false);
+
+        const resending = sink.send([ createSample(2) ]);
+        FakeWebSocket.instances[1].open();
+        await resending;
+
+        expect(FakeWebSocket.instances.length).toBe(2);
+        expect(FakeWebSocket.instances[1].messages.length).toBe(1);
+        sink.close();
+    });
+
+    it("When the socket cannot connect Then send is rejected", async () => {
+        const sink = createWebSocketSampleSink({ url: 'ws://localhost', WebSocket: FakeWebSocket });
+
+        const sending = sink.send([ createSample(1) ]);
+        FakeWebSocket.instances[0].onerror?.({});
+
+        await expect(sending).rejects.toThrow();
+        sink.close();
+    });
+});
+
+describe("HttpSampleSink", () => {
+    it("When send is called Then the batch is POSTed", async () => {
+        const fetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+        const sink = createHttpSampleSink({ url: 'http://localhost/samples', fetch, headers: { Authorization: 'token' } });
+
+        await sink.send([ createSample(1) ]);
+
+        expect(fetch).toHaveBeenCalledWith('http://localhost/samples', expect.objectContaining({
+            method: 'POST',
+            headers: {
+                'Authorization': 'token',
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ samples: [ createSample(1) ] }),
+        }));
+    });
+
+    it("When the server responds with an error Then send is rejected", async () => {
+        const fetch = jest.fn().mockResolvedValue({ ok: false, status: 503 });
+        const sink = createHttpSampleSink({ url: 'http://localhost/samples', fetch });
+
+        await expect(sink.send([ createSample(1) ])).rejects.toThrow('503');
+    });
+});
@@ -0,0 +1,91 @@
+import { ClientSample } from "../../src/schema/Samples";
+import { createClientSampleDeltaDecoder, createClientSampleDeltaEncoder } from "../../src/utils/sampleDelta";
+
+function createSample(sampleSeq: number, data?: Partial<ClientSample>): ClientSample {
+    return {
+        clientId: 'clientId',
+        timestamp: 1000 + sampleSeq,
+        sampleSeq,
+        userId: 'userId',
+        timeZoneOffsetInHours: 2,
+        inboundAudioTracks: [{
+            ssrc: 1,
+            peerConnectionId: 'pc1',
+            trackId: 'track1',
+            packetsReceived: 100 * sampleSeq,
+            jitter: 0.01,
+        }],
+        ...data,
+    };
+}
+
+describe("SampleDelta", () => {
+    it("When the keyframeInterval is 3 Then every third sample is a keyframe", () => {
+        const encoder = createClientSampleDeltaEncoder({ keyframeInterval: 3 });
+
+        const deltaOfs = [0, 1, 2, 3, 4, 5, 6].map((seq) => encoder.encode(createSample(seq)).deltaOf);
+
+        expect(deltaOfs).toEqual([undefined, 0, 1, undefined, 3, 4, undefined]);
+    });
+
+    it("When a field is not changed Then the delta sample does not contain it", () => {
+        const encoder = createClientSampleDeltaEncoder({ keyframeInterval: 10 });
+
+        encoder.encode(createSample(0));
+        const delta = encoder.encode(createSample(1));
+
+        expect(delta.userId).toBeUndefined();
+        expect(delta.timeZoneOffsetInHours).toBeUndefined();
+        expect(delta.inboundAudioTracks).toEqual([{
+            ssrc: 1,
+            peerConnectionId: 'pc1',
+            packetsReceived: 100,
+        }]);
+    });
+
+    it("When a field became undefined Then the delta contains null for it", () => {
+        const encoder = createClientSampleDeltaEncoder({ keyframeInterval: 10 });
+
+        encoder.encode(createSample(0, { marker: 'marker' }));
+        const delta = encoder.encode(createSample(1));
+
+        expect(delta.marker).toBeNull();
+    });
+
+    it("When deltas are decoded Then the full samples are rebuilt", () => {
+        const encoder = createClientSampleDeltaEncoder({ keyframeInterval: 3 });
+        const decoder = createClientSampleDeltaDecoder();
+        const samples = [
+            createSample(0, { marker: 'marker' }),
+            createSample(1),
+            createSample(2, {
+                userId: 'newUserId',
+                inboundAudioTracks: [{ ssrc: 1, peerConnectionId: 'pc1', packetsReceived: 200 }],
+                outboundVideoTracks: [{ ssrc: 2, peerConnectionId: 'pc1', frameWidth: 640 }],
+            }),
+            createSample(3, {
+                inboundAudioTracks: undefined,
+                outboundVideoTracks: [{ ssrc: 2, peerConnectionId: 'pc1', frameWidth: 320 }],
+            }),
+            createSample(4, {
+                outboundVideoTracks: [{ ssrc: 2, peerConnectionId: 'pc1', frameWidth: 320 }],
+            }),
+        ];
+
+        // the decoder receives the samples through the wire
+        const decoded = samples.map((sample) => decoder.decode(JSON.parse(JSON.stringify(encoder.encode(sample)))));
+
+        expect(decoded).toEqual(samples.map((sample) => JSON.parse(JSON.stringify(sample))));
+    });
+
+    it("When a delta refers to a missing sample Then it is not decoded until the next keyframe", () => {
+        const encoder = createClientSampleDeltaEncoder({ keyframeInterval: 3 });
+        const decoder = createClientSampleDeltaDecoder();
+        const encoded = [0, 1, 2, 3, 4].map((seq) => encoder.encode(createSample(seq)));
+
+        // sample 1 is lost
+        const decoded = [ encoded[0], encoded[2], encoded[3], encoded[4] ].map((sample) => decoder.decode(sample));
+
+        expect(decoded.map((sample) => sample?.sampleSeq)).toEqual([0, undefined, 3, 4]);
+    });
+});